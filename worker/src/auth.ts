@@ -0,0 +1,115 @@
+/**
+ * Session tokens: `base64url(claims).base64url(HMAC-SHA256(claims))`, signed with the SESSION_SECRET binding.
+ * They expire SESSION_TOKEN_TTL_DAYS after `iat`; /api/sessions/open issues a fresh one before then.
+ * Live tickets have the same form, signed with a key derived from the secret so that neither is accepted as
+ * the other, and expire after a minute: they go in WebSocket URLs, which end up in logs.
+ */
+
+export interface SessionClaims {
+  /** Session ID (the ChatSessionDO name). */
+  sid: string;
+  /** Owner ID recorded by ChatSessionDO when the session was issued. */
+  own: string;
+  /** Issued-at, ms since epoch. */
+  iat: number;
+}
+
+export const DEFAULT_TOKEN_TTL_DAYS = 30;
+export const LIVE_TICKET_TTL_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(s: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+export async function signSessionToken(claims: SessionClaims, secret: string): Promise<string> {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const sig = await crypto.subtle.sign("HMAC", await importKey(secret), encoder.encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(sig))}`;
+}
+
+/** Returns the claims if the signature is valid, otherwise null. */
+export async function verifySessionToken(token: string, secret: string): Promise<SessionClaims | null> {
+  const parts = token.split(".");
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return null;
+  let claims: SessionClaims;
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      base64UrlDecode(parts[1]),
+      encoder.encode(parts[0])
+    );
+    if (!valid) return null;
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0]))) as SessionClaims;
+  } catch {
+    return null;
+  }
+  if (typeof claims?.sid !== "string" || typeof claims.own !== "string" || typeof claims.iat !== "number") {
+    return null;
+  }
+  return claims;
+}
+
+function ticketSecret(secret: string): string {
+  return `${secret}:live-ticket`;
+}
+
+export function signLiveTicket(claims: SessionClaims, secret: string): Promise<string> {
+  return signSessionToken(claims, ticketSecret(secret));
+}
+
+/** Returns the claims if the ticket is validly signed and unexpired, otherwise null. */
+export async function verifyLiveTicket(ticket: string, secret: string): Promise<SessionClaims | null> {
+  const claims = await verifySessionToken(ticket, ticketSecret(secret));
+  return claims && !tokenExpired(claims, LIVE_TICKET_TTL_MS) ? claims : null;
+}
+
+/** Token lifetime from SESSION_TOKEN_TTL_DAYS; unset, invalid or non-positive values use the default. */
+export function getTokenTtlMs(env: { SESSION_TOKEN_TTL_DAYS?: string }): number {
+  const days = env.SESSION_TOKEN_TTL_DAYS ? Number(env.SESSION_TOKEN_TTL_DAYS) : NaN;
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_TOKEN_TTL_DAYS) * DAY_MS;
+}
+
+/** Whether a token has outlived `ttlMs`. */
+export function tokenExpired(claims: SessionClaims, ttlMs: number, now = Date.now()): boolean {
+  return now - claims.iat >= ttlMs;
+}
+
+/** Compares two secrets in time independent of where they differ. */
+export async function secretsEqual(a: string, b: string): Promise<boolean> {
+  const [da, db] = await Promise.all([
+    crypto.subtle.digest("SHA-256", encoder.encode(a)),
+    crypto.subtle.digest("SHA-256", encoder.encode(b)),
+  ]);
+  const x = new Uint8Array(da);
+  const y = new Uint8Array(db);
+  let diff = 0;
+  for (let i = 0; i < x.length; i++) diff |= x[i] ^ y[i];
+  return diff === 0;
+}
+
+/** Reads `Authorization: Bearer <token>`. WebSocket upgrades, which browsers cannot give headers, use a live ticket. */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("Authorization") ?? "";
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  return match ? match[1] : null;
+}
@@ -1,92 +1,457 @@
 /**
- * Durable Object per session. SQLite: messages + meta (summary, timestamps).
+ * Durable Object per session. SQLite: messages (a tree via parent_id, including tool calls and results)
+ * + meta (active branch leaf, summary and the last message ID it covers, timestamps, owner, session ID,
+ * model settings) + attachments + moderation events (the audit log of flagged, redacted and blocked
+ * content) + usage counters per route and model + Idempotency-Keys of chat requests with their responses.
+ * An alarm enforces the retention policy (session and upload TTLs).
+ * The schema is versioned; migrations.ts upgrades existing sessions on first access. Clients connected over
+ * WebSocket (hibernatable) receive new messages, summary updates, typing and streaming events, and presence.
  */
 
-export interface Env {
-  CHAT_SESSION: DurableObjectNamespace;
-}
+import type { Env } from "./env";
+import {
+  LIVE_NAME_HEADER,
+  liveName,
+  parseClientMessage,
+  streamingEventSchema,
+  type LiveClient,
+  type LiveEvent,
+  type StreamingEvent,
+} from "./live";
+import { moderationEventSchema, type ModerationEvent } from "./moderation";
+import { usageRecordSchema, type UsageRecord } from "./observability";
+import { profileSchema, type UserProfile } from "./profile";
+import { RpcError, doRequest, rpcStub, serveRpc, type RpcHandlers, type RpcSchemas } from "./protocol";
+import { SCHEMA_VERSION, migrate, schemaVersion } from "./migrations";
+import { getRetentionPolicy, nextRetentionDue } from "./retention";
+import { deleteDocument } from "./retrieval";
+import {
+  array,
+  boolean,
+  integer,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from "./schema";
+import type { DirectoryUpdate, IndexedMessage, SessionDirectoryApi } from "./sessionDirectoryDO";
+
+export type MessageRole = "user" | "assistant" | "system" | "tool";
 
-export type MessageRole = "user" | "assistant" | "system";
+/** A tool invocation requested by the model. */
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
 
 export interface MessageRow {
+  id: number;
+  /** Previous message on this branch; null for a first message. Edits and regenerations add siblings. */
+  parentId: number | null;
   role: MessageRole;
   content: string;
   ts: number;
+  /** Set on assistant messages that requested tools. */
+  toolCalls?: ToolCall[];
+  /** Set on `tool` messages: the tool whose result `content` holds. */
+  toolName?: string;
+  /** Set on user messages whose reply failed, until one succeeds; they are left out of later prompts. */
+  error?: string;
+}
+
+/** A message before it is stored. */
+export type NewMessage = Omit<MessageRow, "id" | "parentId" | "error">;
+
+/** A message on the active branch, with the alternatives at the same position. */
+export interface BranchMessage extends MessageRow {
+  /** IDs of the messages sharing this message's parent, including it, oldest first. */
+  siblingIds: number[];
+}
+
+/** Per-session overrides of the deployment's model registry defaults; absent fields use the defaults. */
+export interface SessionSettings {
+  model?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ChatContextData {
+  settings: SessionSettings;
+  summary: string | null;
+  /** Messages with `id <= summarizedThroughId` are folded into `summary`. */
+  summarizedThroughId: number;
+  /** Last message of the branch the context was read from (null: empty). */
+  leafId: number | null;
+  messages: MessageRow[];
+  /** Unsummarized messages left out: the oldest beyond getContext's `cap`, the newest beyond getUnsummarized's `limit`. */
+  omitted: number;
+}
+
+export interface AttachmentRow {
+  fileId: string;
+  name: string;
+  size: number;
+  contentType: string;
+  uploadedAt: number;
+  /** R2 object key holding the uploaded file (for redacted documents, the extracted text). */
+  r2Key: string;
+  /** R2 object key holding the file's text: `r2Key` itself for text files, a separate object for converted ones. */
+  textKey: string;
+  /** Number of chunks indexed for retrieval (0 if not indexed). */
+  chunks: number;
 }
 
 export interface ExportData {
   sessionId: string;
+  /** Storage schema version of the exporting session (see migrations.ts). */
+  schemaVersion: number;
   createdAt: number;
   updatedAt: number;
   summary: string | null;
+  summarizedThroughId: number;
+  settings: SessionSettings;
+  /** The owner's profile as applied to the session's latest reply; empty before the first. */
+  activeProfile: UserProfile;
+  activeLeafId: number | null;
+  /** Every message, branches included, in ID order (parents first); `activeLeafId` ends the active branch. */
   messages: MessageRow[];
 }
 
-type DORequest =
-  | { type: "init" }
-  | { type: "appendMessage"; role: MessageRole; content: string; ts: number }
-  | { type: "getRecentMessages"; limit: number }
-  | { type: "setSummary"; summary: string }
-  | { type: "getSummary" }
-  | { type: "exportSession" };
+/** Counters of the requests that called a chat model for this session, per route and model. */
+export interface SessionUsage {
+  route: string;
+  model: string;
+  requests: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  aiMs: number;
+  lastAt: number;
+}
+
+/**
+ * Outcome of claiming an Idempotency-Key: `started` (the caller runs the request; `userMessageId` is the
+ * message stored by an earlier failed attempt), `pending` (another attempt is running), `mismatch` (the key
+ * was used for a different request), or `done` with the stored response.
+ */
+export type RequestKeyClaim =
+  | { state: "started"; userMessageId: number | null }
+  | { state: "pending" }
+  | { state: "mismatch" }
+  | { state: "done"; status: number; body: string };
+
+/**
+ * A validated export to rebuild in a new session. Messages may form a tree; parents precede children. The
+ * profile belongs to the owner rather than the session, so imports do not restore it.
+ */
+export type ImportData = Omit<ExportData, "sessionId" | "schemaVersion" | "activeProfile">;
+
+type Done = { done: true };
+
+/** Requests ChatSessionDO serves: fields and response data per request type. */
+export type ChatSessionApi = {
+  init: { request: {}; response: Done };
+  /**
+   * `requestKey` records the new (user) message on that pending Idempotency-Key; `profile` records the owner
+   * profile the message was generated with.
+   */
+  appendMessage: {
+    request: { parentId?: number | null; activate?: boolean; requestKey?: string; profile?: UserProfile } & NewMessage;
+    response: { id: number };
+  };
+  /** Marks a user message's reply as failed (or clears the mark with null). */
+  setMessageError: { request: { id: number; error: string | null }; response: MessageRow | null };
+  getRecentMessages: { request: { limit: number }; response: BranchMessage[] };
+  getMessage: { request: { id: number }; response: MessageRow | null };
+  switchBranch: { request: { messageId: number }; response: { leafId: number | null } };
+  setSummary: {
+    request: { summary: string; throughId: number; expectedThroughId?: number };
+    response: { updated: boolean };
+  };
+  getSummary: { request: {}; response: string | null };
+  getContext: { request: { recent: number; cap: number; leafId?: number | null }; response: ChatContextData };
+  getUnsummarized: { request: { limit: number }; response: ChatContextData };
+  searchMessages: { request: { query: string; limit: number }; response: MessageRow[] };
+  getSettings: { request: {}; response: SessionSettings };
+  setSettings: { request: { settings: SessionSettings }; response: Done };
+  exportSession: { request: {}; response: ExportData };
+  importSession: { request: { data: ImportData }; response: { messages: number } | null };
+  getDirectoryEntry: {
+    request: { sessionId: string; afterId: number; limit: number };
+    response: DirectoryUpdate | null;
+  };
+  deleteSession: { request: {}; response: AttachmentRow[] };
+  claimOwner: { request: { owner: string; sessionId: string }; response: { authorized: boolean } };
+  checkOwner: { request: { owner: string }; response: { authorized: boolean } };
+  addAttachment: { request: { attachment: AttachmentRow }; response: Done };
+  listAttachments: { request: {}; response: AttachmentRow[] };
+  getAttachment: { request: { fileId: string }; response: AttachmentRow | null };
+  renameAttachment: { request: { fileId: string; name: string }; response: AttachmentRow | null };
+  deleteAttachment: { request: { fileId: string }; response: AttachmentRow | null };
+  recordModeration: { request: { events: ModerationEvent[] }; response: Done };
+  listModerationEvents: { request: { limit: number }; response: ModerationEvent[] };
+  recordUsage: { request: { usage: UsageRecord; now: number }; response: Done };
+  getUsage: { request: {}; response: SessionUsage[] };
+  /** Relays a Worker-side event to the live clients; responds with how many are connected. */
+  broadcast: { request: { event: StreamingEvent }; response: { clients: number } };
+  claimRequestKey: { request: { key: string; fingerprint: string; now: number }; response: RequestKeyClaim };
+  /** Stores the response of a claimed key, or with null marks the attempt failed so the key can be retried. */
+  settleRequestKey: {
+    request: { key: string; response: { status: number; body: string } | null; now: number };
+    response: Done;
+  };
+};
+
+const messageId = integer({ min: 1 });
+const limit = integer({ min: 1, max: 10_000 });
+const toolCallSchema = object({ name: string(), arguments: record() });
+const newMessageFields = {
+  role: literal("user", "assistant", "system", "tool"),
+  content: string(),
+  ts: number({ min: 0 }),
+  toolCalls: optional(array(toolCallSchema)),
+  toolName: optional(string()),
+};
+const messageRowSchema = object({ id: messageId, parentId: nullable(messageId), ...newMessageFields });
+const settingsSchema = object({
+  model: optional(string()),
+  systemPrompt: optional(string()),
+  temperature: optional(number()),
+  maxTokens: optional(integer()),
+});
+const attachmentSchema = object({
+  fileId: string({ min: 1 }),
+  name: string(),
+  size: integer({ min: 0 }),
+  contentType: string(),
+  uploadedAt: number({ min: 0 }),
+  r2Key: string({ min: 1 }),
+  textKey: string({ min: 1 }),
+  chunks: integer({ min: 0 }),
+});
+const importDataSchema = object({
+  createdAt: number({ min: 0 }),
+  updatedAt: number({ min: 0 }),
+  summary: nullable(string()),
+  summarizedThroughId: integer({ min: 0 }),
+  settings: settingsSchema,
+  activeLeafId: nullable(messageId),
+  messages: array(messageRowSchema),
+});
+
+export const chatSessionSchemas: RpcSchemas<ChatSessionApi> = {
+  init: object({}),
+  appendMessage: object({
+    parentId: optional(nullable(messageId)),
+    activate: optional(boolean()),
+    requestKey: optional(string({ min: 1 })),
+    profile: optional(profileSchema),
+    ...newMessageFields,
+  }),
+  setMessageError: object({ id: messageId, error: nullable(string()) }),
+  getRecentMessages: object({ limit }),
+  getMessage: object({ id: messageId }),
+  switchBranch: object({ messageId }),
+  setSummary: object({
+    summary: string(),
+    throughId: integer({ min: 0 }),
+    expectedThroughId: optional(integer({ min: 0 })),
+  }),
+  getSummary: object({}),
+  getContext: object({ recent: integer({ min: 0 }), cap: integer({ min: 0 }), leafId: optional(nullable(messageId)) }),
+  getUnsummarized: object({ limit }),
+  searchMessages: object({ query: string(), limit }),
+  getSettings: object({}),
+  setSettings: object({ settings: settingsSchema }),
+  exportSession: object({}),
+  importSession: object({ data: importDataSchema }),
+  getDirectoryEntry: object({ sessionId: string({ min: 1 }), afterId: integer({ min: 0 }), limit }),
+  deleteSession: object({}),
+  claimOwner: object({ owner: string({ min: 1 }), sessionId: string({ min: 1 }) }),
+  checkOwner: object({ owner: string() }),
+  addAttachment: object({ attachment: attachmentSchema }),
+  listAttachments: object({}),
+  getAttachment: object({ fileId: string() }),
+  renameAttachment: object({ fileId: string(), name: string({ min: 1 }) }),
+  deleteAttachment: object({ fileId: string() }),
+  recordModeration: object({ events: array(moderationEventSchema) }),
+  listModerationEvents: object({ limit }),
+  recordUsage: object({ usage: usageRecordSchema, now: number({ min: 0 }) }),
+  getUsage: object({}),
+  broadcast: object({ event: streamingEventSchema }),
+  claimRequestKey: object({ key: string({ min: 1 }), fingerprint: string({ min: 1 }), now: number({ min: 0 }) }),
+  settleRequestKey: object({
+    key: string({ min: 1 }),
+    response: nullable(object({ status: integer({ min: 100, max: 599 }), body: string() })),
+    now: number({ min: 0 }),
+  }),
+};
 
 export class ChatSessionDO implements DurableObject {
   private sessionId: string;
   private state: DurableObjectState;
   private sql: SqlStorage | null = null;
 
-  constructor(state: DurableObjectState, _env: Env) {
+  private env: Env;
+
+  constructor(state: DurableObjectState, env: Env) {
     this.state = state;
+    this.env = env;
     this.sessionId = state.id.toString();
   }
 
   async fetch(request: Request): Promise<Response> {
-    const url = new URL(request.url);
-    if (url.pathname !== "/" || request.method !== "POST") {
-      return jsonResponse({ ok: false, error: { code: "bad_request", message: "POST / only" } }, 400);
+    if (request.headers.get("Upgrade")?.toLowerCase() === "websocket") {
+      this.ensureInit();
+      return this.acceptLive(request);
     }
+    return serveRpc(request, chatSessionSchemas, this.handlers, {
+      // The upload sweep lists attachments of sessions that may be deleted; that must not recreate their storage.
+      before: (type) => {
+        if (type !== "listAttachments") this.ensureInit();
+      },
+      after: async (type) => {
+        if (RETENTION_CHANGES.has(type)) await this.scheduleRetention();
+      },
+    });
+  }
+
+  private readonly handlers: RpcHandlers<ChatSessionApi> = {
+    init: () => ({ done: true }),
+    appendMessage: ({ parentId, activate, requestKey, profile, ...message }) => {
+      const id = this.appendMessage(message, parentId, activate);
+      if (requestKey) this.sql!.exec("UPDATE request_keys SET user_message_id = ? WHERE key = ?", id, requestKey);
+      if (profile) {
+        this.sql!.exec("INSERT OR REPLACE INTO meta (key, value) VALUES ('profile', ?)", JSON.stringify(profile));
+      }
+      if (message.role === "user" || message.role === "assistant") {
+        this.broadcast({ type: "message", message: this.getMessage(id)!, activeLeafId: this.getActiveLeafId() });
+      }
+      return { id };
+    },
+    setMessageError: ({ id, error }) => {
+      const message = this.setMessageError(id, error);
+      if (message) this.broadcast({ type: "message", message, activeLeafId: this.getActiveLeafId() });
+      return message;
+    },
+    getRecentMessages: ({ limit }) => this.getRecentMessages(limit),
+    getMessage: ({ id }) => this.getMessage(id),
+    switchBranch: ({ messageId }) => ({ leafId: this.switchBranch(messageId) }),
+    setSummary: ({ summary, throughId, expectedThroughId }) => {
+      const updated = this.setSummary(summary, throughId, expectedThroughId);
+      if (updated) this.broadcast({ type: "summary", summary, summarizedThroughId: throughId });
+      return { updated };
+    },
+    getSummary: () => this.getSummary(),
+    getContext: ({ recent, cap, leafId }) => this.getContext(recent, cap, leafId),
+    getUnsummarized: ({ limit }) => this.getUnsummarized(limit),
+    searchMessages: ({ query, limit }) => this.searchMessages(query, limit),
+    getSettings: () => this.getSettings(),
+    setSettings: ({ settings }) => {
+      this.setSettings(settings);
+      return { done: true };
+    },
+    exportSession: () => this.exportSession(),
+    importSession: ({ data }) => this.importSession(data),
+    getDirectoryEntry: ({ sessionId, afterId, limit }) => this.getDirectoryEntry(sessionId, afterId, limit),
+    deleteSession: () => this.deleteSession(),
+    claimOwner: ({ owner, sessionId }) => ({ authorized: this.claimOwner(owner, sessionId) }),
+    checkOwner: ({ owner }) => ({ authorized: this.checkOwner(owner) }),
+    addAttachment: ({ attachment }) => {
+      this.addAttachment(attachment);
+      return { done: true };
+    },
+    listAttachments: () => (this.hasStorage() ? this.listAttachments() : []),
+    getAttachment: ({ fileId }) => this.getAttachment(fileId),
+    renameAttachment: ({ fileId, name }) => this.renameAttachment(fileId, name),
+    deleteAttachment: ({ fileId }) => this.deleteAttachment(fileId),
+    recordModeration: ({ events }) => {
+      this.recordModeration(events);
+      return { done: true };
+    },
+    listModerationEvents: ({ limit }) => this.listModerationEvents(limit),
+    recordUsage: ({ usage, now }) => {
+      this.recordUsage(usage, now);
+      return { done: true };
+    },
+    getUsage: () => this.getUsage(),
+    broadcast: ({ event }) => ({ clients: this.broadcast(event) }),
+    claimRequestKey: ({ key, fingerprint, now }) => this.claimRequestKey(key, fingerprint, now),
+    settleRequestKey: ({ key, response, now }) => {
+      this.settleRequestKey(key, response, now);
+      return { done: true };
+    },
+  };
+
+  /**
+   * Accepts a WebSocket forwarded by the Worker (which has checked the session token) with the
+   * hibernation API: the socket survives the object being evicted from memory between events.
+   */
+  private acceptLive(request: Request): Response {
+    const { 0: client, 1: server } = new WebSocketPair();
+    const me: LiveClient = {
+      clientId: crypto.randomUUID(),
+      name: liveName(decodeURIComponent(request.headers.get(LIVE_NAME_HEADER) ?? "")),
+      joinedAt: Date.now(),
+    };
+    this.state.acceptWebSocket(server);
+    server.serializeAttachment(me);
+    const clients = this.liveClients();
+    server.send(JSON.stringify({ type: "welcome", clientId: me.clientId, clients } satisfies LiveEvent));
+    this.broadcast({ type: "presence", clients }, server);
+    return new Response(null, { status: 101, webSocket: client });
+  }
 
-    let body: DORequest;
+  async webSocketMessage(ws: WebSocket, frame: string | ArrayBuffer): Promise<void> {
+    const message = parseClientMessage(frame);
+    const me = ws.deserializeAttachment() as LiveClient | null;
+    if (message?.type === "typing" && me) this.broadcast({ type: "typing", clientId: me.clientId, name: me.name }, ws);
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    this.leaveLive(ws, code, reason);
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    this.leaveLive(ws, 1011, "WebSocket error");
+  }
+
+  private leaveLive(ws: WebSocket, code: number, reason: string): void {
     try {
-      body = (await request.json()) as DORequest;
+      ws.close(code === 1005 || code === 1006 ? 1000 : code, reason);
     } catch {
-      return jsonResponse({ ok: false, error: { code: "bad_request", message: "Invalid JSON" } }, 400);
+      // already closed
     }
+    this.broadcast({ type: "presence", clients: this.liveClients(ws) }, ws);
+  }
 
-    try {
-      this.ensureInit();
-      let result: unknown;
-
-      switch (body.type) {
-        case "init":
-          result = { done: true };
-          break;
-        case "appendMessage":
-          this.appendMessage(body.role, body.content, body.ts);
-          result = { done: true };
-          break;
-        case "getRecentMessages":
-          result = this.getRecentMessages(body.limit);
-          break;
-        case "setSummary":
-          this.setSummary(body.summary);
-          result = { done: true };
-          break;
-        case "getSummary":
-          result = this.getSummary();
-          break;
-        case "exportSession":
-          result = this.exportSession();
-          break;
-        default:
-          return jsonResponse({ ok: false, error: { code: "bad_request", message: "Unknown request type" } }, 400);
-      }
+  /** Connected clients, oldest first. */
+  private liveClients(except?: WebSocket): LiveClient[] {
+    return this.state
+      .getWebSockets()
+      .filter((ws) => ws !== except)
+      .map((ws) => ws.deserializeAttachment() as LiveClient | null)
+      .filter((c): c is LiveClient => c !== null)
+      .sort((a, b) => a.joinedAt - b.joinedAt);
+  }
 
-      return jsonResponse({ ok: true, data: result });
-    } catch (e) {
-      const message = e instanceof Error ? e.message : "DO error";
-      return jsonResponse({ ok: false, error: { code: "internal", message } }, 500);
+  /** Sends `event` to every connected client but `except`; returns the number of clients. */
+  private broadcast(event: LiveEvent, except?: WebSocket): number {
+    const sockets = this.state.getWebSockets();
+    const frame = JSON.stringify(event);
+    for (const ws of sockets) {
+      if (ws === except) continue;
+      try {
+        ws.send(frame);
+      } catch {
+        // closing; webSocketClose updates presence
+      }
     }
+    return sockets.length;
   }
 
   private ensureInit(): void {
@@ -95,53 +460,210 @@ export class ChatSessionDO implements DurableObject {
     this.init();
   }
 
+  /** Opens storage if the session has any; false for a deleted or never used session, which is left empty. */
+  private hasStorage(): boolean {
+    if (!this.sql && schemaVersion(this.state.storage.sql) === 0) return false;
+    this.ensureInit();
+    return true;
+  }
+
+  /** Applies pending schema migrations; a no-op once the session is at SCHEMA_VERSION. */
   init(): void {
+    migrate(this.state.storage);
+  }
+
+  getActiveLeafId(): number | null {
+    const rows = this.sql!.exec("SELECT value FROM meta WHERE key = 'activeLeafId'").toArray() as { value: string }[];
+    return rows.length > 0 ? Number(rows[0].value) : null;
+  }
+
+  private setActiveLeafId(id: number): void {
+    this.sql!.exec("INSERT OR REPLACE INTO meta (key, value) VALUES ('activeLeafId', ?)", id);
+  }
+
+  /**
+   * Stores a message under `parentId` (default: the active leaf) and returns its ID. The active branch
+   * moves to the new message when its parent was the active leaf, or when `activate` is set. A reply
+   * clears its user message's failure mark.
+   */
+  appendMessage(message: NewMessage, parentId?: number | null, activate = false): number {
     const s = this.sql!;
-    s.exec(`
-      CREATE TABLE IF NOT EXISTS messages (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        role TEXT NOT NULL CHECK(role IN ('user','assistant','system')),
-        content TEXT NOT NULL,
-        ts INTEGER NOT NULL
-      );
-      CREATE INDEX IF NOT EXISTS idx_messages_ts ON messages(ts);
-      CREATE TABLE IF NOT EXISTS meta (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-      );
-    `);
-    const rows = s.exec("SELECT value FROM meta WHERE key = 'createdAt'").toArray();
-    if (rows.length === 0) {
-      const now = Date.now();
-      s.exec("INSERT INTO meta (key, value) VALUES ('createdAt', ?), ('updatedAt', ?)", now, now);
+    const leaf = this.getActiveLeafId();
+    const parent = parentId === undefined ? leaf : parentId;
+    if (parent !== null && !this.getMessage(parent)) throw new RpcError("not_found", `Parent message ${parent} not found`);
+    const { id } = s
+      .exec(
+        "INSERT INTO messages (parent_id, role, content, ts, tool_calls, tool_name) VALUES (?, ?, ?, ?, ?, ?) RETURNING id",
+        parent,
+        message.role,
+        message.content,
+        message.ts,
+        message.toolCalls ? JSON.stringify(message.toolCalls) : null,
+        message.toolName ?? null
+      )
+      .one() as { id: number };
+    if (activate || parent === leaf) this.setActiveLeafId(id);
+    if (message.role !== "user" && parent !== null) {
+      s.exec("UPDATE messages SET error = NULL WHERE id = ? AND error IS NOT NULL", parent);
     }
+    s.exec("UPDATE meta SET value = ? WHERE key = 'updatedAt'", message.ts);
+    return id;
   }
 
-  appendMessage(role: MessageRole, content: string, ts: number): void {
-    const s = this.sql!;
-    s.exec("INSERT INTO messages (role, content, ts) VALUES (?, ?, ?)", role, content, ts);
-    s.exec("UPDATE meta SET value = ? WHERE key = 'updatedAt'", ts);
+  /** Sets or clears the failure mark of a user message; returns the message, or null if there is no such one. */
+  setMessageError(id: number, error: string | null): MessageRow | null {
+    const message = this.getMessage(id);
+    if (!message || message.role !== "user") return null;
+    this.sql!.exec("UPDATE messages SET error = ? WHERE id = ?", error, id);
+    return this.getMessage(id);
   }
 
-  getRecentMessages(limit: number): MessageRow[] {
-    const s = this.sql!;
-    const rows = s.exec(
-      "SELECT role, content, ts FROM messages ORDER BY ts DESC LIMIT ?",
+  getMessage(id: number): MessageRow | null {
+    const rows = this.sql!.exec(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = ?`, id).toArray() as MessageSqlRow[];
+    return rows.length > 0 ? toMessageRow(rows[0]) : null;
+  }
+
+  /** Every message of every branch, in ID order. */
+  getAllMessages(): MessageRow[] {
+    const rows = this.sql!.exec(`SELECT ${MESSAGE_COLUMNS} FROM messages ORDER BY id ASC`).toArray() as MessageSqlRow[];
+    return rows.map(toMessageRow);
+  }
+
+  /** Messages from the first one down to `leafId`, oldest first; empty for null. */
+  getPath(leafId: number | null): MessageRow[] {
+    if (leafId === null) return [];
+    const rows = this.sql!.exec(
+      `${PATH_CTE} SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id IN (SELECT id FROM path) ORDER BY id ASC`,
+      leafId
+    ).toArray() as MessageSqlRow[];
+    return rows.map(toMessageRow);
+  }
+
+  /** The last `limit` messages of the active branch, oldest first, with their siblings. */
+  getRecentMessages(limit: number): BranchMessage[] {
+    const leaf = this.getActiveLeafId();
+    const path = this.getPath(leaf).slice(-limit);
+    if (path.length === 0) return [];
+    const rows = this.sql!.exec(
+      `${PATH_CTE} SELECT id, parent_id FROM messages
+       WHERE parent_id IN (SELECT parent_id FROM messages WHERE id IN (SELECT id FROM path)) OR parent_id IS NULL
+       ORDER BY id ASC`,
+      leaf
+    ).toArray() as { id: number; parent_id: number | null }[];
+    const children = new Map<number | null, number[]>();
+    for (const r of rows) {
+      const list = children.get(r.parent_id) ?? [];
+      list.push(r.id);
+      children.set(r.parent_id, list);
+    }
+    return path.map((m) => ({ ...m, siblingIds: children.get(m.parentId) ?? [m.id] }));
+  }
+
+  /** Makes the newest message under `messageId` (or itself) the active leaf. Returns it, or null if not found. */
+  switchBranch(messageId: number): number | null {
+    const row = this.sql!.exec(
+      `WITH RECURSIVE sub(id) AS (
+         SELECT id FROM messages WHERE id = ?
+         UNION ALL
+         SELECT m.id FROM messages m JOIN sub ON m.parent_id = sub.id
+       )
+       SELECT MAX(id) AS id FROM sub`,
+      messageId
+    ).one() as { id: number | null };
+    if (row.id === null) return null;
+    this.setActiveLeafId(row.id);
+    this.sql!.exec("UPDATE meta SET value = ? WHERE key = 'updatedAt'", Date.now());
+    return row.id;
+  }
+
+  /** User and assistant messages on the active branch containing `query` (case-insensitive for ASCII), newest first. */
+  searchMessages(query: string, limit: number): MessageRow[] {
+    const leaf = this.getActiveLeafId();
+    if (leaf === null) return [];
+    const pattern = `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    const rows = this.sql!.exec(
+      `${PATH_CTE} SELECT ${MESSAGE_COLUMNS} FROM messages
+       WHERE id IN (SELECT id FROM path) AND role IN ('user', 'assistant') AND tool_calls IS NULL
+         AND content LIKE ? ESCAPE '\\'
+       ORDER BY id DESC LIMIT ?`,
+      leaf,
+      pattern,
       limit
-    ).toArray() as { role: string; content: string; ts: number }[];
-    const out = rows.map((r) => ({
-      role: r.role as MessageRole,
-      content: r.content,
-      ts: r.ts,
-    }));
-    return out.reverse();
+    ).toArray() as MessageSqlRow[];
+    return rows.map(toMessageRow);
   }
 
-  setSummary(summary: string): void {
+  /**
+   * Stores the summary and moves the coverage cursor to `throughId`. With `expectedThroughId`, the
+   * write only happens if the active branch's cursor is still there, so concurrent folds don't
+   * double-count messages.
+   */
+  setSummary(summary: string, throughId: number, expectedThroughId?: number): boolean {
     const s = this.sql!;
+    if (expectedThroughId !== undefined) {
+      const path = this.getPath(this.getActiveLeafId());
+      if (this.coverageOn(path) !== expectedThroughId) return false;
+    }
     const now = Date.now();
     s.exec("INSERT OR REPLACE INTO meta (key, value) VALUES ('summary', ?)", summary);
+    s.exec("INSERT OR REPLACE INTO meta (key, value) VALUES ('summarizedThroughId', ?)", throughId);
     s.exec("UPDATE meta SET value = ? WHERE key = 'updatedAt'", now);
+    return true;
+  }
+
+  getSummarizedThroughId(): number {
+    const rows = this.sql!.exec("SELECT value FROM meta WHERE key = 'summarizedThroughId'").toArray() as {
+      value: string;
+    }[];
+    return rows.length > 0 ? Number(rows[0].value) : 0;
+  }
+
+  /**
+   * The summary cursor if it lies on `path`, else 0: a summary written on another branch covers
+   * messages this one does not have, so it is ignored until the branch is summarized again.
+   */
+  private coverageOn(path: MessageRow[]): number {
+    const through = this.getSummarizedThroughId();
+    return through > 0 && path.some((m) => m.id === through) ? through : 0;
+  }
+
+  /**
+   * Summary plus every message of the branch ending at `leafId` (default: the active leaf) that it
+   * does not cover, and always the last `recent` messages even if covered. At most `cap` messages
+   * (newest kept, the rest counted in `omitted`), oldest first.
+   */
+  getContext(recent: number, cap: number, leafId?: number | null): ChatContextData {
+    const leaf = leafId === undefined ? this.getActiveLeafId() : leafId;
+    const path = this.getPath(leaf);
+    const through = this.coverageOn(path);
+    const messages = path
+      .filter((m, i) => m.id > through || i >= path.length - recent)
+      .filter((m) => m.error === undefined);
+    const omitted = Math.max(0, messages.length - cap);
+    return {
+      settings: this.getSettings(),
+      summary: through > 0 ? this.getSummary() : null,
+      summarizedThroughId: through,
+      leafId: leaf,
+      messages: messages.slice(omitted),
+      omitted,
+    };
+  }
+
+  /** Summary plus the oldest `limit` messages of the active branch it does not cover yet, oldest first. */
+  getUnsummarized(limit: number): ChatContextData {
+    const leaf = this.getActiveLeafId();
+    const path = this.getPath(leaf);
+    const through = this.coverageOn(path);
+    const pending = path.filter((m) => m.id > through);
+    return {
+      settings: this.getSettings(),
+      summary: through > 0 ? this.getSummary() : null,
+      summarizedThroughId: through,
+      leafId: leaf,
+      messages: pending.slice(0, limit),
+      omitted: Math.max(0, pending.length - limit),
+    };
   }
 
   getSummary(): string | null {
@@ -150,6 +672,283 @@ export class ChatSessionDO implements DurableObject {
     return rows.length > 0 ? rows[0].value : null;
   }
 
+  getSettings(): SessionSettings {
+    const rows = this.sql!.exec("SELECT value FROM meta WHERE key = 'settings'").toArray() as { value: string }[];
+    return rows.length > 0 ? (JSON.parse(rows[0].value) as SessionSettings) : {};
+  }
+
+  setSettings(settings: SessionSettings): void {
+    const s = this.sql!;
+    s.exec("INSERT OR REPLACE INTO meta (key, value) VALUES ('settings', ?)", JSON.stringify(settings));
+    s.exec("UPDATE meta SET value = ? WHERE key = 'updatedAt'", Date.now());
+  }
+
+  /**
+   * Records the owner (and the session ID the Worker knows this object by) on first claim; later claims
+   * succeed only for the same owner.
+   */
+  claimOwner(owner: string, sessionId: string): boolean {
+    const s = this.sql!;
+    const rows = s.exec("SELECT value FROM meta WHERE key = 'owner'").toArray() as { value: string }[];
+    if (rows.length > 0) return rows[0].value === owner;
+    s.exec("INSERT INTO meta (key, value) VALUES ('owner', ?), ('sessionId', ?)", owner, sessionId);
+    return true;
+  }
+
+  /**
+   * The session's row for its owner's SessionDirectoryDO, with up to `limit` chat messages after
+   * `afterId` (any branch; tool traffic is not indexed). Null once the session is deleted.
+   */
+  getDirectoryEntry(sessionId: string, afterId: number, limit: number): DirectoryUpdate | null {
+    const s = this.sql!;
+    if (s.exec("SELECT 1 FROM meta WHERE key = 'owner'").toArray().length === 0) return null;
+    // Sessions claimed before the ID was recorded learn it here, so expiry can clean up the directory.
+    s.exec("INSERT OR IGNORE INTO meta (key, value) VALUES ('sessionId', ?)", sessionId);
+    const chat = "role IN ('user', 'assistant') AND tool_calls IS NULL";
+    const meta = this.exportSession();
+    const { count } = s.exec(`SELECT COUNT(*) AS count FROM messages WHERE ${chat}`).one() as { count: number };
+    const first = s.exec("SELECT content FROM messages WHERE role = 'user' ORDER BY id LIMIT 1").toArray() as {
+      content: string;
+    }[];
+    const messages = s
+      .exec(`SELECT id, role, content, ts FROM messages WHERE ${chat} AND id > ? ORDER BY id LIMIT ?`, afterId, limit)
+      .toArray() as IndexedMessageSqlRow[];
+    return {
+      createdAt: meta.createdAt,
+      updatedAt: meta.updatedAt,
+      messageCount: count,
+      summary: meta.summary,
+      preview: first.length > 0 ? first[0].content.replace(/\s+/g, " ").trim().slice(0, PREVIEW_CHARS) : null,
+      messages,
+    };
+  }
+
+  /** Wipes all storage (messages, meta including the owner, attachments) and returns the attachments it held. */
+  async deleteSession(): Promise<AttachmentRow[]> {
+    const attachments = this.listAttachments();
+    for (const ws of this.state.getWebSockets()) ws.close(1000, "Session deleted");
+    await this.state.storage.deleteAlarm();
+    await this.state.storage.deleteAll();
+    this.sql = null;
+    return attachments;
+  }
+
+  /** Sets the alarm for the next retention work due, or clears it; unclaimed sessions get none. */
+  async scheduleRetention(): Promise<void> {
+    const s = this.sql!;
+    const meta = this.getMeta(["owner", "updatedAt"]);
+    const { oldest } = s.exec("SELECT MIN(uploaded_at) AS oldest FROM attachments").one() as { oldest: number | null };
+    const due = meta.owner ? nextRetentionDue(getRetentionPolicy(this.env), Number(meta.updatedAt), oldest) : null;
+    const current = await this.state.storage.getAlarm();
+    if (due === current) return;
+    if (due === null) await this.state.storage.deleteAlarm();
+    else await this.state.storage.setAlarm(due);
+  }
+
+  /**
+   * Retention: deletes the whole session once SESSION_TTL_DAYS have passed since its last update,
+   * otherwise attachments older than UPLOAD_TTL_DAYS; then schedules the next run.
+   */
+  async alarm(): Promise<void> {
+    this.ensureInit();
+    const s = this.sql!;
+    const policy = getRetentionPolicy(this.env);
+    const now = Date.now();
+    const meta = this.getMeta(["owner", "updatedAt", "sessionId"]);
+    if (!meta.owner) return;
+
+    if (policy.sessionTtlMs > 0 && Number(meta.updatedAt) + policy.sessionTtlMs <= now) {
+      await this.removeAttachmentData(this.listAttachments());
+      if (meta.sessionId) {
+        const directory = rpcStub<SessionDirectoryApi>(this.env.SESSION_DIRECTORY, meta.owner);
+        await doRequest(directory, { type: "removeSession", sessionId: meta.sessionId });
+      }
+      await this.deleteSession();
+      return;
+    }
+
+    if (policy.uploadTtlMs > 0) {
+      const expired = this.listAttachments().filter((a) => a.uploadedAt + policy.uploadTtlMs <= now);
+      await this.removeAttachmentData(expired);
+      for (const a of expired) s.exec("DELETE FROM attachments WHERE file_id = ?", a.fileId);
+    }
+    await this.scheduleRetention();
+  }
+
+  /** R2 objects and vectors of attachments; the rows are left to the caller. */
+  private async removeAttachmentData(attachments: AttachmentRow[]): Promise<void> {
+    if (attachments.length === 0) return;
+    await this.env.BUCKET.delete(attachmentKeys(attachments));
+    const index = this.env.VECTORIZE;
+    if (index) {
+      for (const a of attachments) await deleteDocument(index, a.fileId, a.chunks);
+    }
+  }
+
+  private getMeta(keys: string[]): Record<string, string | undefined> {
+    const rows = this.sql!
+      .exec(`SELECT key, value FROM meta WHERE key IN (${keys.map(() => "?").join(", ")})`, ...keys)
+      .toArray() as { key: string; value: string }[];
+    return Object.fromEntries(rows.map((r) => [r.key, r.value]));
+  }
+
+  /** Sessions that were never claimed have no owner and reject every token. */
+  checkOwner(owner: string): boolean {
+    const rows = this.sql!.exec("SELECT value FROM meta WHERE key = 'owner'").toArray() as { value: string }[];
+    return rows.length > 0 && rows[0].value === owner;
+  }
+
+  addAttachment(a: AttachmentRow): void {
+    this.sql!.exec(
+      `INSERT INTO attachments (file_id, name, size, content_type, uploaded_at, r2_key, text_key, chunks)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      a.fileId,
+      a.name,
+      a.size,
+      a.contentType,
+      a.uploadedAt,
+      a.r2Key,
+      a.textKey,
+      a.chunks
+    );
+  }
+
+  listAttachments(): AttachmentRow[] {
+    const rows = this.sql!.exec(
+      `SELECT ${ATTACHMENT_COLUMNS} FROM attachments ORDER BY uploaded_at ASC`
+    ).toArray() as AttachmentSqlRow[];
+    return rows.map(toAttachmentRow);
+  }
+
+  getAttachment(fileId: string): AttachmentRow | null {
+    const rows = this.sql!.exec(
+      `SELECT ${ATTACHMENT_COLUMNS} FROM attachments WHERE file_id = ?`,
+      fileId
+    ).toArray() as AttachmentSqlRow[];
+    return rows.length > 0 ? toAttachmentRow(rows[0]) : null;
+  }
+
+  /** Returns the renamed attachment, or null if it is not in this session. */
+  renameAttachment(fileId: string, name: string): AttachmentRow | null {
+    this.sql!.exec("UPDATE attachments SET name = ? WHERE file_id = ?", name, fileId);
+    return this.getAttachment(fileId);
+  }
+
+  /** Returns the removed attachment (so the caller can delete its R2 object), or null. */
+  deleteAttachment(fileId: string): AttachmentRow | null {
+    const existing = this.getAttachment(fileId);
+    if (existing) this.sql!.exec("DELETE FROM attachments WHERE file_id = ?", fileId);
+    return existing;
+  }
+
+  recordModeration(events: ModerationEvent[]): void {
+    for (const e of events) {
+      this.sql!.exec(
+        "INSERT INTO moderation_events (ts, source, outcome, findings, message_id, file_id) VALUES (?, ?, ?, ?, ?, ?)",
+        e.ts,
+        e.source,
+        e.outcome,
+        JSON.stringify(e.findings),
+        e.messageId ?? null,
+        e.fileId ?? null
+      );
+    }
+  }
+
+  /** Newest first. */
+  listModerationEvents(limit: number): ModerationEvent[] {
+    const rows = this.sql!.exec(
+      "SELECT ts, source, outcome, findings, message_id, file_id FROM moderation_events ORDER BY id DESC LIMIT ?",
+      limit
+    ).toArray() as {
+      ts: number;
+      source: ModerationEvent["source"];
+      outcome: ModerationEvent["outcome"];
+      findings: string;
+      message_id: number | null;
+      file_id: string | null;
+    }[];
+    return rows.map((r) => ({
+      ts: r.ts,
+      source: r.source,
+      outcome: r.outcome,
+      findings: JSON.parse(r.findings) as ModerationEvent["findings"],
+      ...(r.message_id !== null ? { messageId: r.message_id } : {}),
+      ...(r.file_id !== null ? { fileId: r.file_id } : {}),
+    }));
+  }
+
+  recordUsage(u: UsageRecord, now: number): void {
+    this.sql!.exec(
+      `INSERT INTO usage (route, model, requests, errors, prompt_tokens, completion_tokens, ai_ms, last_at)
+       VALUES (?, ?, 1, ?, ?, ?, ?, ?)
+       ON CONFLICT(route, model) DO UPDATE SET requests = requests + 1, errors = errors + excluded.errors,
+         prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+         completion_tokens = completion_tokens + excluded.completion_tokens, ai_ms = ai_ms + excluded.ai_ms,
+         last_at = excluded.last_at`,
+      u.route,
+      u.model,
+      u.error ? 1 : 0,
+      u.promptTokens,
+      u.completionTokens,
+      u.aiMs,
+      now
+    );
+  }
+
+  getUsage(): SessionUsage[] {
+    return this.sql!.exec(
+      `SELECT route, model, requests, errors, prompt_tokens AS promptTokens, completion_tokens AS completionTokens,
+         ai_ms AS aiMs, last_at AS lastAt FROM usage ORDER BY route, model`
+    ).toArray() as UsageSqlRow[];
+  }
+
+  /**
+   * Claims an Idempotency-Key for a request with the given fingerprint. A new key, one whose last attempt
+   * failed, or one left pending too long is (re)started; keys older than REQUEST_KEY_TTL_MS are forgotten.
+   */
+  claimRequestKey(key: string, fingerprint: string, now: number): RequestKeyClaim {
+    const s = this.sql!;
+    s.exec("DELETE FROM request_keys WHERE created_at < ?", now - REQUEST_KEY_TTL_MS);
+    const rows = s
+      .exec("SELECT fingerprint, state, user_message_id, status, body, updated_at FROM request_keys WHERE key = ?", key)
+      .toArray() as {
+      fingerprint: string;
+      state: "pending" | "done" | "failed";
+      user_message_id: number | null;
+      status: number | null;
+      body: string | null;
+      updated_at: number;
+    }[];
+    if (rows.length === 0) {
+      s.exec(
+        `INSERT INTO request_keys (key, fingerprint, state, created_at, updated_at) VALUES (?, ?, 'pending', ?, ?)`,
+        key,
+        fingerprint,
+        now,
+        now
+      );
+      return { state: "started", userMessageId: null };
+    }
+    const row = rows[0];
+    if (row.fingerprint !== fingerprint) return { state: "mismatch" };
+    if (row.state === "done") return { state: "done", status: row.status ?? 200, body: row.body ?? "" };
+    if (row.state === "pending" && row.updated_at > now - REQUEST_KEY_PENDING_MS) return { state: "pending" };
+    s.exec("UPDATE request_keys SET state = 'pending', updated_at = ? WHERE key = ?", now, key);
+    return { state: "started", userMessageId: row.user_message_id };
+  }
+
+  settleRequestKey(key: string, response: { status: number; body: string } | null, now: number): void {
+    this.sql!.exec(
+      "UPDATE request_keys SET state = ?, status = ?, body = ?, updated_at = ? WHERE key = ?",
+      response ? "done" : "failed",
+      response?.status ?? null,
+      response?.body ?? null,
+      now,
+      key
+    );
+  }
+
   exportSession(): ExportData {
     const s = this.sql!;
     const metaRows = s.exec("SELECT key, value FROM meta").toArray() as { key: string; value: string }[];
@@ -157,29 +956,133 @@ export class ChatSessionDO implements DurableObject {
     for (const r of metaRows) {
       meta[r.key] = r.value;
     }
-    const messagesRows = s.exec("SELECT role, content, ts FROM messages ORDER BY ts ASC").toArray() as {
-      role: string;
-      content: string;
-      ts: number;
-    }[];
-    const messages: MessageRow[] = messagesRows.map((r) => ({
-      role: r.role as MessageRole,
-      content: r.content,
-      ts: r.ts,
-    }));
     return {
       sessionId: this.sessionId,
+      schemaVersion: Number(meta.schemaVersion ?? SCHEMA_VERSION),
       createdAt: Number(meta.createdAt ?? 0),
       updatedAt: Number(meta.updatedAt ?? 0),
       summary: meta.summary ?? null,
-      messages,
+      summarizedThroughId: Number(meta.summarizedThroughId ?? 0),
+      settings: meta.settings ? (JSON.parse(meta.settings) as SessionSettings) : {},
+      activeProfile: meta.profile ? (JSON.parse(meta.profile) as UserProfile) : {},
+      activeLeafId: this.getActiveLeafId(),
+      messages: this.getAllMessages(),
     };
   }
+
+  /**
+   * Loads an export into this session, keeping message IDs. Only allowed while the session has no
+   * messages; returns null otherwise.
+   */
+  importSession(data: ImportData): { messages: number } | null {
+    const s = this.sql!;
+    if (s.exec("SELECT 1 FROM messages LIMIT 1").toArray().length > 0) return null;
+    this.state.storage.transactionSync(() => {
+      for (const m of data.messages) {
+        s.exec(
+          "INSERT INTO messages (id, parent_id, role, content, ts, tool_calls, tool_name) VALUES (?, ?, ?, ?, ?, ?, ?)",
+          m.id,
+          m.parentId,
+          m.role,
+          m.content,
+          m.ts,
+          m.toolCalls ? JSON.stringify(m.toolCalls) : null,
+          m.toolName ?? null
+        );
+      }
+      const set = "INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)";
+      s.exec(set, "createdAt", data.createdAt);
+      s.exec(set, "updatedAt", data.updatedAt);
+      s.exec(set, "settings", JSON.stringify(data.settings));
+      if (data.summary) {
+        s.exec(set, "summary", data.summary);
+        s.exec(set, "summarizedThroughId", data.summarizedThroughId);
+      }
+      if (data.activeLeafId !== null) this.setActiveLeafId(data.activeLeafId);
+    });
+    return { messages: data.messages.length };
+  }
+}
+
+/** Requests after which the retention alarm may need to move (timestamps, ownership, attachments). */
+const RETENTION_CHANGES = new Set<keyof ChatSessionApi>([
+  "appendMessage",
+  "setSummary",
+  "setSettings",
+  "importSession",
+  "claimOwner",
+  "addAttachment",
+  "deleteAttachment",
+]);
+
+/** Idempotency keys are kept this long; a retry after that runs the request again. */
+const REQUEST_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** A pending key not settled within this long is taken to be from an attempt that died (e.g. an evicted Worker). */
+const REQUEST_KEY_PENDING_MS = 5 * 60 * 1000;
+
+/** Length of the first user message kept as the session's default title. */
+const PREVIEW_CHARS = 80;
+
+const MESSAGE_COLUMNS = "id, parent_id, role, content, ts, tool_calls, tool_name, error";
+
+/** `path(id)`: the message bound to `?` and all its ancestors. */
+const PATH_CTE = `WITH RECURSIVE path(id) AS (
+  SELECT id FROM messages WHERE id = ?
+  UNION ALL
+  SELECT m.parent_id FROM messages m JOIN path ON m.id = path.id WHERE m.parent_id IS NOT NULL
+)`;
+
+type MessageSqlRow = {
+  id: number;
+  parent_id: number | null;
+  role: string;
+  content: string;
+  ts: number;
+  tool_calls: string | null;
+  tool_name: string | null;
+  error: string | null;
+};
+
+// Interfaces as type aliases: SQL rows cannot be cast to an interface, which has no index signature.
+type UsageSqlRow = { [K in keyof SessionUsage]: SessionUsage[K] };
+type IndexedMessageSqlRow = { [K in keyof IndexedMessage]: IndexedMessage[K] };
+
+function toMessageRow(r: MessageSqlRow): MessageRow {
+  const row: MessageRow = { id: r.id, parentId: r.parent_id, role: r.role as MessageRole, content: r.content, ts: r.ts };
+  if (r.tool_calls) row.toolCalls = JSON.parse(r.tool_calls) as ToolCall[];
+  if (r.tool_name) row.toolName = r.tool_name;
+  if (r.error !== null) row.error = r.error;
+  return row;
+}
+
+const ATTACHMENT_COLUMNS = "file_id, name, size, content_type, uploaded_at, r2_key, text_key, chunks";
+
+type AttachmentSqlRow = {
+  file_id: string;
+  name: string;
+  size: number;
+  content_type: string;
+  uploaded_at: number;
+  r2_key: string;
+  text_key: string;
+  chunks: number;
+};
+
+/** Every R2 object of the attachments (the upload and, when separate, its text). */
+export function attachmentKeys(attachments: AttachmentRow[]): string[] {
+  return [...new Set(attachments.flatMap((a) => [a.r2Key, a.textKey]))];
 }
 
-function jsonResponse(body: object, status = 200): Response {
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: { "Content-Type": "application/json" },
-  });
+function toAttachmentRow(r: AttachmentSqlRow): AttachmentRow {
+  return {
+    fileId: r.file_id,
+    name: r.name,
+    size: r.size,
+    contentType: r.content_type,
+    uploadedAt: r.uploaded_at,
+    r2Key: r.r2_key,
+    textKey: r.text_key,
+    chunks: r.chunks,
+  };
 }
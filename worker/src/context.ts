@@ -0,0 +1,116 @@
+/**
+ * Chat context builder: packs system prompt, summary, recent history and attachments into a token budget.
+ */
+
+import type { MessageRow } from "./chatSessionDO";
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export interface ContextAttachment {
+  fileId: string;
+  filename: string;
+  content: string;
+}
+
+export interface TruncatedFile {
+  fileId: string;
+  filename: string;
+  originalTokens: number;
+  keptTokens: number;
+}
+
+export interface ContextInput {
+  systemPrompt: string;
+  summary: string | null;
+  /** Prior turns, oldest first, not including the current user message. Tool traffic is skipped. */
+  history: MessageRow[];
+  attachments: ContextAttachment[];
+  userMessage: string;
+  /** Total prompt budget in tokens (model context minus room for the reply). */
+  budgetTokens: number;
+}
+
+export interface ChatContext {
+  messages: ChatMessage[];
+  truncated: TruncatedFile[];
+  promptTokens: number;
+  /** Tokens of attachment content that made it into the prompt. */
+  attachmentTokens: number;
+}
+
+/** Share of the flexible budget that history may use before attachments get the rest. */
+const HISTORY_SHARE = 0.5;
+const CHARS_PER_TOKEN = 4;
+const TRUNCATION_MARKER = "\n[... truncated to fit context]";
+
+/** Rough token count (~4 characters per token). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * System prompt, summary and the user message are always included. The remaining budget goes to
+ * history (newest first, up to HISTORY_SHARE) and then to attachments, split evenly; files smaller
+ * than their share hand the leftover to the others.
+ */
+export function buildChatContext(input: ContextInput): ChatContext {
+  const head: ChatMessage[] = [{ role: "system", content: input.systemPrompt }];
+  if (input.summary) {
+    head.push({ role: "system", content: `Session summary: ${input.summary}` });
+  }
+  const fixedTokens = head.reduce((n, m) => n + estimateTokens(m.content), 0) + estimateTokens(input.userMessage);
+  let remaining = Math.max(0, input.budgetTokens - fixedTokens);
+
+  const historyBudget = input.attachments.length > 0 ? Math.floor(remaining * HISTORY_SHARE) : remaining;
+  const history: ChatMessage[] = [];
+  let historyTokens = 0;
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const m = input.history[i];
+    if (m.role === "tool" || m.toolCalls) continue;
+    const cost = estimateTokens(m.content);
+    if (historyTokens + cost > historyBudget) break;
+    history.unshift({ role: m.role, content: m.content });
+    historyTokens += cost;
+  }
+  remaining -= historyTokens;
+
+  const allowances = allocate(
+    input.attachments.map((a) => estimateTokens(a.content)),
+    remaining
+  );
+  const truncated: TruncatedFile[] = [];
+  const parts: string[] = [];
+  let attachmentTokens = 0;
+  input.attachments.forEach((a, i) => {
+    const originalTokens = estimateTokens(a.content);
+    let content = a.content;
+    if (allowances[i] < originalTokens) {
+      content = a.content.slice(0, allowances[i] * CHARS_PER_TOKEN) + TRUNCATION_MARKER;
+      truncated.push({ fileId: a.fileId, filename: a.filename, originalTokens, keptTokens: allowances[i] });
+    }
+    attachmentTokens += Math.min(originalTokens, allowances[i]);
+    parts.push(`[Attached file: ${a.filename}]\n${content}`);
+  });
+
+  const userContent = parts.length > 0 ? `${parts.join("\n\n")}\n\n---\n\n${input.userMessage}` : input.userMessage;
+  const messages = [...head, ...history, { role: "user" as const, content: userContent }];
+  return {
+    messages,
+    truncated,
+    promptTokens: messages.reduce((n, m) => n + estimateTokens(m.content), 0),
+    attachmentTokens,
+  };
+}
+
+/** Water-filling split of `budget` across `sizes`: each gets min(size, fair share of what is left). */
+function allocate(sizes: number[], budget: number): number[] {
+  const out = new Array<number>(sizes.length).fill(0);
+  const order = sizes.map((size, i) => ({ size, i })).sort((a, b) => a.size - b.size);
+  let left = budget;
+  order.forEach(({ size, i }, k) => {
+    const share = Math.floor(left / (order.length - k));
+    out[i] = Math.min(size, share);
+    left -= out[i];
+  });
+  return out;
+}
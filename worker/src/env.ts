@@ -0,0 +1,53 @@
+/** Bindings and variables of the Worker, shared by the Worker and its Durable Objects (see wrangler.toml). */
+
+export interface Env {
+  CHAT_SESSION: DurableObjectNamespace;
+  RATE_LIMITER: DurableObjectNamespace;
+  SESSION_DIRECTORY: DurableObjectNamespace;
+  USAGE_STATS: DurableObjectNamespace;
+  AI: Ai;
+  BUCKET: R2Bucket;
+  /** Optional; without it an in-memory index stands in (local dev, tests). */
+  VECTORIZE?: Vectorize;
+  MESSAGE_MAX_LENGTH?: string;
+  MESSAGE_HISTORY_LIMIT?: string;
+  SUMMARIZE_MESSAGE_LIMIT?: string;
+  SUMMARY_TRIGGER_MESSAGES?: string;
+  RATE_LIMIT_REQUESTS?: string;
+  RATE_LIMIT_WINDOW_MS?: string;
+  DAILY_MESSAGE_QUOTA?: string;
+  DAILY_TOKEN_QUOTA?: string;
+  CONTEXT_TOKEN_BUDGET?: string;
+  RAG_TOP_K?: string;
+  /** Model rounds per chat turn in which tools are offered; 0 disables tools. */
+  TOOL_MAX_STEPS?: string;
+  /** Model replies per chat turn with a `responseSchema`, including repair attempts. */
+  STRUCTURED_MAX_ATTEMPTS?: string;
+  /** JSON array of allowed models: `[{ id, label, contextTokens, defaults: { temperature, maxTokens } }]`. */
+  MODEL_REGISTRY?: string;
+  DEFAULT_MODEL?: string;
+  /** Registry model tried when the requested one still fails after its retries; unset disables fallback. */
+  FALLBACK_MODEL?: string;
+  /** Per chat model attempt; a stream only has to start within it. */
+  AI_TIMEOUT_MS?: string;
+  /** Retries of a failed chat model call (per model) before giving up or falling back. */
+  AI_MAX_RETRIES?: string;
+  /** Backoff before the first retry, doubled for each further one. */
+  AI_RETRY_BASE_MS?: string;
+  SYSTEM_PROMPT?: string;
+  SUMMARIZE_PROMPT?: string;
+  /** JSON object of moderation actions by check, e.g. `{ "classifier": "block", "email": "redact" }`. */
+  MODERATION_POLICY?: string;
+  /** Workers AI model for the moderation classifier (Llama Guard). */
+  MODERATION_MODEL?: string;
+  /** Days after its last update that a session is deleted; unset or 0 keeps sessions forever. */
+  SESSION_TTL_DAYS?: string;
+  /** Days after upload that an attachment is deleted; unset or 0 keeps it as long as its session. */
+  UPLOAD_TTL_DAYS?: string;
+  /** Days after issue that a session token expires (default 30). */
+  SESSION_TOKEN_TTL_DAYS?: string;
+  /** Secret binding used to sign session tokens (`wrangler secret put SESSION_SECRET`). */
+  SESSION_SECRET?: string;
+  /** Secret bearer token for /api/admin/* (`wrangler secret put ADMIN_TOKEN`); unset disables those routes. */
+  ADMIN_TOKEN?: string;
+}
@@ -0,0 +1,398 @@
+/**
+ * Session export formats (JSON, Markdown transcript, JSONL of MessageRows, OpenAI chat messages) and
+ * the parser that turns any of them back into ImportData for /api/import.
+ */
+
+import type { ExportData, ImportData, MessageRole, MessageRow, SessionSettings, ToolCall } from "./chatSessionDO";
+import { mergeSettings, type ModelSpec } from "./models";
+import { withProfile } from "./profile";
+
+export const EXPORT_FORMATS = ["json", "markdown", "jsonl", "openai"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** ExportData plus the resolved settings, as served by /api/export. */
+export type SessionExport = ExportData & { activeSettings: { model: string; systemPrompt: string } };
+
+export interface ExportFile {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+export interface ParsedImport {
+  data: ImportData;
+  /** Settings from the export that this deployment does not accept; they were dropped. */
+  warnings: string[];
+}
+
+export const MAX_IMPORT_MESSAGES = 5000;
+const MAX_IMPORT_CONTENT_CHARS = 100_000;
+const ROLES: MessageRole[] = ["user", "assistant", "system", "tool"];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function formatExport(data: SessionExport, format: ExportFormat): ExportFile {
+  const base = `chat-${data.sessionId.slice(0, 8)}`;
+  switch (format) {
+    case "json":
+      return { body: JSON.stringify(data, null, 2), contentType: "application/json", filename: `${base}.json` };
+    case "jsonl":
+      return {
+        body: data.messages.map((m) => JSON.stringify(m)).join("\n") + "\n",
+        contentType: "application/x-ndjson",
+        filename: `${base}.jsonl`,
+      };
+    case "openai":
+      return {
+        body: JSON.stringify({ model: data.activeSettings.model, messages: toOpenAiMessages(data) }, null, 2),
+        contentType: "application/json",
+        filename: `${base}-openai.json`,
+      };
+    case "markdown":
+      return { body: toMarkdown(data), contentType: "text/markdown; charset=utf-8", filename: `${base}.md` };
+  }
+}
+
+type OpenAiMessage =
+  | { role: "system" | "user"; content: string }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: { id: string; type: "function"; function: { name: string; arguments: string } }[];
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+/** The messages from the first one down to the active leaf. */
+function activeBranch(data: SessionExport): MessageRow[] {
+  const byId = new Map(data.messages.map((m) => [m.id, m]));
+  const path: MessageRow[] = [];
+  for (let m = byId.get(data.activeLeafId ?? 0); m; m = m.parentId === null ? undefined : byId.get(m.parentId)) {
+    path.push(m);
+  }
+  return path.reverse();
+}
+
+/**
+ * The system prompt first, then the active branch (the format has no branches). Tool results are matched to
+ * calls in order.
+ */
+function toOpenAiMessages(data: SessionExport): OpenAiMessage[] {
+  const systemPrompt = withProfile(data.activeSettings.systemPrompt, data.activeProfile);
+  const out: OpenAiMessage[] = [{ role: "system", content: systemPrompt }];
+  let pendingCalls: string[] = [];
+  for (const m of activeBranch(data)) {
+    if (m.role === "assistant" && m.toolCalls) {
+      const calls = m.toolCalls.map((c, i) => ({
+        id: `call_${m.id}_${i}`,
+        type: "function" as const,
+        function: { name: c.name, arguments: JSON.stringify(c.arguments) },
+      }));
+      pendingCalls = calls.map((c) => c.id);
+      out.push({ role: "assistant", content: m.content || null, tool_calls: calls });
+    } else if (m.role === "tool") {
+      out.push({ role: "tool", tool_call_id: pendingCalls.shift() ?? `call_${m.id}`, content: m.content });
+    } else {
+      out.push({ role: m.role, content: m.content });
+    }
+  }
+  return out;
+}
+
+/** Markers are HTML comments so the transcript renders cleanly and still imports losslessly. */
+const SESSION_MARKER = /^<!-- session (\{.*\}) -->$/m;
+const MESSAGE_MARKER = /^<!-- message (\{.*\}) -->$/gm;
+
+function markerJson(value: unknown): string {
+  return JSON.stringify(value).replace(/--/g, "-\\u002d");
+}
+
+function toMarkdown(data: SessionExport): string {
+  const { messages, activeSettings: _active, activeProfile: _profile, sessionId: _sid, ...session } = data;
+  const lines = [
+    `# Chat session ${data.sessionId}`,
+    "",
+    `<!-- session ${markerJson(session)} -->`,
+    "",
+    `- Created: ${new Date(data.createdAt).toISOString()}`,
+    `- Updated: ${new Date(data.updatedAt).toISOString()}`,
+    `- Model: ${data.activeSettings.model}`,
+    "",
+  ];
+  if (data.summary) lines.push("## Summary", "", data.summary, "");
+  lines.push("## Conversation", "");
+  let out = lines.join("\n") + "\n";
+  const active = new Set(activeBranch(data).map((m) => m.id));
+  for (const m of messages) {
+    const { content, ...meta } = m;
+    const marker = `<!-- message ${markerJson({ ...meta, chars: content.length })} -->`;
+    const heading = active.has(m.id) ? messageHeading(m) : `${messageHeading(m)} · other branch`;
+    out += `${marker}\n### ${heading}\n\n${content}\n\n`;
+  }
+  return out;
+}
+
+function messageHeading(m: MessageRow): string {
+  const when = new Date(m.ts).toISOString();
+  if (m.toolCalls) return `Assistant (tool calls: ${m.toolCalls.map((c) => c.name).join(", ")}) · ${when}`;
+  if (m.role === "tool") return `Tool result (${m.toolName ?? "unknown"}) · ${when}`;
+  return `${m.role.charAt(0).toUpperCase()}${m.role.slice(1)} · ${when}`;
+}
+
+/**
+ * Validates an export and converts it to ImportData. `format` may be omitted to detect it. Messages
+ * without IDs (JSONL or OpenAI exports from elsewhere) are chained in order. Returns an error message
+ * when the export is not usable.
+ */
+export function parseImport(
+  text: string,
+  format: ExportFormat | null,
+  models: ModelSpec[],
+  defaultModel: ModelSpec,
+  now: number
+): ParsedImport | string {
+  const detected = format ?? detectFormat(text);
+  if (!detected) return "Could not detect the export format; pass format=json|markdown|jsonl|openai";
+
+  let raw: { session: Record<string, unknown>; messages: unknown[] };
+  const warnings: string[] = [];
+  const settingsUpdate: Record<string, unknown> = {};
+  switch (detected) {
+    case "json": {
+      let parsed = parseJson(text) as Record<string, unknown> | null;
+      if (parsed?.ok === true && typeof parsed.data === "object") parsed = parsed.data as Record<string, unknown>;
+      if (!isObject(parsed) || !Array.isArray(parsed.messages)) return "JSON export must be an object with messages";
+      raw = { session: parsed, messages: parsed.messages };
+      Object.assign(settingsUpdate, isObject(parsed.settings) ? parsed.settings : {});
+      break;
+    }
+    case "jsonl": {
+      const messages: unknown[] = [];
+      const lines = text.split("\n");
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+        const parsed = parseJson(lines[i]);
+        if (parsed === undefined) return `Line ${i + 1} is not valid JSON`;
+        messages.push(parsed);
+      }
+      raw = { session: {}, messages };
+      break;
+    }
+    case "openai": {
+      const parsed = parseJson(text);
+      const list = Array.isArray(parsed) ? parsed : isObject(parsed) ? parsed.messages : undefined;
+      if (!Array.isArray(list)) return "OpenAI export must be a messages array or an object with messages";
+      const converted = fromOpenAiMessages(list);
+      if (typeof converted === "string") return converted;
+      if (isObject(parsed) && typeof parsed.model === "string") settingsUpdate.model = parsed.model;
+      if (converted.systemPrompt !== undefined) settingsUpdate.systemPrompt = converted.systemPrompt;
+      raw = { session: {}, messages: converted.messages };
+      break;
+    }
+    case "markdown": {
+      const parsed = fromMarkdown(text);
+      if (typeof parsed === "string") return parsed;
+      raw = parsed;
+      Object.assign(settingsUpdate, isObject(parsed.session.settings) ? parsed.session.settings : {});
+      break;
+    }
+  }
+
+  if (raw.messages.length > MAX_IMPORT_MESSAGES) return `At most ${MAX_IMPORT_MESSAGES} messages can be imported`;
+  const messages = normalizeMessages(raw.messages, now);
+  if (typeof messages === "string") return messages;
+  const ids = new Set(messages.map((m) => m.id));
+
+  const session = raw.session;
+  const summary = typeof session.summary === "string" && session.summary ? session.summary : null;
+  const summarizedThroughId = summary ? optionalInt(session.summarizedThroughId) ?? 0 : 0;
+  if (summarizedThroughId !== 0 && !ids.has(summarizedThroughId)) {
+    return `summarizedThroughId ${summarizedThroughId} is not a message in the export`;
+  }
+  const lastId = messages.length > 0 ? messages[messages.length - 1].id : null;
+  const activeLeafId = session.activeLeafId === undefined ? lastId : optionalInt(session.activeLeafId);
+  if (activeLeafId !== null && !ids.has(activeLeafId)) {
+    return `activeLeafId ${activeLeafId} is not a message in the export`;
+  }
+  if (activeLeafId === null && messages.length > 0) return "activeLeafId must name a message";
+
+  let settings: SessionSettings = {};
+  for (const key of ["model", "systemPrompt", "temperature", "maxTokens"] as const) {
+    if (settingsUpdate[key] === undefined || settingsUpdate[key] === null) continue;
+    const merged = mergeSettings(settings, { [key]: settingsUpdate[key] }, models, defaultModel);
+    if (typeof merged === "string") warnings.push(`settings.${key} dropped: ${merged}`);
+    else settings = merged;
+  }
+
+  const firstTs = messages.length > 0 ? messages[0].ts : now;
+  const createdAt = optionalInt(session.createdAt) ?? firstTs;
+  const updatedAt = optionalInt(session.updatedAt) ?? (messages.length > 0 ? messages[messages.length - 1].ts : now);
+  return {
+    data: { createdAt, updatedAt, summary, summarizedThroughId, settings, activeLeafId, messages },
+    warnings,
+  };
+}
+
+/** JSONL is told apart by its records: each line is one message, where the other formats hold a list of them. */
+function detectFormat(text: string): ExportFormat | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("#") || trimmed.startsWith("<!--")) return "markdown";
+  const parsed = parseJson(trimmed);
+  if (Array.isArray(parsed)) return "openai";
+  if (isObject(parsed)) {
+    const data = parsed.ok === true && isObject(parsed.data) ? parsed.data : parsed;
+    if ("createdAt" in data || "summarizedThroughId" in data || "sessionId" in data) return "json";
+    return isMessageRecord(data) ? "jsonl" : "openai";
+  }
+  return isMessageRecord(parseJson(trimmed.split("\n", 1)[0])) ? "jsonl" : null;
+}
+
+function isMessageRecord(value: unknown): boolean {
+  return isObject(value) && typeof value.role === "string" && "content" in value && !("messages" in value);
+}
+
+/** Message rows from any format: validates fields and IDs, or assigns a single chain when IDs are absent. */
+function normalizeMessages(list: unknown[], now: number): MessageRow[] | string {
+  const out: MessageRow[] = [];
+  const hasIds = list.length > 0 && list.every((m) => isObject(m) && m.id !== undefined);
+  const seen = new Set<number>();
+  for (let i = 0; i < list.length; i++) {
+    const m = list[i];
+    const where = `messages[${i}]`;
+    if (!isObject(m)) return `${where} must be an object`;
+    if (typeof m.role !== "string" || !ROLES.includes(m.role as MessageRole)) {
+      return `${where}.role must be one of: ${ROLES.join(", ")}`;
+    }
+    if (typeof m.content !== "string") return `${where}.content must be a string`;
+    if (m.content.length > MAX_IMPORT_CONTENT_CHARS) {
+      return `${where}.content is longer than ${MAX_IMPORT_CONTENT_CHARS} characters`;
+    }
+    const ts = m.ts === undefined ? now : optionalInt(m.ts);
+    if (ts === null || ts < 0) return `${where}.ts must be a timestamp in ms`;
+
+    let id = i + 1;
+    let parentId: number | null = i > 0 ? out[i - 1].id : null;
+    if (hasIds) {
+      const ownId = optionalInt(m.id);
+      if (ownId === null || ownId < 1 || seen.has(ownId)) return `${where}.id must be a unique positive integer`;
+      const parent = m.parentId === undefined ? parentId : m.parentId === null ? null : optionalInt(m.parentId);
+      // Parents must come first so that IDs increase along every branch.
+      if (parent !== null && (!seen.has(parent) || parent >= ownId)) {
+        return `${where}.parentId must be null or the ID of an earlier message`;
+      }
+      id = ownId;
+      parentId = parent;
+    }
+    seen.add(id);
+
+    const row: MessageRow = { id, parentId, role: m.role as MessageRole, content: m.content, ts };
+    if (m.toolCalls !== undefined) {
+      const calls = toToolCalls(m.toolCalls);
+      if (!calls) return `${where}.toolCalls must be an array of { name, arguments }`;
+      row.toolCalls = calls;
+    }
+    if (m.toolName !== undefined) {
+      if (typeof m.toolName !== "string") return `${where}.toolName must be a string`;
+      row.toolName = m.toolName;
+    }
+    out.push(row);
+  }
+  return out;
+}
+
+function toToolCalls(value: unknown): ToolCall[] | null {
+  if (!Array.isArray(value)) return null;
+  const calls: ToolCall[] = [];
+  for (const c of value) {
+    if (!isObject(c) || typeof c.name !== "string" || !isObject(c.arguments)) return null;
+    calls.push({ name: c.name, arguments: c.arguments });
+  }
+  return calls;
+}
+
+/** A leading system message becomes the session's system prompt; tool calls and results map back to rows. */
+function fromOpenAiMessages(list: unknown[]): { messages: unknown[]; systemPrompt?: string } | string {
+  const messages: unknown[] = [];
+  const toolNames = new Map<string, string>();
+  let systemPrompt: string | undefined;
+  for (let i = 0; i < list.length; i++) {
+    const m = list[i];
+    if (!isObject(m) || typeof m.role !== "string") return `messages[${i}] must be an object with a role`;
+    const content = typeof m.content === "string" ? m.content : m.content === null ? "" : undefined;
+    if (content === undefined) return `messages[${i}].content must be a string`;
+    if (i === 0 && m.role === "system") {
+      systemPrompt = content;
+      continue;
+    }
+    if (m.role === "assistant" && Array.isArray(m.tool_calls)) {
+      const toolCalls: ToolCall[] = [];
+      for (const c of m.tool_calls) {
+        const fn = isObject(c) && isObject(c.function) ? c.function : null;
+        const args = typeof fn?.arguments === "string" ? parseJson(fn.arguments) : fn?.arguments;
+        if (!fn || typeof fn.name !== "string" || !isObject(args)) {
+          return `messages[${i}].tool_calls must be function calls with JSON object arguments`;
+        }
+        if (typeof c.id === "string") toolNames.set(c.id, fn.name);
+        toolCalls.push({ name: fn.name, arguments: args });
+      }
+      messages.push({ role: "assistant", content, toolCalls });
+    } else if (m.role === "tool") {
+      const name = typeof m.tool_call_id === "string" ? toolNames.get(m.tool_call_id) : undefined;
+      messages.push({ role: "tool", content, ...(name ? { toolName: name } : {}) });
+    } else {
+      messages.push({ role: m.role, content });
+    }
+  }
+  return { messages, systemPrompt };
+}
+
+function fromMarkdown(text: string): { session: Record<string, unknown>; messages: unknown[] } | string {
+  const sessionMatch = SESSION_MARKER.exec(text);
+  const session = sessionMatch ? parseJson(sessionMatch[1]) : {};
+  if (!isObject(session)) return "Markdown export has an invalid session marker";
+  const messages: unknown[] = [];
+  // Markers carry the content length, so content that itself looks like a marker is read verbatim.
+  MESSAGE_MARKER.lastIndex = 0;
+  let marker = MESSAGE_MARKER.exec(text);
+  while (marker) {
+    const n = messages.length + 1;
+    const parsed = parseJson(marker[1]);
+    if (!isObject(parsed)) return `Message marker ${n} is not valid JSON`;
+    const { chars, ...meta } = parsed;
+    // Each block is "### heading\n\n" + content + "\n\n".
+    const headingStart = marker.index + marker[0].length + 1;
+    const bodyStart = text.indexOf("\n\n", headingStart) + 2;
+    if (!text.startsWith("### ", headingStart) || bodyStart < 2) return `Message ${n} is missing its heading`;
+    let content: string;
+    if (Number.isInteger(chars)) {
+      content = text.slice(bodyStart, bodyStart + (chars as number));
+      MESSAGE_MARKER.lastIndex = bodyStart + content.length;
+      marker = MESSAGE_MARKER.exec(text);
+    } else {
+      MESSAGE_MARKER.lastIndex = bodyStart;
+      marker = MESSAGE_MARKER.exec(text);
+      content = text.slice(bodyStart, marker ? marker.index : text.length);
+      content = content.endsWith("\n\n") ? content.slice(0, -2) : content.replace(/\n$/, "");
+    }
+    messages.push({ ...meta, content });
+  }
+  if (messages.length === 0) return "Markdown export has no message markers";
+  return { session, messages };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalInt(value: unknown): number | null {
+  return Number.isInteger(value) ? (value as number) : null;
+}
@@ -0,0 +1,687 @@
+/**
+ * Document ingestion for /api/upload: sniffs a file's real type from its bytes, checks it against the extension,
+ * and converts it to text. PDF and DOCX are parsed here (no dependencies: ZIP and Flate via DecompressionStream);
+ * CSV becomes a Markdown table with a header row; HTML loses its markup. Plain text, Markdown and JSON pass
+ * through unchanged.
+ */
+
+export const DOCUMENT_KINDS = ["text", "markdown", "json", "csv", "html", "pdf", "docx"] as const;
+export type DocumentKind = (typeof DOCUMENT_KINDS)[number];
+
+/** Accepted extensions and the kind each one declares. */
+export const DOCUMENT_EXTENSIONS: Record<string, DocumentKind> = {
+  ".txt": "text",
+  ".md": "markdown",
+  ".json": "json",
+  ".csv": "csv",
+  ".html": "html",
+  ".htm": "html",
+  ".pdf": "pdf",
+  ".docx": "docx",
+};
+
+const CONTENT_TYPES: Record<DocumentKind, string> = {
+  text: "text/plain",
+  markdown: "text/markdown",
+  json: "application/json",
+  csv: "text/csv",
+  html: "text/html",
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+/** Cap on decompressed bytes per file, against ZIP and Flate bombs. */
+const MAX_INFLATED_BYTES = 32 * 1024 * 1024;
+/** Bytes checked for NULs when deciding whether a file is text. */
+const TEXT_SNIFF_BYTES = 8192;
+/** Below this share of readable characters, PDF output is taken to be undecodable glyph IDs. */
+const MIN_READABLE_RATIO = 0.8;
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  /** Derived from the kind, not from what the client sent. */
+  contentType: string;
+  text: string;
+  /** False for text, Markdown and JSON, whose text is the file itself. */
+  converted: boolean;
+}
+
+/** The file is not an accepted type, does not match its extension, or holds no readable text. */
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+/** The type the bytes actually have: a known binary signature, text (no NUL bytes), or unknown binary. */
+export function sniffType(bytes: Uint8Array): "pdf" | "zip" | "text" | "binary" {
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return "pdf"; // %PDF-
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return "zip";
+  const head = bytes.subarray(0, TEXT_SNIFF_BYTES);
+  return head.includes(0) ? "binary" : "text";
+}
+
+/** Converts an upload to text. Throws ExtractionError when the file cannot be accepted. */
+export async function extractDocument(bytes: Uint8Array, filename: string): Promise<ExtractedDocument> {
+  const i = filename.lastIndexOf(".");
+  const ext = i >= 0 ? filename.slice(i).toLowerCase() : "";
+  const kind = DOCUMENT_EXTENSIONS[ext];
+  if (!kind) {
+    throw new ExtractionError(`Unsupported file type. Allowed: ${Object.keys(DOCUMENT_EXTENSIONS).join(", ")}`);
+  }
+  const actual = sniffType(bytes);
+  const expected = kind === "pdf" ? "pdf" : kind === "docx" ? "zip" : "text";
+  if (actual !== expected) {
+    throw new ExtractionError(
+      `File content does not match its ${ext} extension (looks like ${describeSniffed(actual)})`
+    );
+  }
+
+  let text: string;
+  switch (kind) {
+    case "text":
+    case "markdown":
+    case "json":
+      return { kind, contentType: CONTENT_TYPES[kind], text: decodeUtf8(bytes), converted: false };
+    case "csv":
+      text = csvToTable(decodeUtf8(bytes));
+      break;
+    case "html":
+      text = htmlToText(decodeUtf8(bytes));
+      break;
+    case "pdf":
+      text = await pdfToText(bytes);
+      break;
+    case "docx":
+      text = await docxToText(bytes);
+      break;
+  }
+  text = normalizeText(text);
+  if (!text) throw new ExtractionError(`No text found in the ${ext} file`);
+  return { kind, contentType: CONTENT_TYPES[kind], text, converted: true };
+}
+
+/** Unix newlines, no control characters or trailing spaces, at most one blank line in a row. */
+export function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u0000-\u0008\u000b-\u001f\u007f\u00ad]/g, "")
+    .replace(/[ \t\u00a0]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// --- CSV ---
+
+/** Renders CSV (comma, semicolon or tab separated) as a Markdown table; the first row is the header. */
+export function csvToTable(csv: string): string {
+  const rows = parseCsv(csv, detectDelimiter(csv)).filter((r) => r.some((c) => c.trim() !== ""));
+  if (rows.length === 0) return "";
+  const width = Math.max(...rows.map((r) => r.length));
+  const cell = (c: string | undefined) => (c ?? "").replace(/\s*\r?\n\s*/g, " ").replace(/\|/g, "\\|").trim();
+  const line = (r: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(r[i])).join(" | ")} |`;
+  const [header, ...body] = rows;
+  return [line(header), `|${" --- |".repeat(width)}`, ...body.map(line)].join("\n");
+}
+
+function detectDelimiter(csv: string): string {
+  const firstLine = csv.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  let best = ",";
+  let bestCount = 0;
+  for (const d of [",", ";", "\t"]) {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) [best, bestCount] = [d, count];
+  }
+  return best;
+}
+
+/** RFC 4180: quoted fields may hold delimiters, newlines and doubled quotes. */
+function parseCsv(csv: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < csv.length; i++) {
+    const ch = csv[i];
+    if (quoted) {
+      if (ch === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") quoted = true;
+    else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && csv[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field !== "" || row.length > 0) rows.push([...row, field]);
+  return rows;
+}
+
+// --- HTML ---
+
+const BLOCK_TAGS = [
+  "address|article|aside|blockquote|dd|div|dl|dt|fieldset|figcaption|figure|footer|form",
+  "h[1-6]|header|hr|main|nav|ol|p|pre|section|table|tr|ul",
+].join("|");
+
+/** Text of an HTML page: scripts, styles and the head dropped, block elements on their own lines. */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|head|svg)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/t[dh]\s*>/gi, "\t")
+    .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+    .replace(/<[^>]*>/g, "");
+  return decodeEntities(text)
+    .split("\n")
+    .map((l) => l.replace(/[ \u00a0]+/g, " ").replace(/^[ \t]+|[ \t]+$/g, ""))
+    .join("\n");
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  laquo: "«",
+  raquo: "»",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+  pound: "£",
+  deg: "°",
+};
+
+/** Decodes numeric entities and common named ones (HTML and XML). */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (match, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? match;
+  });
+}
+
+// --- DOCX ---
+
+/** Body text of a Word document: paragraphs on their own lines, table cells separated by tabs. */
+async function docxToText(bytes: Uint8Array): Promise<string> {
+  const xml = await readZipEntry(bytes, "word/document.xml");
+  if (xml === null) throw new ExtractionError("Not a Word document (no word/document.xml)");
+  const text = decodeUtf8(xml).replace(
+    /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)\b[^>]*\/>|(?:<\/w:p>)?<\/w:tc>|<\/w:p>|<\/w:tr>|<[^>]*>/g,
+    (tag, content: string | undefined) => {
+      if (content !== undefined) return content;
+      if (tag === "<w:tab/>" || tag.endsWith("</w:tc>")) return "\t";
+      if (tag.startsWith("<w:br") || tag.startsWith("<w:cr") || tag === "</w:p>" || tag === "</w:tr>") return "\n";
+      return "";
+    }
+  );
+  return decodeEntities(text);
+}
+
+/** One entry of a ZIP archive, located through the central directory; null when absent. */
+async function readZipEntry(zip: Uint8Array, name: string): Promise<Uint8Array | null> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ExtractionError("Damaged ZIP archive (no central directory)");
+  const entries = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  for (let n = 0; n < entries && p + 46 <= zip.length; n++) {
+    if (view.getUint32(p, true) !== 0x02014b50) break;
+    const method = view.getUint16(p + 10, true);
+    const compressedSize = view.getUint32(p + 20, true);
+    const size = view.getUint32(p + 24, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const entryName = decodeUtf8(zip.subarray(p + 46, p + 46 + nameLength));
+    if (entryName === name) {
+      const local = view.getUint32(p + 42, true);
+      if (local + 30 > zip.length || view.getUint32(local, true) !== 0x04034b50) {
+        throw new ExtractionError("Damaged ZIP archive (bad local header)");
+      }
+      const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+      const data = zip.subarray(start, start + compressedSize);
+      if (size > MAX_INFLATED_BYTES) throw new ExtractionError(`${name} is too large to extract`);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, "deflate-raw", true);
+      throw new ExtractionError(`Unsupported ZIP compression method ${method}`);
+    }
+    p += 46 + nameLength + view.getUint16(p + 30, true) + view.getUint16(p + 32, true);
+  }
+  return null;
+}
+
+/**
+ * Decompresses `data`, failing past MAX_INFLATED_BYTES. Unless `strict`, a corrupt or truncated stream yields
+ * what was decoded before the error (PDF streams often carry trailing bytes).
+ */
+async function inflate(data: Uint8Array, format: "deflate" | "deflate-raw", strict: boolean): Promise<Uint8Array> {
+  const reader = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.byteLength;
+      if (total > MAX_INFLATED_BYTES) throw new ExtractionError("Compressed content is too large to extract");
+      chunks.push(value);
+    }
+  } catch (e) {
+    if (e instanceof ExtractionError) throw e;
+    if (strict) throw new ExtractionError("Damaged compressed data");
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.byteLength;
+  }
+  return out;
+}
+
+// --- PDF ---
+
+/**
+ * Text shown by a PDF's content streams (Tj, TJ, ' and " operators). Strings in a font with a ToUnicode CMap
+ * (as CID fonts have) are mapped through it; others are read as single bytes. Fonts with custom encodings and
+ * neither mapping cannot be read this way; such PDFs, like scanned ones, are rejected.
+ */
+async function pdfToText(bytes: Uint8Array): Promise<string> {
+  const pdf = latin1(bytes);
+  if (/\/Encrypt\s/.test(pdf)) throw new ExtractionError("Encrypted PDFs are not supported");
+  const streams: { id: number | null; content: string }[] = [];
+  let total = 0;
+  const streamRe = /\bstream\r?\n/g;
+  let m: RegExpExecArray | null;
+  while ((m = streamRe.exec(pdf)) !== null) {
+    const dictStart = pdf.lastIndexOf("obj", m.index);
+    const dict = dictStart >= 0 ? pdf.slice(dictStart, m.index) : "";
+    const start = m.index + m[0].length;
+    const end = streamEnd(pdf, dict, start);
+    if (end < 0) break;
+    streamRe.lastIndex = end;
+    if (!isContentStream(dict)) continue;
+    let data = bytes.subarray(start, end);
+    if (/\/FlateDecode\b/.test(dict)) data = await inflate(data, "deflate", false);
+    total += data.byteLength;
+    if (total > MAX_INFLATED_BYTES) throw new ExtractionError("PDF content is too large to extract");
+    const id = /(\d+)\s+\d+\s+$/.exec(pdf.slice(Math.max(0, dictStart - 24), dictStart))?.[1];
+    streams.push({ id: id === undefined ? null : Number(id), content: latin1(data) });
+  }
+
+  const objects = pdfObjects(pdf);
+  const cmaps = new Map<number, ToUnicodeMap>();
+  for (const s of streams) {
+    if (s.id !== null && /\bbegincmap\b/.test(s.content)) cmaps.set(s.id, parseToUnicode(s.content));
+  }
+  const fontsOf = (body: string) => pdfFonts(body, objects, cmaps);
+  // A page's content streams use its fonts; streams whose fonts are not found (inherited resources, forms
+  // without their own) fall back to every font named in the document.
+  const pageFonts = new Map<number, Map<string, ToUnicodeMap>>();
+  const allFonts = new Map<string, ToUnicodeMap>();
+  for (const body of objects.values()) {
+    const fonts = fontsOf(body);
+    for (const [name, cmap] of fonts) if (!allFonts.has(name)) allFonts.set(name, cmap);
+    if (!/\/Type\s*\/Page\b/.test(body)) continue;
+    const contents = /\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/.exec(body)?.[1] ?? "";
+    for (const [, ref] of contents.matchAll(/(\d+)\s+\d+\s+R/g)) pageFonts.set(Number(ref), fonts);
+  }
+
+  const parts: string[] = [];
+  for (const s of streams) {
+    if (s.id !== null && cmaps.has(s.id)) continue;
+    const own = s.id === null ? undefined : pageFonts.get(s.id) ?? fontsOf(objects.get(s.id) ?? "");
+    const text = contentStreamText(s.content, own?.size ? own : allFonts);
+    if (text.trim()) parts.push(text);
+  }
+  const text = parts.join("\n");
+  const readable = text.match(/[\p{L}\p{N}\p{P}\p{Zs}\n\t]/gu)?.length ?? 0;
+  if (!text.trim() || readable / text.length < MIN_READABLE_RATIO) {
+    throw new ExtractionError("No extractable text in the PDF (it may be scanned or use embedded font encodings)");
+  }
+  return text;
+}
+
+/** The dictionaries of a PDF's objects by object number; later definitions (incremental updates) win. */
+function pdfObjects(pdf: string): Map<number, string> {
+  const objects = new Map<number, string>();
+  const objRe = /\b(\d+)\s+\d+\s+obj\b/g;
+  const endRe = /\bstream\r?\n|\bendobj\b/g;
+  let m: RegExpExecArray | null;
+  while ((m = objRe.exec(pdf)) !== null) {
+    endRe.lastIndex = objRe.lastIndex;
+    const end = endRe.exec(pdf);
+    if (!end) break;
+    objects.set(Number(m[1]), pdf.slice(objRe.lastIndex, end.index));
+    objRe.lastIndex = end.index + end[0].length;
+  }
+  return objects;
+}
+
+/** The ToUnicode CMaps of the fonts in an object's resources, by resource name. */
+function pdfFonts(body: string, objects: Map<number, string>, cmaps: Map<number, ToUnicodeMap>) {
+  const fonts = new Map<string, ToUnicodeMap>();
+  const deref = (ref: string | undefined) => (ref === undefined ? "" : objects.get(Number(ref)) ?? "");
+  const resources = body + deref(/\/Resources\s+(\d+)\s+\d+\s+R/.exec(body)?.[1]);
+  const font = /\/Font\s*(?:<<([^>]*)>>|(\d+)\s+\d+\s+R)/.exec(resources);
+  if (!font) return fonts;
+  const entries = font[1] ?? deref(font[2]);
+  for (const [, name, ref] of entries.matchAll(/\/([^\s/()<>[\]{}%]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const cmapRef = /\/ToUnicode\s+(\d+)\s+\d+\s+R/.exec(deref(ref))?.[1];
+    const cmap = cmapRef === undefined ? undefined : cmaps.get(Number(cmapRef));
+    if (cmap) fonts.set(name, cmap);
+  }
+  return fonts;
+}
+
+/** A ToUnicode CMap: how codes of one or more bytes split a string, and the text each code stands for. */
+interface ToUnicodeMap {
+  codespace: { bytes: number; low: number; high: number }[];
+  chars: Map<string, string>;
+  ranges: { bytes: number; low: number; high: number; text: string | string[] }[];
+}
+
+function parseToUnicode(cmap: string): ToUnicodeMap {
+  const map: ToUnicodeMap = { codespace: [], chars: new Map(), ranges: [] };
+  const code = (hex: string) => {
+    const digits = hex.replace(/[^0-9a-f]/gi, "");
+    return { bytes: Math.ceil(digits.length / 2), value: parseInt(digits || "0", 16) };
+  };
+  const sections = (name: string) => [...cmap.matchAll(new RegExp(`begin${name}([\\s\\S]*?)end${name}`, "g"))];
+  const pair = /<([^>]*)>\s*<([^>]*)>/g;
+  for (const [, body] of sections("codespacerange")) {
+    for (const [, low, high] of body.matchAll(pair)) {
+      map.codespace.push({ bytes: code(low).bytes, low: code(low).value, high: code(high).value });
+    }
+  }
+  for (const [, body] of sections("bfchar")) {
+    for (const [, src, dst] of body.matchAll(pair)) {
+      map.chars.set(`${code(src).bytes}:${code(src).value}`, utf16Hex(dst));
+    }
+  }
+  for (const [, body] of sections("bfrange")) {
+    for (const [, low, high, dst] of body.matchAll(/<([^>]*)>\s*<([^>]*)>\s*(<[^>]*>|\[[^\]]*\])/g)) {
+      const text = dst.startsWith("[") ? [...dst.matchAll(/<([^>]*)>/g)].map((h) => utf16Hex(h[1])) : utf16Hex(dst);
+      map.ranges.push({ bytes: code(low).bytes, low: code(low).value, high: code(high).value, text });
+    }
+  }
+  if (!map.codespace.length) map.codespace.push({ bytes: 1, low: 0, high: 0xff });
+  return map;
+}
+
+/** Decodes a string's bytes code by code; codes the CMap does not map are dropped. */
+function decodeWithCMap(raw: string, cmap: ToUnicodeMap): string {
+  const shortest = Math.min(...cmap.codespace.map((r) => r.bytes));
+  let out = "";
+  let i = 0;
+  while (i < raw.length) {
+    const valueAt = (bytes: number) => {
+      let value = 0;
+      for (let k = 0; k < bytes; k++) value = value * 256 + raw.charCodeAt(i + k);
+      return value;
+    };
+    const inSpace = (r: ToUnicodeMap["codespace"][number]) => {
+      const value = valueAt(r.bytes);
+      return i + r.bytes <= raw.length && r.low <= value && value <= r.high;
+    };
+    const bytes = cmap.codespace.find(inSpace)?.bytes ?? shortest;
+    const value = valueAt(bytes);
+    i += bytes;
+    const char = cmap.chars.get(`${bytes}:${value}`);
+    if (char !== undefined) {
+      out += char;
+      continue;
+    }
+    const range = cmap.ranges.find((r) => r.bytes === bytes && r.low <= value && value <= r.high);
+    if (!range) continue;
+    const offset = value - range.low;
+    if (Array.isArray(range.text)) out += range.text[offset] ?? "";
+    else out += range.text.slice(0, -1) + String.fromCharCode(range.text.charCodeAt(range.text.length - 1) + offset);
+  }
+  return out;
+}
+
+/** A CMap destination: UTF-16BE code units in hex. */
+function utf16Hex(hex: string): string {
+  const digits = hex.replace(/[^0-9a-f]/gi, "");
+  let out = "";
+  for (let h = 0; h < digits.length; h += 4) out += String.fromCharCode(parseInt(digits.slice(h, h + 4), 16));
+  return out;
+}
+
+/** Offset of the end of a stream's data: by its direct /Length when that checks out, else at `endstream`. */
+function streamEnd(pdf: string, dict: string, start: number): number {
+  const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dict);
+  if (length) {
+    const end = start + Number(length[1]);
+    if (/^\s*endstream/.test(pdf.slice(end, end + 20))) return end;
+  }
+  const end = pdf.indexOf("endstream", start);
+  return end < 0 ? -1 : end;
+}
+
+/** Page content: not an image, font, metadata or cross-reference stream, and not in an unsupported filter. */
+function isContentStream(dict: string): boolean {
+  if (/\/Subtype\s*\/(?:Image|Type1C|CIDFontType0C|OpenType|XML)\b/.test(dict)) return false;
+  if (/\/Type\s*\/(?:XRef|ObjStm|Metadata|EmbeddedFile)\b/.test(dict)) return false;
+  if (/\/Length[123]\b/.test(dict)) return false;
+  const filters = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].match(/\/\w+/g) ?? [];
+  return filters.every((f) => f === "/FlateDecode");
+}
+
+/** A string operand holds its bytes (one character each) until a text operator decodes them in the current font. */
+type Operand = string | number | Operand[] | { raw: string };
+
+/**
+ * Interprets the text operators of a decoded content stream; positioning becomes spaces and newlines. `fonts`
+ * maps font resource names to their ToUnicode CMaps.
+ */
+function contentStreamText(content: string, fonts: Map<string, ToUnicodeMap>): string {
+  let out = "";
+  const stack: Operand[][] = [[]];
+  let lastY: number | null = null;
+  let font: ToUnicodeMap | undefined;
+  const operands = () => stack[stack.length - 1];
+  const show = (s: Operand | undefined) => {
+    if (typeof s === "object" && !Array.isArray(s)) out += font ? decodeWithCMap(s.raw, font) : decodePdfString(s.raw);
+  };
+  const breakLine = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += " ";
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++;
+    } else if (ch === "(") {
+      const [text, next] = readLiteralString(content, i);
+      operands().push({ raw: text });
+      i = next;
+    } else if (ch === "<" && content[i + 1] === "<") {
+      i += 2;
+    } else if (ch === ">" && content[i + 1] === ">") {
+      i += 2;
+    } else if (ch === "<") {
+      const end = content.indexOf(">", i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/[^0-9a-f]/gi, "");
+      let text = "";
+      for (let h = 0; h < hex.length; h += 2) {
+        text += String.fromCharCode(parseInt(hex.slice(h, h + 2).padEnd(2, "0"), 16));
+      }
+      operands().push({ raw: text });
+      i = end < 0 ? content.length : end + 1;
+    } else if (ch === "[") {
+      stack.push([]);
+      i++;
+    } else if (ch === "]") {
+      const array = stack.length > 1 ? stack.pop()! : [];
+      operands().push(array);
+      i++;
+    } else if (ch === "/") {
+      const name = /^\/[^\s/()<>[\]{}%]*/.exec(content.slice(i, i + 128))![0];
+      operands().push(name);
+      i += name.length;
+    } else {
+      const word = /^[^\s/()<>[\]{}%]+/.exec(content.slice(i, i + 64))?.[0] ?? ch;
+      i += word.length;
+      const num = Number(word);
+      if (word !== "" && !Number.isNaN(num)) {
+        operands().push(num);
+        continue;
+      }
+      const args = operands();
+      switch (word) {
+        case "Tf":
+          font = typeof args[0] === "string" ? fonts.get(args[0].slice(1)) : undefined;
+          break;
+        case "Tj":
+          show(args[args.length - 1]);
+          break;
+        case "'":
+          breakLine();
+          show(args[args.length - 1]);
+          break;
+        case '"':
+          breakLine();
+          show(args[2]);
+          break;
+        case "TJ": {
+          const array = args[args.length - 1];
+          if (Array.isArray(array)) {
+            for (const item of array) {
+              // Large negative kerning moves right by about a space's width or more.
+              if (typeof item === "number" && item <= -200) space();
+              else show(item);
+            }
+          }
+          break;
+        }
+        case "Td":
+        case "TD":
+          if (args[1] !== 0 && typeof args[1] === "number") breakLine();
+          else space();
+          break;
+        case "Tm": {
+          const y = typeof args[5] === "number" ? args[5] : null;
+          if (lastY !== null && y !== lastY) breakLine();
+          else space();
+          lastY = y;
+          break;
+        }
+        case "T*":
+          breakLine();
+          break;
+        case "ET":
+          breakLine();
+          break;
+        case "ID": {
+          // Inline image data runs to `EI`; it is binary and not text.
+          const end = content.slice(i).search(/\sEI(?=\s|$)/);
+          i = end < 0 ? content.length : i + end + 3;
+          break;
+        }
+      }
+      stack.length = 1;
+      stack[0] = [];
+    }
+  }
+  return out;
+}
+
+/** A `( ... )` string starting at `start`: its raw content with escapes resolved, and the index after it. */
+function readLiteralString(content: string, start: number): [string, number] {
+  let depth = 0;
+  let out = "";
+  let i = start;
+  for (; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === "\\") {
+      const next = content[++i];
+      const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+      if (next in escapes) out += escapes[next];
+      else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(i, i + 3))![0];
+        out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        i += octal.length - 1;
+      } else if (next === "\r") {
+        if (content[i + 1] === "\n") i++;
+      } else if (next !== "\n") out += next ?? "";
+    } else if (ch === "(") {
+      if (depth++ > 0) out += ch;
+    } else if (ch === ")") {
+      if (--depth === 0) return [out, i + 1];
+      out += ch;
+    } else out += ch;
+  }
+  return [out, i];
+}
+
+/** PDF text strings are UTF-16BE with a byte order mark, otherwise single-byte (read as Latin-1). */
+function decodePdfString(raw: string): string {
+  if (raw.charCodeAt(0) !== 0xfe || raw.charCodeAt(1) !== 0xff) return raw;
+  let out = "";
+  for (let i = 2; i + 1 < raw.length; i += 2) {
+    out += String.fromCharCode((raw.charCodeAt(i) << 8) | raw.charCodeAt(i + 1));
+  }
+  return out;
+}
+
+// --- helpers ---
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((b, i) => bytes[i] === b);
+}
+
+function describeSniffed(type: ReturnType<typeof sniffType>): string {
+  return { pdf: "a PDF", zip: "a ZIP archive", text: "text", binary: "binary data" }[type];
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8", { fatal: false }).decode(bytes);
+}
+
+/** One character per byte, so string offsets are byte offsets. */
+function latin1(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return out;
+}
@@ -1,36 +1,169 @@
 /**
- * Worker: /api/chat, /api/summarize, /api/export, /api/upload, /api/file.
- * Orchestrates ChatSessionDO, Workers AI, and R2.
+ * Worker: /api/session, /api/sessions, /api/chat, /api/messages, /api/branches, /api/summarize, /api/export,
+ * /api/import, /api/upload, /api/file, /api/attachments, /api/models, /api/settings, /api/profile,
+ * /api/moderation/events, /api/admin/stats, /api/live/ticket, /api/live (WebSocket), and the OpenAI-compatible
+ * /v1/chat/completions and /v1/models.
+ * Orchestrates ChatSessionDO, SessionDirectoryDO, Workers AI (with tool calling), and R2. User messages,
+ * uploaded text and replies pass through moderation before they are stored. Chat model calls are retried and
+ * can fall back to another model; a chat request with an Idempotency-Key stores its turn at most once, and a
+ * turn whose reply failed is marked on its user message. Every request gets a request ID and a structured
+ * log line, and its usage is counted per session and in UsageStatsDO.
  */
 
-import { ChatSessionDO, type MessageRow } from "./chatSessionDO";
+import {
+  LIVE_TICKET_TTL_MS,
+  getBearerToken,
+  getTokenTtlMs,
+  secretsEqual,
+  signLiveTicket,
+  signSessionToken,
+  tokenExpired,
+  verifyLiveTicket,
+  verifySessionToken,
+  type SessionClaims,
+} from "./auth";
+import {
+  ChatSessionDO,
+  attachmentKeys,
+  type AttachmentRow,
+  type ChatSessionApi,
+  type ChatContextData,
+  type MessageRow,
+  type NewMessage,
+  type SessionSettings,
+} from "./chatSessionDO";
+import { buildChatContext, estimateTokens, type ChatMessage, type ContextAttachment } from "./context";
+import type { Env } from "./env";
+import { EXPORT_FORMATS, formatExport, isExportFormat, parseImport } from "./exportFormats";
+import { ExtractionError, extractDocument, type ExtractedDocument } from "./extract";
+import { LIVE_NAME_HEADER, LIVE_PROGRESS_MS, liveName, type StreamingEvent } from "./live";
+import {
+  getDefaultModel,
+  getModelRegistry,
+  maxReplyTokens,
+  mergeSettings,
+  resolveSettings,
+  runTextModel,
+  type ResolvedSettings,
+} from "./models";
+import {
+  describeBlock,
+  getModerationPolicy,
+  moderate,
+  moderateReply,
+  moderateReplyStream,
+  moderationEvent,
+  scanJson,
+  scanText,
+  type ModerationEvent,
+  type ModerationResult,
+} from "./moderation";
+import {
+  REQUEST_ID_HEADER,
+  createMetrics,
+  logRequest,
+  timeAi,
+  timeNamespace,
+  usageRecord,
+  type RequestMetrics,
+} from "./observability";
+import {
+  completionBody,
+  completionId,
+  modelList,
+  openAiErrorBody,
+  parseCompletionRequest,
+  relayOpenAiStream,
+} from "./openai";
+import { profileInstructions, withProfile, type UserProfile } from "./profile";
+import { doRequest, rpcStub, type DOResult, type RpcStub } from "./protocol";
+import { RateLimiterDO, type LimitPolicy, type LimitResult, type RateLimiterApi } from "./rateLimiterDO";
+import { getAiRetryPolicy, resilientAi } from "./resilience";
+import { sweepUploads } from "./retention";
+import {
+  InMemoryVectorIndex,
+  deleteDocument,
+  indexDocument,
+  retrieveChunks,
+  type Citation,
+  type RetrievedChunk,
+  type VectorIndex,
+} from "./retrieval";
+import { SessionDirectoryDO, type SessionDirectoryApi } from "./sessionDirectoryDO";
+import {
+  SSE_HEADERS,
+  encodeSSE,
+  moderatedTokens,
+  readAiTokens,
+  readFinalEvent,
+  relayAiStream,
+  type RelayEvent,
+} from "./sse";
+import {
+  checkJsonSchema,
+  completeStructured,
+  parseJsonReply,
+  schemaInstruction,
+  validateJson,
+  type JsonSchema,
+} from "./structured";
+import {
+  USAGE_STATS_SHARDS,
+  UsageStatsDO,
+  mergeUsageStats,
+  usageStatsShard,
+  type UsageStats,
+  type UsageStatsApi,
+} from "./usageStatsDO";
+import {
+  BUILTIN_TOOLS,
+  completeToolLoop,
+  createToolRegistry,
+  runToolLoop,
+  toolLoopEvents,
+  type ToolContext,
+  type ToolLoopResult,
+  type ToolStep,
+} from "./tools";
 
-const SYSTEM_PROMPT =
+const DEFAULT_SYSTEM_PROMPT =
   "You are a helpful, concise assistant. Ask clarifying questions when necessary. Do not output secrets or unsafe instructions.";
-const SUMMARIZE_PROMPT =
+const DEFAULT_SUMMARIZE_PROMPT =
   "Summarize the conversation in 5 bullet points focusing on user goals, constraints, and decisions. Keep under 120 words.";
-const LLAMA_MODEL = "@cf/meta/llama-3.1-8b-instruct-fp8";
-
-export interface Env {
-  CHAT_SESSION: DurableObjectNamespace;
-  AI: Ai;
-  BUCKET: R2Bucket;
-  MESSAGE_MAX_LENGTH?: string;
-  MESSAGE_HISTORY_LIMIT?: string;
-  SUMMARIZE_MESSAGE_LIMIT?: string;
-  RATE_LIMIT_REQUESTS?: string;
-  RATE_LIMIT_WINDOW_MS?: string;
-}
 
 const DEFAULT_MESSAGE_MAX = 2000;
 const DEFAULT_HISTORY_LIMIT = 10;
 const DEFAULT_SUMMARIZE_LIMIT = 50;
+const DEFAULT_SUMMARY_TRIGGER = 20;
 const DEFAULT_RATE_REQUESTS = 10;
 const DEFAULT_RATE_WINDOW_MS = 60_000;
+const DEFAULT_DAILY_MESSAGES = 500;
+const DEFAULT_DAILY_TOKENS = 200_000;
+const DEFAULT_CONTEXT_BUDGET = 6000;
+const DEFAULT_RAG_TOP_K = 6;
+const DEFAULT_TOOL_MAX_STEPS = 4;
+const DEFAULT_STRUCTURED_MAX_ATTEMPTS = 3;
 
-const MAX_UPLOAD_BYTES = 1024 * 1024;
-const ALLOWED_EXTENSIONS = [".txt", ".md", ".json"];
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+/** Cap on a file's text (the file itself for text files, the extracted text for converted ones). */
+const MAX_TEXT_BYTES = 1024 * 1024;
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
 const FILE_RESPONSE_CAP_BYTES = 100_000;
+const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+const DEFAULT_MESSAGES_PAGE = 100;
+const MAX_MESSAGES_PAGE = 500;
+const DEFAULT_SESSIONS_PAGE = 50;
+const MAX_SESSIONS_PAGE = 200;
+const DEFAULT_SEARCH_RESULTS = 20;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_TITLE_LENGTH = 200;
+const DEFAULT_MODERATION_EVENTS = 50;
+const MAX_MODERATION_EVENTS = 200;
+const DEFAULT_STATS_DAYS = 7;
+const MAX_STATS_DAYS = 90;
+/** Messages sent to the session directory per indexing request. */
+const DIRECTORY_SYNC_BATCH = 500;
 
 function sanitizeFilename(name: string): string {
   return name
@@ -44,18 +177,57 @@ function getFileExtension(name: string): string {
   return i >= 0 ? name.slice(i).toLowerCase() : "";
 }
 
-const rateLimitMap = new Map<string, number[]>();
+/** Reads at most `cap` bytes of an R2 object and decodes them as UTF-8. */
+async function readTextCapped(r2Object: R2ObjectBody, cap: number): Promise<string> {
+  const limit = Math.min(r2Object.size, cap);
+  const buf = new Uint8Array(limit);
+  let offset = 0;
+  const reader = r2Object.body.getReader();
+  try {
+    while (offset < limit) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.slice(0, limit - offset);
+      buf.set(chunk, offset);
+      offset += chunk.length;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return new TextDecoder("utf-8", { fatal: false }).decode(buf.slice(0, offset));
+}
 
 function getConfig(env: Env) {
   return {
     messageMax: env.MESSAGE_MAX_LENGTH ? parseInt(env.MESSAGE_MAX_LENGTH, 10) : DEFAULT_MESSAGE_MAX,
     historyLimit: env.MESSAGE_HISTORY_LIMIT ? parseInt(env.MESSAGE_HISTORY_LIMIT, 10) : DEFAULT_HISTORY_LIMIT,
     summarizeLimit: env.SUMMARIZE_MESSAGE_LIMIT ? parseInt(env.SUMMARIZE_MESSAGE_LIMIT, 10) : DEFAULT_SUMMARIZE_LIMIT,
+    summaryTrigger: env.SUMMARY_TRIGGER_MESSAGES ? parseInt(env.SUMMARY_TRIGGER_MESSAGES, 10) : DEFAULT_SUMMARY_TRIGGER,
     rateRequests: env.RATE_LIMIT_REQUESTS ? parseInt(env.RATE_LIMIT_REQUESTS, 10) : DEFAULT_RATE_REQUESTS,
     rateWindowMs: env.RATE_LIMIT_WINDOW_MS ? parseInt(env.RATE_LIMIT_WINDOW_MS, 10) : DEFAULT_RATE_WINDOW_MS,
+    dailyMessages: env.DAILY_MESSAGE_QUOTA ? parseInt(env.DAILY_MESSAGE_QUOTA, 10) : DEFAULT_DAILY_MESSAGES,
+    dailyTokens: env.DAILY_TOKEN_QUOTA ? parseInt(env.DAILY_TOKEN_QUOTA, 10) : DEFAULT_DAILY_TOKENS,
+    contextBudget: env.CONTEXT_TOKEN_BUDGET ? parseInt(env.CONTEXT_TOKEN_BUDGET, 10) : DEFAULT_CONTEXT_BUDGET,
+    ragTopK: env.RAG_TOP_K ? parseInt(env.RAG_TOP_K, 10) : DEFAULT_RAG_TOP_K,
+    toolMaxSteps: env.TOOL_MAX_STEPS ? parseInt(env.TOOL_MAX_STEPS, 10) : DEFAULT_TOOL_MAX_STEPS,
+    structuredMaxAttempts: env.STRUCTURED_MAX_ATTEMPTS
+      ? parseInt(env.STRUCTURED_MAX_ATTEMPTS, 10)
+      : DEFAULT_STRUCTURED_MAX_ATTEMPTS,
+    models: getModelRegistry(env.MODEL_REGISTRY),
+    defaultModelId: env.DEFAULT_MODEL,
+    systemPrompt: env.SYSTEM_PROMPT || DEFAULT_SYSTEM_PROMPT,
+    summarizePrompt: env.SUMMARIZE_PROMPT || DEFAULT_SUMMARIZE_PROMPT,
+    moderation: getModerationPolicy(env),
   };
 }
 
+const localVectorIndex = new InMemoryVectorIndex();
+const chatTools = createToolRegistry(BUILTIN_TOOLS);
+
+function getVectorIndex(env: Env): VectorIndex {
+  return env.VECTORIZE ?? localVectorIndex;
+}
+
 function jsonResponse(body: object, status = 200, headers?: HeadersInit): Response {
   return new Response(JSON.stringify(body), {
     status,
@@ -63,173 +235,1541 @@ function jsonResponse(body: object, status = 200, headers?: HeadersInit): Respon
   });
 }
 
-function checkRateLimit(sessionId: string, config: ReturnType<typeof getConfig>): boolean {
+/** Limiter keys for a request: the session (if any), plus the client IP when Cloudflare provides it. */
+function rateLimitKeys(request: Request, sessionId: string | null): string[] {
+  const keys = sessionId ? [`session:${sessionId}`] : [];
+  const ip = request.headers.get("CF-Connecting-IP");
+  if (ip) keys.push(`ip:${ip}`);
+  return keys;
+}
+
+/**
+ * Consumes one request (plus `messages`/`tokens` of daily quota) from every limiter key. Every key is checked
+ * before any is charged, so a request refused by one key costs the others nothing. Returns a 429 response with
+ * Retry-After and RateLimit-* headers (describing the limit that refused it) when any key is exhausted.
+ */
+async function checkRateLimit(
+  env: Env,
+  keys: string[],
+  config: ReturnType<typeof getConfig>,
+  cost: { messages: number; tokens: number },
+  corsHeaders: Record<string, string>
+): Promise<Response | null> {
+  const policy: LimitPolicy = {
+    requests: config.rateRequests,
+    windowMs: config.rateWindowMs,
+    dailyMessages: config.dailyMessages,
+    dailyTokens: config.dailyTokens,
+  };
+  const now = Date.now();
+  // A request admitted by the check can still be refused by `consume` when a concurrent one took the last slot;
+  // the keys that recorded it then take it back, so a refused request uses up no limit.
+  for (const type of ["check", "consume"] as const) {
+    const results = await Promise.all(
+      keys.map((key) => doRequest(getLimiterStub(env, key), { type, policy, now, ...cost }))
+    );
+    const refused = rateLimited(results, corsHeaders);
+    if (!refused) continue;
+    if (type === "consume") {
+      const charged = keys.filter((_, i) => {
+        const res = results[i];
+        return res.ok && res.data.allowed;
+      });
+      await Promise.all(charged.map((key) => doRequest(getLimiterStub(env, key), { type: "refund", now, ...cost })));
+    }
+    return refused;
+  }
+  return null;
+}
+
+/** The error for the first failed or refused limiter result, or null when all allowed the request. */
+function rateLimited(results: DOResult<LimitResult>[], corsHeaders: Record<string, string>): Response | null {
+  for (const res of results) {
+    if (!res.ok) {
+      return jsonResponse({ ok: false, error: res.error }, 500, corsHeaders);
+    }
+    if (res.data.allowed) continue;
+    const resetSeconds = Math.max(1, Math.ceil(res.data.resetMs / 1000));
+    const message =
+      res.data.reason === "rate"
+        ? "Too many requests; try again later"
+        : res.data.reason === "daily_messages"
+          ? "Daily message quota exceeded"
+          : "Daily token quota exceeded";
+    return jsonResponse({ ok: false, error: { code: "rate_limit", message } }, 429, {
+      ...corsHeaders,
+      "Retry-After": String(resetSeconds),
+      "RateLimit-Limit": String(res.data.limit),
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": String(resetSeconds),
+      "RateLimit-Policy": `${res.data.limit};w=${Math.ceil(res.data.windowMs / 1000)}`,
+    });
+  }
+  return null;
+}
+
+/** Charges tokens produced after admission (model output) to every limiter key. */
+async function recordTokenUsage(env: Env, keys: string[], tokens: number): Promise<void> {
   const now = Date.now();
-  const windowStart = now - config.rateWindowMs;
-  let timestamps = rateLimitMap.get(sessionId) ?? [];
-  timestamps = timestamps.filter((t) => t > windowStart);
-  if (timestamps.length >= config.rateRequests) return false;
-  timestamps.push(now);
-  rateLimitMap.set(sessionId, timestamps);
-  return true;
-}
-
-function getDOStub(env: Env, sessionId: string): DurableObjectStub {
-  const id = env.CHAT_SESSION.idFromName(sessionId);
-  return env.CHAT_SESSION.get(id);
-}
-
-async function doRequest<T>(
-  stub: DurableObjectStub,
-  body: object
-): Promise<{ ok: true; data: T } | { ok: false; error: { code: string; message: string } }> {
-  const res = await stub.fetch("https://do/", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
+  await Promise.all(keys.map((key) => doRequest(getLimiterStub(env, key), { type: "addTokens", tokens, now })));
+}
+
+/**
+ * Adds moderation events to the session's audit log.
+ * Best effort: a failure is logged and does not fail the request.
+ */
+async function recordModeration(env: Env, sessionId: string, events: (ModerationEvent | null)[]): Promise<void> {
+  const recorded = events.filter((e): e is ModerationEvent => e !== null);
+  if (recorded.length === 0) return;
+  const res = await doRequest(getDOStub(env, sessionId), { type: "recordModeration", events: recorded });
+  if (!res.ok) console.error("recordModeration failed", res.error.message);
+}
+
+function contentBlocked(what: string, result: ModerationResult, corsHeaders: Record<string, string>): Response {
+  return jsonResponse(
+    {
+      ok: false,
+      error: { code: "content_blocked", message: `${what} blocked by the content policy (${describeBlock(result)})` },
+    },
+    400,
+    corsHeaders
+  );
+}
+
+/** Resolved settings as exposed by /api/settings and /api/export. */
+function describeSettings(settings: ResolvedSettings) {
+  return {
+    model: settings.model.id,
+    systemPrompt: settings.systemPrompt,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+  };
+}
+
+function sessionSettings(settings: SessionSettings, config: ReturnType<typeof getConfig>): ResolvedSettings {
+  return resolveSettings(settings, config.models, {
+    modelId: config.defaultModelId,
+    systemPrompt: config.systemPrompt,
+  });
+}
+
+/** Prompt that folds `messages` into the existing summary (or starts one). */
+function buildSummaryPrompt(instruction: string, existing: string | null, messages: MessageRow[]): string {
+  const transcript = messages
+    .filter((m) => m.role !== "tool" && !m.toolCalls)
+    .map((m) => `${m.role}: ${m.content}`)
+    .join("\n");
+  if (!transcript) return "No messages in this session.";
+  return existing
+    ? `${instruction}\n\nExisting summary:\n${existing}\n\nNew messages:\n${transcript}`
+    : `${instruction}\n\nConversation:\n${transcript}`;
+}
+
+/** Runs a summarization prompt; the profile (e.g. its language) applies to summaries as to replies. */
+async function runSummary(env: Env, settings: ResolvedSettings, prompt: string, profile: UserProfile): Promise<string> {
+  const instructions = profileInstructions(profile);
+  const aiRes = (await runTextModel(env.AI, settings.model.id, {
+    messages: [...(instructions ? [{ role: "system", content: instructions }] : []), { role: "user", content: prompt }],
+    temperature: settings.temperature,
+  })) as { response?: string };
+  return typeof aiRes?.response === "string" ? aiRes.response : String(aiRes?.response ?? "No summary.");
+}
+
+/**
+ * Once more than `summaryTrigger` messages are not covered by the summary, folds all but the last
+ * `historyLimit` of them into it, so older turns reach the model through the summary.
+ */
+async function foldSummaryIfNeeded(
+  env: Env,
+  stub: RpcStub<ChatSessionApi>,
+  config: ReturnType<typeof getConfig>,
+  profile: UserProfile
+): Promise<void> {
+  const res = await doRequest(stub, { type: "getUnsummarized", limit: config.summarizeLimit });
+  if (!res.ok) throw new Error(res.error.message);
+  const pending = res.data.messages;
+  if (pending.length + res.data.omitted <= config.summaryTrigger) return;
+  // More pending than one page: fold the whole page and leave the rest for the next turn.
+  const toFold = res.data.omitted > 0 ? pending : pending.slice(0, -config.historyLimit);
+  if (toFold.length === 0) return;
+  const settings = sessionSettings(res.data.settings, config);
+  const summary = await runSummary(
+    env,
+    settings,
+    buildSummaryPrompt(config.summarizePrompt, res.data.summary, toFold),
+    profile
+  );
+  await doRequest(stub, {
+    type: "setSummary",
+    summary,
+    throughId: toFold[toFold.length - 1].id,
+    expectedThroughId: res.data.summarizedThroughId,
   });
-  return (await res.json()) as { ok: true; data: T } | { ok: false; error: { code: string; message: string } };
 }
 
-export default {
-  async fetch(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
-    const config = getConfig(env);
-    const corsHeaders = { "Access-Control-Allow-Origin": "*" };
+/**
+ * The context a reply is built from. When more messages are unsummarized than the context holds, the oldest are
+ * folded into the summary first rather than left out; any still left out (e.g. if the fold fails) are counted
+ * in `omitted`, which the caller reports.
+ */
+async function readContext(
+  env: Env,
+  stub: RpcStub<ChatSessionApi>,
+  config: ReturnType<typeof getConfig>,
+  owner: string,
+  leafId?: number | null
+): Promise<DOResult<ChatContextData>> {
+  const read = () =>
+    doRequest(stub, {
+      type: "getContext",
+      recent: config.historyLimit,
+      cap: config.summaryTrigger + config.historyLimit,
+      ...(leafId !== undefined ? { leafId } : {}),
+    });
+  const res = await read();
+  if (!res.ok || res.data.omitted === 0) return res;
+  try {
+    await foldSummaryIfNeeded(env, stub, config, await getOwnerProfile(env, owner));
+  } catch (e) {
+    console.error("foldSummaryIfNeeded failed", e instanceof Error ? e.message : e);
+    return res;
+  }
+  return read();
+}
+
+/** Marks a user message whose reply failed. Best effort: a failure is logged and does not change the response. */
+async function markReplyFailed(stub: RpcStub<ChatSessionApi>, messageId: number, error: string): Promise<void> {
+  const res = await doRequest(stub, { type: "setMessageError", id: messageId, error });
+  if (!res.ok) console.error("setMessageError failed", res.error.message);
+}
+
+/**
+ * Shares a reply being generated with the session's live clients: `start` now, the text so far at most every
+ * LIVE_PROGRESS_MS (only while anyone is connected), then `end`. Best effort; events are sent in order.
+ */
+function liveReply(stub: RpcStub<ChatSessionApi>, userMessageId: number) {
+  let chain: Promise<unknown> = Promise.resolve();
+  let listeners = true;
+  let lastProgress = Date.now();
+  const publish = (state: StreamingEvent["state"], text = "") => {
+    chain = chain
+      .then(() => doRequest(stub, { type: "broadcast", event: { type: "streaming", userMessageId, state, text } }))
+      .then((res) => {
+        if (res.ok) listeners = res.data.clients > 0;
+        else console.error("broadcast failed", res.error.message);
+      })
+      .catch((e) => console.error("broadcast failed", e instanceof Error ? e.message : e));
+  };
+  publish("start");
+  return {
+    progress(text: string): void {
+      if (!listeners || Date.now() - lastProgress < LIVE_PROGRESS_MS) return;
+      lastProgress = Date.now();
+      publish("progress", text);
+    },
+    end(): Promise<unknown> {
+      publish("end");
+      return chain;
+    },
+  };
+}
+
+/** Tool handlers' view of one session: its attachments (content from R2) and message search. */
+function createToolContext(env: Env, stub: RpcStub<ChatSessionApi>): ToolContext {
+  return {
+    now: Date.now(),
+    async listAttachments() {
+      const res = await doRequest(stub, { type: "listAttachments" });
+      if (!res.ok) throw new Error(res.error.message);
+      return res.data;
+    },
+    async readAttachment(fileId) {
+      const res = await doRequest(stub, { type: "getAttachment", fileId });
+      if (!res.ok) throw new Error(res.error.message);
+      const r2Object = res.data ? await env.BUCKET.get(res.data.textKey) : null;
+      if (!res.data || !r2Object) return null;
+      return { attachment: res.data, content: await readTextCapped(r2Object, MAX_TEXT_BYTES) };
+    },
+    async searchMessages(query, limit) {
+      const res = await doRequest(stub, { type: "searchMessages", query, limit });
+      if (!res.ok) throw new Error(res.error.message);
+      return res.data;
+    },
+  };
+}
+
+function getDOStub(env: Env, sessionId: string): RpcStub<ChatSessionApi> {
+  return rpcStub(env.CHAT_SESSION, sessionId);
+}
+
+/**
+ * Verifies the bearer token and that ChatSessionDO records its owner. When `sessionId` is given
+ * the token must have been issued for that session. Returns the claims or a 401 response.
+ */
+async function requireSession(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>,
+  sessionId?: string
+): Promise<SessionClaims | Response> {
+  if (!env.SESSION_SECRET) {
+    return jsonResponse(
+      { ok: false, error: { code: "internal", message: "SESSION_SECRET is not configured" } },
+      500,
+      corsHeaders
+    );
+  }
+  const unauthorized = (message: string) =>
+    jsonResponse({ ok: false, error: { code: "unauthorized", message } }, 401, corsHeaders);
+  const token = getBearerToken(request);
+  if (!token) return unauthorized("Session token required (Authorization: Bearer <token>)");
+  const claims = await verifySessionToken(token, env.SESSION_SECRET);
+  if (!claims) return unauthorized("Invalid session token");
+  if (tokenExpired(claims, getTokenTtlMs(env))) return unauthorized("Session token expired; start a new session");
+  return authorizeClaims(env, claims, corsHeaders, sessionId);
+}
+
+/** Like requireSession, for WebSocket upgrades: verifies the `ticket` query param from /api/live/ticket. */
+async function requireLiveTicket(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>,
+  sessionId: string
+): Promise<SessionClaims | Response> {
+  if (!env.SESSION_SECRET) {
+    return jsonResponse(
+      { ok: false, error: { code: "internal", message: "SESSION_SECRET is not configured" } },
+      500,
+      corsHeaders
+    );
+  }
+  const ticket = new URL(request.url).searchParams.get("ticket");
+  const claims = ticket ? await verifyLiveTicket(ticket, env.SESSION_SECRET) : null;
+  if (!claims) {
+    const message = "Valid ticket query param required (POST /api/live/ticket)";
+    return jsonResponse({ ok: false, error: { code: "unauthorized", message } }, 401, corsHeaders);
+  }
+  return authorizeClaims(env, claims, corsHeaders, sessionId);
+}
+
+/** Checks verified claims against `sessionId` (when given) and the owner ChatSessionDO records. */
+async function authorizeClaims(
+  env: Env,
+  claims: SessionClaims,
+  corsHeaders: Record<string, string>,
+  sessionId?: string
+): Promise<SessionClaims | Response> {
+  const unauthorized = (message: string) =>
+    jsonResponse({ ok: false, error: { code: "unauthorized", message } }, 401, corsHeaders);
+  if (sessionId !== undefined && claims.sid !== sessionId) {
+    return unauthorized("Session token was not issued for this sessionId");
+  }
+  const ownerRes = await doRequest(getDOStub(env, claims.sid), {
+    type: "checkOwner",
+    owner: claims.own,
+  });
+  if (!ownerRes.ok) return jsonResponse({ ok: false, error: ownerRes.error }, 500, corsHeaders);
+  if (!ownerRes.data.authorized) return unauthorized("Session token is not valid for this session");
+  return claims;
+}
+
+/**
+ * Starts a new session: claims its ChatSessionDO for `owner` (a fresh one by default), signs the
+ * session token and adds the session to the owner's directory.
+ */
+async function createSession(
+  env: Env,
+  corsHeaders: Record<string, string>,
+  owner: string = crypto.randomUUID()
+): Promise<{ sessionId: string; token: string } | Response> {
+  const sessionId = crypto.randomUUID();
+  const claimRes = await doRequest(getDOStub(env, sessionId), {
+    type: "claimOwner",
+    owner,
+    sessionId,
+  });
+  if (!claimRes.ok) {
+    return jsonResponse({ ok: false, error: claimRes.error }, 500, corsHeaders);
+  }
+  if (!claimRes.data.authorized) {
+    return jsonResponse(
+      { ok: false, error: { code: "internal", message: "Session ID collision; try again" } },
+      500,
+      corsHeaders
+    );
+  }
+  const token = await signSessionToken({ sid: sessionId, own: owner, iat: Date.now() }, env.SESSION_SECRET!);
+  await syncDirectory(env, owner, sessionId);
+  return { sessionId, token };
+}
+
+/** The claims of a valid, unexpired bearer token, if the request has one (not checked against the session). */
+async function tokenClaims(request: Request, env: Env): Promise<SessionClaims | null> {
+  const token = getBearerToken(request);
+  if (!token || !env.SESSION_SECRET) return null;
+  const claims = await verifySessionToken(token, env.SESSION_SECRET);
+  return claims && !tokenExpired(claims, getTokenTtlMs(env)) ? claims : null;
+}
+
+/** The owner of a validly signed bearer token, if the request has one; new sessions join that owner's directory. */
+async function tokenOwner(request: Request, env: Env): Promise<string | undefined> {
+  return (await tokenClaims(request, env))?.own;
+}
+
+/**
+ * Like requireSession, for routes that act on any session of the caller: the token may belong to another
+ * session of the same owner. Returns the claims, or 404 when `sessionId` is not the caller's.
+ */
+async function requireOwnedSession(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>,
+  sessionId: string
+): Promise<SessionClaims | Response> {
+  const auth = await requireSession(request, env, corsHeaders);
+  if (auth instanceof Response || auth.sid === sessionId) return auth;
+  const ownerRes = await doRequest(getDOStub(env, sessionId), {
+    type: "checkOwner",
+    owner: auth.own,
+  });
+  if (!ownerRes.ok) return jsonResponse({ ok: false, error: ownerRes.error }, 500, corsHeaders);
+  if (!ownerRes.data.authorized) {
+    return jsonResponse({ ok: false, error: { code: "not_found", message: "Session not found" } }, 404, corsHeaders);
+  }
+  return auth;
+}
+
+/** Re-shapes an `{ ok: false, error }` response for /v1 clients, keeping its status and headers. */
+async function toOpenAiError(res: Response): Promise<Response> {
+  const body = (await res.json()) as { error?: { code?: string; message?: string } };
+  const error = openAiErrorBody(res.status, body.error?.message ?? res.statusText, body.error?.code ?? "internal");
+  return new Response(JSON.stringify(error), { status: res.status, headers: res.headers });
+}
+
+function getDirectoryStub(env: Env, owner: string): RpcStub<SessionDirectoryApi> {
+  return rpcStub(env.SESSION_DIRECTORY, owner);
+}
+
+/** The owner's profile for prompts; a failed lookup is logged and treated as an empty profile. */
+async function getOwnerProfile(env: Env, owner: string): Promise<UserProfile> {
+  const res = await doRequest(getDirectoryStub(env, owner), { type: "getProfile" });
+  if (res.ok) return res.data.profile;
+  console.error("getProfile failed", res.error.message);
+  return {};
+}
+
+/**
+ * Copies a session's metadata and any messages not yet indexed into its owner's SessionDirectoryDO.
+ * Best effort: failures are logged, and the next sync picks up where the directory's cursor stopped.
+ */
+async function syncDirectory(env: Env, owner: string, sessionId: string): Promise<void> {
+  const directory = getDirectoryStub(env, owner);
+  try {
+    for (;;) {
+      const cursorRes = await doRequest(directory, { type: "getCursor", sessionId });
+      if (!cursorRes.ok) throw new Error(cursorRes.error.message);
+      const entryRes = await doRequest(getDOStub(env, sessionId), {
+        type: "getDirectoryEntry",
+        sessionId,
+        afterId: cursorRes.data.indexedThroughId,
+        limit: DIRECTORY_SYNC_BATCH,
+      });
+      if (!entryRes.ok) throw new Error(entryRes.error.message);
+      if (!entryRes.data) return;
+      const upsertRes = await doRequest(directory, { type: "upsertSession", sessionId, update: entryRes.data });
+      if (!upsertRes.ok) throw new Error(upsertRes.error.message);
+      if (entryRes.data.messages.length < DIRECTORY_SYNC_BATCH) return;
+    }
+  } catch (e) {
+    console.error("syncDirectory failed", e instanceof Error ? e.message : e);
+  }
+}
+
+/** A UsageStatsDO shard; a random one (for writes) by default. */
+function getStatsStub(env: Env, shard = Math.floor(Math.random() * USAGE_STATS_SHARDS)): RpcStub<UsageStatsApi> {
+  return rpcStub(env.USAGE_STATS, usageStatsShard(shard));
+}
+
+function estimatePromptTokens(messages: ChatMessage[]): number {
+  return messages.reduce((n, m) => n + estimateTokens(m.content), 0);
+}
+
+type FetchHandler = (request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
+type ObservedHandler = (
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  metrics: RequestMetrics
+) => Promise<Response>;
+
+/**
+ * Wraps the fetch handler: the handler gets bindings that time Durable Object and AI calls (chat model calls
+ * also get timeouts, retries and the fallback model, see resilience.ts), the response gets an X-Request-Id
+ * header, and once the response (including a streamed body) is finished the request is logged and its usage
+ * counted. Uncaught errors become a 500 `internal` response.
+ */
+function observeRequests(handler: ObservedHandler): FetchHandler {
+  return async (request, env, ctx) => {
+    const metrics = createMetrics(request, Date.now());
+    const timedEnv: Env = {
+      ...env,
+      AI: resilientAi(timeAi(env.AI, metrics), getAiRetryPolicy(env, getModelRegistry(env.MODEL_REGISTRY)), {
+        onRetry: () => {
+          metrics.aiRetries++;
+        },
+        onFallback: (from, to) => {
+          metrics.fallbackFrom = from;
+          metrics.model = to;
+        },
+      }),
+      CHAT_SESSION: timeNamespace(env.CHAT_SESSION, metrics),
+      RATE_LIMITER: timeNamespace(env.RATE_LIMITER, metrics),
+      SESSION_DIRECTORY: timeNamespace(env.SESSION_DIRECTORY, metrics),
+    };
+    // Background work (stream relays, summary folds) is part of the request for latency and token counts.
+    const pending: Promise<unknown>[] = [];
+    const timedCtx: ExecutionContext = {
+      waitUntil(promise) {
+        pending.push(promise);
+        ctx.waitUntil(promise);
+      },
+      passThroughOnException: () => ctx.passThroughOnException(),
+      props: ctx.props,
+    };
+
+    let response: Response;
+    try {
+      response = await handler(request, timedEnv, timedCtx, metrics);
+    } catch (e) {
+      console.error("Unhandled error", metrics.requestId, e instanceof Error ? e.stack ?? e.message : e);
+      response = jsonResponse({ ok: false, error: { code: "internal", message: "Internal error" } }, 500, {
+        "Access-Control-Allow-Origin": "*",
+      });
+    }
+    metrics.status = response.status;
+    metrics.responseMs = Date.now() - metrics.startedAt;
+    if (response.status >= 400 && (response.headers.get("Content-Type") ?? "").includes("application/json")) {
+      const body = (await response
+        .clone()
+        .json()
+        .catch(() => null)) as { error?: { code?: unknown } } | null;
+      if (typeof body?.error?.code === "string") metrics.errorCode ??= body.error.code;
+    }
+
+    const headers = new Headers(response.headers);
+    headers.set(REQUEST_ID_HEADER, metrics.requestId);
+    const exposed = headers.get("Access-Control-Expose-Headers");
+    headers.set("Access-Control-Expose-Headers", exposed ? `${exposed}, ${REQUEST_ID_HEADER}` : REQUEST_ID_HEADER);
+    if (request.method !== "OPTIONS") {
+      ctx.waitUntil(Promise.allSettled(pending).then(() => finishRequest(env, request, metrics)));
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      webSocket: response.webSocket,
+    });
+  };
+}
+
+/** Logs a finished request and adds it to the deployment's and, for chat model calls, the session's counters. */
+async function finishRequest(env: Env, request: Request, metrics: RequestMetrics): Promise<void> {
+  const now = Date.now();
+  metrics.sessionId ??= (await tokenClaims(request, env))?.sid ?? null;
+  await logRequest(metrics, now);
+  const usage = usageRecord(metrics, now);
+  const writes = [doRequest(getStatsStub(env), { type: "record", usage, now })];
+  if (metrics.sessionId && metrics.model) {
+    writes.push(doRequest(getDOStub(env, metrics.sessionId), { type: "recordUsage", usage, now }));
+  }
+  for (const r of await Promise.allSettled(writes)) {
+    const error = r.status === "rejected" ? r.reason : r.value.ok ? null : r.value.error.message;
+    if (error) console.error("Usage recording failed", metrics.requestId, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Chat routes that store a turn; with an Idempotency-Key header, a retried request does not store it twice.
+ * /v1/chat/completions is not one: replays and retries answer in this API's envelope, not OpenAI's. A retry
+ * there stores its turn again, but the failed attempt's turn is marked and left out of later prompts.
+ */
+const IDEMPOTENT_ROUTES = new Set(["/api/chat", "/api/messages/edit", "/api/messages/regenerate"]);
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/** Idempotency-Key of a request passed on by withIdempotency, for the route to record on the user message it stores. */
+const requestKeys = new WeakMap<Request, string>();
+
+/**
+ * Idempotency-Key support for IDEMPOTENT_ROUTES. The first request with a key runs and its successful reply
+ * is stored in the session; a retry with the same key and body gets that reply again (as JSON or as a
+ * `token` and `done` stream, whichever it asks for) without calling the model. A retry after a failed attempt
+ * runs again, regenerating the reply to the user message the attempt stored rather than adding another.
+ * A retry while the first attempt is still running, or a key reused for a different request, is a 409.
+ */
+function withIdempotency(handler: ObservedHandler): ObservedHandler {
+  return async (request, env, ctx, metrics) => {
+    const url = new URL(request.url);
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (key === null || request.method !== "POST" || !IDEMPOTENT_ROUTES.has(url.pathname)) {
+      return handler(request, env, ctx, metrics);
+    }
+    const corsHeaders = { "Access-Control-Allow-Origin": "*" };
+    if (key.length < 1 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return jsonResponse(
+        {
+          ok: false,
+          error: {
+            code: "validation_error",
+            message: `${IDEMPOTENCY_KEY_HEADER} must be 1..${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+          },
+        },
+        400,
+        corsHeaders
+      );
+    }
+    // Bodies the route would reject anyway are left to it.
+    const text = await request.clone().text();
+    let body: { sessionId?: unknown; stream?: unknown } | null;
+    try {
+      body = JSON.parse(text) as { sessionId?: unknown; stream?: unknown } | null;
+    } catch {
+      return handler(request, env, ctx, metrics);
+    }
+    const sessionId = typeof body?.sessionId === "string" ? body.sessionId.trim() : "";
+    if (sessionId.length < 8) return handler(request, env, ctx, metrics);
+    const auth = await requireSession(request, env, corsHeaders, sessionId);
+    if (auth instanceof Response) return auth;
+
+    const stub = getDOStub(env, sessionId);
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${url.pathname}\n${text}`));
+    const fingerprint = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+    const claimRes = await doRequest(stub, { type: "claimRequestKey", key, fingerprint, now: Date.now() });
+    if (!claimRes.ok) return jsonResponse({ ok: false, error: claimRes.error }, 500, corsHeaders);
+    const claim = claimRes.data;
+    const conflict = (message: string) =>
+      jsonResponse({ ok: false, error: { code: "conflict", message } }, 409, corsHeaders);
+    if (claim.state === "pending") return conflict(`A request with this ${IDEMPOTENCY_KEY_HEADER} is in progress`);
+    if (claim.state === "mismatch") {
+      return conflict(`${IDEMPOTENCY_KEY_HEADER} was already used for a different request`);
+    }
+    const stream = body?.stream === true || (request.headers.get("Accept") ?? "").includes("text/event-stream");
+    if (claim.state === "done") {
+      const replayed = {
+        ...corsHeaders,
+        [IDEMPOTENT_REPLAYED_HEADER]: "true",
+        "Access-Control-Expose-Headers": IDEMPOTENT_REPLAYED_HEADER,
+      };
+      const data = JSON.parse(claim.body) as { reply?: string };
+      if (!stream) return jsonResponse({ ok: true, data }, claim.status, replayed);
+      const events = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encodeSSE("token", { token: data.reply ?? "" }));
+          controller.enqueue(encodeSSE("done", data));
+          controller.close();
+        },
+      });
+      return new Response(events, { status: 200, headers: { ...SSE_HEADERS, ...replayed } });
+    }
+
+    // An earlier attempt stored the user message before failing: answer that one instead of storing it again.
+    let forwarded = request;
+    if (claim.userMessageId !== null && url.pathname !== "/api/messages/regenerate") {
+      forwarded = new Request(new URL("/api/messages/regenerate", url), {
+        method: "POST",
+        headers: request.headers,
+        body: JSON.stringify({ ...body, messageId: claim.userMessageId }),
+      });
+    }
+    requestKeys.set(forwarded, key);
+
+    const settle = (data: unknown) =>
+      doRequest(stub, {
+        type: "settleRequestKey",
+        key,
+        response: data === null ? null : { status: 200, body: JSON.stringify(data) },
+        now: Date.now(),
+      })
+        .then((res) => {
+          if (!res.ok) throw new Error(res.error.message);
+        })
+        .catch((e) => console.error("settleRequestKey failed", metrics.requestId, e instanceof Error ? e.message : e));
+    let response: Response;
+    try {
+      response = await handler(forwarded, env, ctx, metrics);
+    } catch (e) {
+      await settle(null);
+      throw e;
+    }
+    // The response ends only once the key is settled, so a retry sent right after it sees the outcome.
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (response.status !== 200 || !response.body) {
+      await settle(null);
+    } else if (contentType.includes("text/event-stream")) {
+      // Settled from a copy of the stream, which is read to the end even if the client goes away.
+      const [client, copy] = response.body.tee();
+      const settled = readFinalEvent(copy).then((last) => settle(last?.event === "done" ? last.data : null));
+      ctx.waitUntil(settled);
+      return new Response(client.pipeThrough(new TransformStream({ flush: () => settled })), response);
+    } else {
+      const result = (await response.clone().json()) as { data?: unknown };
+      await settle(result.data ?? null);
+    }
+    return response;
+  };
+}
+
+function getLimiterStub(env: Env, key: string): RpcStub<RateLimiterApi> {
+  return rpcStub(env.RATE_LIMITER, key);
+}
+
+export default {
+  fetch: observeRequests(withIdempotency(async (request, env, ctx, metrics): Promise<Response> => {
+    const url = new URL(request.url);
+    const config = getConfig(env);
+    const corsHeaders = { "Access-Control-Allow-Origin": "*" };
+
+    if (request.method === "OPTIONS") {
+      return new Response(null, {
+        status: 204,
+        headers: {
+          "Access-Control-Allow-Origin": "*",
+          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+          "Access-Control-Allow-Headers": `Content-Type, Authorization, ${IDEMPOTENCY_KEY_HEADER}`,
+          "Access-Control-Max-Age": "86400",
+        },
+      });
+    }
+
+    if (url.pathname === "/api/session" && request.method === "POST") {
+      if (!env.SESSION_SECRET) {
+        return jsonResponse(
+          { ok: false, error: { code: "internal", message: "SESSION_SECRET is not configured" } },
+          500,
+          corsHeaders
+        );
+      }
+      const limited = await checkRateLimit(
+        env,
+        rateLimitKeys(request, null),
+        config,
+        { messages: 0, tokens: 0 },
+        corsHeaders
+      );
+      if (limited) return limited;
+
+      const created = await createSession(env, corsHeaders, await tokenOwner(request, env));
+      if (created instanceof Response) return created;
+      return jsonResponse({ ok: true, data: created }, 200, corsHeaders);
+    }
+
+    if (url.pathname === "/api/import" && request.method === "POST") {
+      if (!env.SESSION_SECRET) {
+        return jsonResponse(
+          { ok: false, error: { code: "internal", message: "SESSION_SECRET is not configured" } },
+          500,
+          corsHeaders
+        );
+      }
+      const invalid = (message: string) =>
+        jsonResponse({ ok: false, error: { code: "validation_error", message } }, 400, corsHeaders);
+      const formatParam = url.searchParams.get("format");
+      if (formatParam !== null && !isExportFormat(formatParam)) {
+        return invalid(`format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+      }
+      const limited = await checkRateLimit(
+        env,
+        rateLimitKeys(request, null),
+        config,
+        { messages: 0, tokens: 0 },
+        corsHeaders
+      );
+      if (limited) return limited;
+
+      // Either a multipart upload (field "file") or the export itself as the request body.
+      let text: string;
+      if ((request.headers.get("Content-Type") ?? "").startsWith("multipart/form-data")) {
+        let raw: FormDataEntryValue | null;
+        try {
+          raw = (await request.formData()).get("file");
+        } catch {
+          return jsonResponse(
+            { ok: false, error: { code: "bad_request", message: "Invalid multipart body" } },
+            400,
+            corsHeaders
+          );
+        }
+        if (!raw || typeof raw === "string") return invalid("Missing or invalid file field (use field name 'file')");
+        if ((raw as File).size > MAX_IMPORT_BYTES) return invalid("Export too large. Maximum size is 5 MB.");
+        text = await (raw as File).text();
+      } else {
+        if (Number(request.headers.get("Content-Length") ?? 0) > MAX_IMPORT_BYTES) {
+          return invalid("Export too large. Maximum size is 5 MB.");
+        }
+        text = await request.text();
+        if (text.length > MAX_IMPORT_BYTES) return invalid("Export too large. Maximum size is 5 MB.");
+      }
+      const parsed = parseImport(
+        text,
+        formatParam,
+        config.models,
+        getDefaultModel(config.models, config.defaultModelId),
+        Date.now()
+      );
+      if (typeof parsed === "string") return invalid(parsed);
+      // Imports run the detectors only: a classifier call per message would not scale to whole sessions.
+      const importEvents: ModerationEvent[] = [];
+      for (const m of parsed.data.messages) {
+        const result = scanText(m.content, config.moderation);
+        if (result.outcome === "block") return contentBlocked(`Message ${m.id}`, result, corsHeaders);
+        m.content = result.text;
+        const event = moderationEvent(result, "import", { messageId: m.id });
+        if (event) importEvents.push(event);
+      }
+      if (parsed.data.summary) {
+        const result = scanText(parsed.data.summary, config.moderation);
+        if (result.outcome === "block") return contentBlocked("Summary", result, corsHeaders);
+        parsed.data.summary = result.text;
+      }
+
+      const owner = (await tokenOwner(request, env)) ?? crypto.randomUUID();
+      const created = await createSession(env, corsHeaders, owner);
+      if (created instanceof Response) return created;
+      const importRes = await doRequest(getDOStub(env, created.sessionId), {
+        type: "importSession",
+        data: parsed.data,
+      });
+      if (!importRes.ok || !importRes.data) {
+        const error = importRes.ok ? { code: "internal", message: "New session already has messages" } : importRes.error;
+        return jsonResponse({ ok: false, error }, 500, corsHeaders);
+      }
+      ctx.waitUntil(recordModeration(env, created.sessionId, importEvents));
+      await syncDirectory(env, owner, created.sessionId);
+      return jsonResponse(
+        { ok: true, data: { ...created, messages: importRes.data.messages, warnings: parsed.warnings } },
+        200,
+        corsHeaders
+      );
+    }
+
+    if (url.pathname === "/api/sessions" && request.method === "GET") {
+      const limitParam = url.searchParams.get("limit");
+      const offsetParam = url.searchParams.get("offset");
+      const limit = limitParam === null ? DEFAULT_SESSIONS_PAGE : parseInt(limitParam, 10);
+      const offset = offsetParam === null ? 0 : parseInt(offsetParam, 10);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SESSIONS_PAGE) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: `limit must be an integer, 1..${MAX_SESSIONS_PAGE}` } },
+          400,
+          corsHeaders
+        );
+      }
+      if (!Number.isInteger(offset) || offset < 0) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "offset must be a non-negative integer" } },
+          400,
+          corsHeaders
+        );
+      }
+      const auth = await requireSession(request, env, corsHeaders);
+      if (auth instanceof Response) return auth;
+      const listRes = await doRequest(getDirectoryStub(env, auth.own), {
+        type: "listSessions",
+        limit,
+        offset,
+      });
+      if (!listRes.ok) {
+        return jsonResponse({ ok: false, error: listRes.error }, 500, corsHeaders);
+      }
+      return jsonResponse({ ok: true, data: listRes.data }, 200, corsHeaders);
+    }
+
+    if (url.pathname === "/api/sessions/search" && request.method === "GET") {
+      const q = url.searchParams.get("q")?.trim() ?? "";
+      if (q.length < 1 || q.length > 200) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "q query param required, length 1..200" } },
+          400,
+          corsHeaders
+        );
+      }
+      const limitParam = url.searchParams.get("limit");
+      const limit = limitParam === null ? DEFAULT_SEARCH_RESULTS : parseInt(limitParam, 10);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: `limit must be an integer, 1..${MAX_SEARCH_RESULTS}` } },
+          400,
+          corsHeaders
+        );
+      }
+      const auth = await requireSession(request, env, corsHeaders);
+      if (auth instanceof Response) return auth;
+      const searchRes = await doRequest(getDirectoryStub(env, auth.own), {
+        type: "searchSessions",
+        query: q,
+        limit,
+      });
+      if (!searchRes.ok) {
+        return jsonResponse({ ok: false, error: searchRes.error }, 500, corsHeaders);
+      }
+      return jsonResponse({ ok: true, data: { results: searchRes.data } }, 200, corsHeaders);
+    }
+
+    if (
+      (url.pathname === "/api/sessions/open" ||
+        url.pathname === "/api/sessions/rename" ||
+        url.pathname === "/api/sessions/delete") &&
+      request.method === "POST"
+    ) {
+      let body: { sessionId?: string; title?: string };
+      try {
+        body = (await request.json()) as { sessionId?: string; title?: string };
+      } catch {
+        return jsonResponse({ ok: false, error: { code: "bad_request", message: "Invalid JSON" } }, 400, corsHeaders);
+      }
+      const sessionId = typeof body.sessionId === "string" ? body.sessionId.trim() : "";
+      if (sessionId.length < 8) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "sessionId required, min length 8" } },
+          400,
+          corsHeaders
+        );
+      }
+      const title = typeof body.title === "string" ? body.title.trim() : "";
+      if (url.pathname === "/api/sessions/rename" && (title.length < 1 || title.length > MAX_TITLE_LENGTH)) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: `title required, length 1..${MAX_TITLE_LENGTH}` } },
+          400,
+          corsHeaders
+        );
+      }
+      const auth = await requireOwnedSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const directory = getDirectoryStub(env, auth.own);
+
+      if (url.pathname === "/api/sessions/open") {
+        // Switching sessions needs a token issued for the target session.
+        const token = await signSessionToken({ sid: sessionId, own: auth.own, iat: Date.now() }, env.SESSION_SECRET!);
+        return jsonResponse({ ok: true, data: { sessionId, token } }, 200, corsHeaders);
+      }
+
+      if (url.pathname === "/api/sessions/rename") {
+        // Sessions created before the directory existed get their row first.
+        await syncDirectory(env, auth.own, sessionId);
+        const renameRes = await doRequest(directory, { type: "renameSession", sessionId, title });
+        if (!renameRes.ok) {
+          return jsonResponse({ ok: false, error: renameRes.error }, 500, corsHeaders);
+        }
+        if (!renameRes.data) {
+          return jsonResponse(
+            { ok: false, error: { code: "not_found", message: "Session not found" } },
+            404,
+            corsHeaders
+          );
+        }
+        return jsonResponse({ ok: true, data: { session: renameRes.data } }, 200, corsHeaders);
+      }
+
+      // Hard delete: the session's storage, its R2 objects and vectors, then its directory entry.
+      const deleteRes = await doRequest(getDOStub(env, sessionId), { type: "deleteSession" });
+      if (!deleteRes.ok) {
+        return jsonResponse({ ok: false, error: deleteRes.error }, 500, corsHeaders);
+      }
+      const attachments = deleteRes.data;
+      if (attachments.length > 0) {
+        await env.BUCKET.delete(attachmentKeys(attachments));
+        for (const a of attachments) await deleteDocument(getVectorIndex(env), a.fileId, a.chunks);
+      }
+      const removeRes = await doRequest(directory, { type: "removeSession", sessionId });
+      if (!removeRes.ok) {
+        return jsonResponse({ ok: false, error: removeRes.error }, 500, corsHeaders);
+      }
+      return jsonResponse(
+        { ok: true, data: { deleted: true, attachments: attachments.length } },
+        200,
+        corsHeaders
+      );
+    }
+
+    if (url.pathname === "/api/upload" && request.method === "POST") {
+      const auth = await requireSession(request, env, corsHeaders);
+      if (auth instanceof Response) return auth;
+      let formData: FormData;
+      try {
+        formData = await request.formData();
+      } catch {
+        return jsonResponse(
+          { ok: false, error: { code: "bad_request", message: "Invalid multipart body" } },
+          400,
+          corsHeaders
+        );
+      }
+      const raw = formData.get("file");
+      if (!raw || typeof raw === "string") {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "Missing or invalid file field (use field name 'file')" } },
+          400,
+          corsHeaders
+        );
+      }
+      const file = raw as File;
+      const ext = getFileExtension(file.name);
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "File too large. Maximum size is 10 MB." } },
+          400,
+          corsHeaders
+        );
+      }
+      // The type comes from the file's bytes (checked against its extension), never from the client.
+      const original = await file.arrayBuffer();
+      let doc: ExtractedDocument;
+      try {
+        doc = await extractDocument(new Uint8Array(original), file.name);
+      } catch (e) {
+        if (!(e instanceof ExtractionError)) throw e;
+        return jsonResponse({ ok: false, error: { code: "validation_error", message: e.message } }, 400, corsHeaders);
+      }
+      const text = doc.text;
+      if (new TextEncoder().encode(text).byteLength > MAX_TEXT_BYTES) {
+        const message = `${doc.converted ? "Extracted text" : "Text file"} too large. Maximum is 1 MB.`;
+        return jsonResponse({ ok: false, error: { code: "validation_error", message } }, 400, corsHeaders);
+      }
+      const moderation = await moderate(env.AI, config.moderation, { text, source: "upload" });
+      if (moderation.outcome === "block") {
+        await recordModeration(env, auth.sid, [moderationEvent(moderation, "upload")]);
+        return contentBlocked("File", moderation, corsHeaders);
+      }
+      // Converted documents keep the original next to their text. Redactions apply to what is stored, so R2
+      // never holds unredacted content: a redacted text file is stored redacted, and a redacted document's
+      // original is not kept at all.
+      const redacted = moderation.text !== text;
+      const fileId = crypto.randomUUID();
+      const safeName = sanitizeFilename(file.name) || "file" + ext;
+      const key = `uploads/${fileId}-${safeName}`;
+      const textKey = doc.converted ? `${key}.txt` : key;
+      const r2Key = doc.converted && redacted ? textKey : key;
+      const textType = "text/plain; charset=utf-8";
+      // The attachment's type is that of the object at r2Key, which is the text when the original is not kept.
+      const contentType = r2Key === textKey && doc.converted ? textType : doc.contentType;
+      const customMetadata = { originalName: file.name, sessionId: auth.sid };
+      const textBody = redacted || doc.converted ? new TextEncoder().encode(moderation.text) : original;
+      let size = textBody.byteLength;
+      try {
+        await env.BUCKET.put(textKey, textBody, {
+          httpMetadata: { contentType: doc.converted ? textType : contentType },
+          customMetadata,
+        });
+        if (r2Key !== textKey) {
+          await env.BUCKET.put(r2Key, original, { httpMetadata: { contentType }, customMetadata });
+          size = original.byteLength;
+        }
+      } catch (e) {
+        // A text object left behind by a failed original is unreferenced; the upload sweep removes it.
+        const msg = e instanceof Error ? e.message : "Upload failed";
+        return jsonResponse({ ok: false, error: { code: "upload_error", message: msg } }, 500, corsHeaders);
+      }
+      // Indexing failures leave the file usable; chat then falls back to the raw content.
+      let chunks = 0;
+      try {
+        chunks = await indexDocument(env.AI, getVectorIndex(env), {
+          sessionId: auth.sid,
+          fileId,
+          text: moderation.text,
+        });
+      } catch (e) {
+        console.error("indexDocument failed", fileId, e instanceof Error ? e.message : e);
+      }
+      const attachment: AttachmentRow = {
+        fileId,
+        name: file.name,
+        size,
+        contentType,
+        uploadedAt: Date.now(),
+        r2Key,
+        textKey,
+        chunks,
+      };
+      const addRes = await doRequest(getDOStub(env, auth.sid), { type: "addAttachment", attachment });
+      if (!addRes.ok) {
+        await env.BUCKET.delete(attachmentKeys([attachment]));
+        await deleteDocument(getVectorIndex(env), fileId, chunks);
+        return jsonResponse({ ok: false, error: addRes.error }, 500, corsHeaders);
+      }
+      ctx.waitUntil(recordModeration(env, auth.sid, [moderationEvent(moderation, "upload", { fileId })]));
+      return jsonResponse(
+        {
+          ok: true,
+          data: {
+            fileId,
+            filename: file.name,
+            contentType,
+            kind: doc.kind,
+            size: attachment.size,
+            textChars: moderation.text.length,
+            chunks,
+            moderation: moderation.outcome,
+          },
+        },
+        200,
+        corsHeaders
+      );
+    }
+
+    if (url.pathname === "/api/file" && request.method === "GET") {
+      const auth = await requireSession(request, env, corsHeaders);
+      if (auth instanceof Response) return auth;
+      const fileId = url.searchParams.get("fileId")?.trim();
+      if (!fileId) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "fileId query parameter required" } },
+          400,
+          corsHeaders
+        );
+      }
+      const attachmentRes = await doRequest(getDOStub(env, auth.sid), {
+        type: "getAttachment",
+        fileId,
+      });
+      if (!attachmentRes.ok) {
+        return jsonResponse({ ok: false, error: attachmentRes.error }, 500, corsHeaders);
+      }
+      const attachment = attachmentRes.data;
+      const r2Object = attachment ? await env.BUCKET.get(attachment.textKey) : null;
+      if (!attachment || !r2Object) {
+        return jsonResponse(
+          { ok: false, error: { code: "not_found", message: "File not found in this session" } },
+          404,
+          corsHeaders
+        );
+      }
+      const content = await readTextCapped(r2Object, FILE_RESPONSE_CAP_BYTES);
+      return jsonResponse(
+        { ok: true, data: { fileId, filename: attachment.name, content } },
+        200,
+        corsHeaders
+      );
+    }
+
+    if (url.pathname === "/api/attachments" && request.method === "GET") {
+      const sessionId = url.searchParams.get("sessionId")?.trim() ?? "";
+      if (sessionId.length < 8) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "sessionId query param required, min length 8" } },
+          400,
+          corsHeaders
+        );
+      }
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const listRes = await doRequest(getDOStub(env, sessionId), { type: "listAttachments" });
+      if (!listRes.ok) {
+        return jsonResponse({ ok: false, error: listRes.error }, 500, corsHeaders);
+      }
+      return jsonResponse({ ok: true, data: { attachments: listRes.data } }, 200, corsHeaders);
+    }
+
+    if (
+      (url.pathname === "/api/attachments/rename" || url.pathname === "/api/attachments/delete") &&
+      request.method === "POST"
+    ) {
+      let body: { sessionId?: string; fileId?: string; name?: string };
+      try {
+        body = (await request.json()) as { sessionId?: string; fileId?: string; name?: string };
+      } catch {
+        return jsonResponse({ ok: false, error: { code: "bad_request", message: "Invalid JSON" } }, 400, corsHeaders);
+      }
+      const sessionId = typeof body.sessionId === "string" ? body.sessionId.trim() : "";
+      const fileId = typeof body.fileId === "string" ? body.fileId.trim() : "";
+      if (sessionId.length < 8) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "sessionId required, min length 8" } },
+          400,
+          corsHeaders
+        );
+      }
+      if (!fileId) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "fileId required" } },
+          400,
+          corsHeaders
+        );
+      }
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const stub = getDOStub(env, sessionId);
+
+      let res: DOResult<AttachmentRow | null>;
+      if (url.pathname === "/api/attachments/rename") {
+        const name = typeof body.name === "string" ? body.name.trim() : "";
+        if (name.length < 1 || name.length > 200) {
+          return jsonResponse(
+            { ok: false, error: { code: "validation_error", message: "name required, length 1..200" } },
+            400,
+            corsHeaders
+          );
+        }
+        res = await doRequest(stub, { type: "renameAttachment", fileId, name });
+      } else {
+        res = await doRequest(stub, { type: "deleteAttachment", fileId });
+        if (res.ok && res.data) {
+          await env.BUCKET.delete(attachmentKeys([res.data]));
+          await deleteDocument(getVectorIndex(env), fileId, res.data.chunks);
+        }
+      }
+      if (!res.ok) {
+        return jsonResponse({ ok: false, error: res.error }, 500, corsHeaders);
+      }
+      if (!res.data) {
+        return jsonResponse(
+          { ok: false, error: { code: "not_found", message: "File not found in this session" } },
+          404,
+          corsHeaders
+        );
+      }
+      return jsonResponse({ ok: true, data: { attachment: res.data } }, 200, corsHeaders);
+    }
+
+    if (url.pathname === "/api/moderation/events" && request.method === "GET") {
+      const sessionId = url.searchParams.get("sessionId")?.trim() ?? "";
+      if (sessionId.length < 8) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "sessionId query param required, min length 8" } },
+          400,
+          corsHeaders
+        );
+      }
+      const limitParam = url.searchParams.get("limit");
+      const limit = limitParam === null ? DEFAULT_MODERATION_EVENTS : parseInt(limitParam, 10);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MODERATION_EVENTS) {
+        return jsonResponse(
+          {
+            ok: false,
+            error: { code: "validation_error", message: `limit must be an integer, 1..${MAX_MODERATION_EVENTS}` },
+          },
+          400,
+          corsHeaders
+        );
+      }
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const eventsRes = await doRequest(getDOStub(env, sessionId), {
+        type: "listModerationEvents",
+        limit,
+      });
+      if (!eventsRes.ok) {
+        return jsonResponse({ ok: false, error: eventsRes.error }, 500, corsHeaders);
+      }
+      return jsonResponse({ ok: true, data: { events: eventsRes.data } }, 200, corsHeaders);
+    }
+
+    if (url.pathname === "/api/admin/stats" && request.method === "GET") {
+      // Without ADMIN_TOKEN the admin API does not exist.
+      if (!env.ADMIN_TOKEN) {
+        return jsonResponse({ ok: false, error: { code: "not_found", message: "Not found" } }, 404, corsHeaders);
+      }
+      const token = getBearerToken(request);
+      if (!token || !(await secretsEqual(token, env.ADMIN_TOKEN))) {
+        return jsonResponse(
+          { ok: false, error: { code: "unauthorized", message: "Admin token required (Authorization: Bearer <token>)" } },
+          401,
+          corsHeaders
+        );
+      }
+      const sessionId = url.searchParams.get("sessionId")?.trim();
+      if (sessionId) {
+        const usageRes = await doRequest(getDOStub(env, sessionId), { type: "getUsage" });
+        if (!usageRes.ok) {
+          return jsonResponse({ ok: false, error: usageRes.error }, 500, corsHeaders);
+        }
+        return jsonResponse({ ok: true, data: { sessionId, usage: usageRes.data } }, 200, corsHeaders);
+      }
+      const daysParam = url.searchParams.get("days");
+      const days = daysParam === null ? DEFAULT_STATS_DAYS : parseInt(daysParam, 10);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_STATS_DAYS) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: `days must be an integer, 1..${MAX_STATS_DAYS}` } },
+          400,
+          corsHeaders
+        );
+      }
+      const now = Date.now();
+      const shardRes = await Promise.all(
+        Array.from({ length: USAGE_STATS_SHARDS }, (_, i) =>
+          doRequest(getStatsStub(env, i), { type: "getStats", days, now })
+        )
+      );
+      const parts: UsageStats[] = [];
+      for (const res of shardRes) {
+        if (!res.ok) return jsonResponse({ ok: false, error: res.error }, 500, corsHeaders);
+        parts.push(res.data);
+      }
+      return jsonResponse({ ok: true, data: mergeUsageStats(parts) }, 200, corsHeaders);
+    }
+
+    if (url.pathname === "/api/models" && request.method === "GET") {
+      const auth = await requireSession(request, env, corsHeaders);
+      if (auth instanceof Response) return auth;
+      const defaultModel = getDefaultModel(config.models, config.defaultModelId);
+      return jsonResponse(
+        { ok: true, data: { models: config.models, defaultModel: defaultModel.id } },
+        200,
+        corsHeaders
+      );
+    }
+
+    if (url.pathname === "/api/settings" && (request.method === "GET" || request.method === "POST")) {
+      let sessionId: string;
+      let update: Record<string, unknown> = {};
+      if (request.method === "GET") {
+        sessionId = url.searchParams.get("sessionId")?.trim() ?? "";
+      } else {
+        try {
+          update = (await request.json()) as Record<string, unknown>;
+        } catch {
+          return jsonResponse({ ok: false, error: { code: "bad_request", message: "Invalid JSON" } }, 400, corsHeaders);
+        }
+        sessionId = typeof update.sessionId === "string" ? update.sessionId.trim() : "";
+      }
+      if (sessionId.length < 8) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "sessionId required, min length 8" } },
+          400,
+          corsHeaders
+        );
+      }
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const stub = getDOStub(env, sessionId);
+      const currentRes = await doRequest(stub, { type: "getSettings" });
+      if (!currentRes.ok) {
+        return jsonResponse({ ok: false, error: currentRes.error }, 500, corsHeaders);
+      }
+      let stored = currentRes.data;
+      if (request.method === "POST") {
+        const { model, systemPrompt, temperature, maxTokens } = update;
+        const merged = mergeSettings(
+          stored,
+          { model, systemPrompt, temperature, maxTokens },
+          config.models,
+          getDefaultModel(config.models, config.defaultModelId)
+        );
+        if (typeof merged === "string") {
+          return jsonResponse({ ok: false, error: { code: "validation_error", message: merged } }, 400, corsHeaders);
+        }
+        const setRes = await doRequest(stub, { type: "setSettings", settings: merged });
+        if (!setRes.ok) {
+          return jsonResponse({ ok: false, error: setRes.error }, 500, corsHeaders);
+        }
+        stored = merged;
+      }
+      return jsonResponse(
+        { ok: true, data: { settings: stored, active: describeSettings(sessionSettings(stored, config)) } },
+        200,
+        corsHeaders
+      );
+    }
+
+    if (url.pathname === "/api/profile" && (request.method === "GET" || request.method === "POST")) {
+      let update: Record<string, unknown> = {};
+      if (request.method === "POST") {
+        try {
+          update = (await request.json()) as Record<string, unknown>;
+        } catch {
+          return jsonResponse({ ok: false, error: { code: "bad_request", message: "Invalid JSON" } }, 400, corsHeaders);
+        }
+        if (typeof update !== "object" || update === null || Array.isArray(update)) {
+          return jsonResponse(
+            { ok: false, error: { code: "bad_request", message: "Body must be a JSON object" } },
+            400,
+            corsHeaders
+          );
+        }
+      }
+      const auth = await requireSession(request, env, corsHeaders);
+      if (auth instanceof Response) return auth;
+      const directory = getDirectoryStub(env, auth.own);
+      const profileRes =
+        request.method === "POST"
+          ? await doRequest(directory, { type: "updateProfile", update })
+          : await doRequest(directory, { type: "getProfile" });
+      if (!profileRes.ok) {
+        return jsonResponse(
+          { ok: false, error: profileRes.error },
+          profileRes.error.code === "internal" ? 500 : 400,
+          corsHeaders
+        );
+      }
+      return jsonResponse({ ok: true, data: profileRes.data }, 200, corsHeaders);
+    }
 
-    if (request.method === "OPTIONS") {
-      return new Response(null, {
-        status: 204,
-        headers: {
-          "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type",
-          "Access-Control-Max-Age": "86400",
-        },
-      });
+    if (url.pathname === "/api/live/ticket" && request.method === "POST") {
+      const auth = await requireSession(request, env, corsHeaders);
+      if (auth instanceof Response) return auth;
+      const now = Date.now();
+      const ticket = await signLiveTicket({ sid: auth.sid, own: auth.own, iat: now }, env.SESSION_SECRET!);
+      return jsonResponse(
+        { ok: true, data: { sessionId: auth.sid, ticket, expiresAt: now + LIVE_TICKET_TTL_MS } },
+        200,
+        corsHeaders
+      );
     }
 
-    if (url.pathname === "/api/upload" && request.method === "POST") {
-      let formData: FormData;
-      try {
-        formData = await request.formData();
-      } catch {
+    if (url.pathname === "/api/live" && request.method === "GET") {
+      if (request.headers.get("Upgrade")?.toLowerCase() !== "websocket") {
         return jsonResponse(
-          { ok: false, error: { code: "bad_request", message: "Invalid multipart body" } },
-          400,
+          { ok: false, error: { code: "bad_request", message: "Expected a WebSocket upgrade" } },
+          426,
           corsHeaders
         );
       }
-      const raw = formData.get("file");
-      if (!raw || typeof raw === "string") {
+      const sessionId = url.searchParams.get("sessionId")?.trim() ?? "";
+      if (sessionId.length < 8) {
         return jsonResponse(
-          { ok: false, error: { code: "validation_error", message: "Missing or invalid file field (use field name 'file')" } },
+          { ok: false, error: { code: "validation_error", message: "sessionId query param required, min length 8" } },
           400,
           corsHeaders
         );
       }
-      const file = raw as File;
-      const ext = getFileExtension(file.name);
-      if (!ALLOWED_EXTENSIONS.includes(ext)) {
+      const auth = await requireLiveTicket(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      return getDOStub(env, sessionId).fetch("https://do/live", {
+        headers: { Upgrade: "websocket", [LIVE_NAME_HEADER]: encodeURIComponent(liveName(url.searchParams.get("name"))) },
+      });
+    }
+
+    if (url.pathname === "/api/messages" && request.method === "GET") {
+      const sessionId = url.searchParams.get("sessionId")?.trim() ?? "";
+      if (sessionId.length < 8) {
         return jsonResponse(
-          { ok: false, error: { code: "validation_error", message: "Only .txt, .md, and .json files are allowed" } },
+          { ok: false, error: { code: "validation_error", message: "sessionId query param required, min length 8" } },
           400,
           corsHeaders
         );
       }
-      if (file.size > MAX_UPLOAD_BYTES) {
+      const limitParam = url.searchParams.get("limit");
+      const limit = limitParam === null ? DEFAULT_MESSAGES_PAGE : parseInt(limitParam, 10);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MESSAGES_PAGE) {
         return jsonResponse(
-          { ok: false, error: { code: "validation_error", message: "File too large. Maximum size is 1 MB." } },
+          { ok: false, error: { code: "validation_error", message: `limit must be an integer, 1..${MAX_MESSAGES_PAGE}` } },
           400,
           corsHeaders
         );
       }
-      const fileId = crypto.randomUUID();
-      const safeName = sanitizeFilename(file.name) || "file" + ext;
-      const key = `uploads/${fileId}-${safeName}`;
-      const body = await file.arrayBuffer();
-      try {
-        await env.BUCKET.put(key, body, {
-          httpMetadata: { contentType: file.type || "text/plain" },
-          customMetadata: { originalName: file.name },
-        });
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : "Upload failed";
-        return jsonResponse({ ok: false, error: { code: "upload_error", message: msg } }, 500, corsHeaders);
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const listRes = await doRequest(getDOStub(env, sessionId), { type: "getRecentMessages", limit });
+      if (!listRes.ok) {
+        return jsonResponse({ ok: false, error: listRes.error }, 500, corsHeaders);
       }
-      return jsonResponse(
-        {
-          ok: true,
-          data: { fileId, filename: file.name, contentType: file.type || "text/plain", size: file.size },
-        },
-        200,
-        corsHeaders
-      );
+      const leafId = listRes.data.length > 0 ? listRes.data[listRes.data.length - 1].id : null;
+      return jsonResponse({ ok: true, data: { leafId, messages: listRes.data } }, 200, corsHeaders);
     }
 
-    if (url.pathname === "/api/file" && request.method === "GET") {
-      const fileId = url.searchParams.get("fileId")?.trim();
-      if (!fileId) {
+    if (url.pathname === "/api/branches/switch" && request.method === "POST") {
+      let body: { sessionId?: string; messageId?: unknown };
+      try {
+        body = (await request.json()) as { sessionId?: string; messageId?: unknown };
+      } catch {
+        return jsonResponse({ ok: false, error: { code: "bad_request", message: "Invalid JSON" } }, 400, corsHeaders);
+      }
+      const sessionId = typeof body.sessionId === "string" ? body.sessionId.trim() : "";
+      if (sessionId.length < 8) {
         return jsonResponse(
-          { ok: false, error: { code: "validation_error", message: "fileId query parameter required" } },
+          { ok: false, error: { code: "validation_error", message: "sessionId required, min length 8" } },
           400,
           corsHeaders
         );
       }
-      const list = await env.BUCKET.list({ prefix: `uploads/${fileId}-`, limit: 1 });
-      const obj = list.objects[0];
-      if (!obj) {
+      if (!Number.isInteger(body.messageId) || (body.messageId as number) < 1) {
         return jsonResponse(
-          { ok: false, error: { code: "not_found", message: "File not found" } },
-          404,
+          { ok: false, error: { code: "validation_error", message: "messageId required (positive integer)" } },
+          400,
           corsHeaders
         );
       }
-      const r2Object = await env.BUCKET.get(obj.key);
-      if (!r2Object) {
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const switchRes = await doRequest(getDOStub(env, sessionId), {
+        type: "switchBranch",
+        messageId: body.messageId as number,
+      });
+      if (!switchRes.ok) {
+        return jsonResponse({ ok: false, error: switchRes.error }, 500, corsHeaders);
+      }
+      if (switchRes.data.leafId === null) {
         return jsonResponse(
-          { ok: false, error: { code: "not_found", message: "File not found" } },
+          { ok: false, error: { code: "not_found", message: `Message ${body.messageId} not found in this session` } },
           404,
           corsHeaders
         );
       }
-      const originalName = (r2Object.customMetadata?.originalName as string) || obj.key.replace(/^uploads\/[^-]+-/, "");
-      let content: string;
-      const stream = r2Object.body;
-      const cap = Math.min(r2Object.size, FILE_RESPONSE_CAP_BYTES);
-      const buf = new Uint8Array(cap);
-      let offset = 0;
-      const reader = stream.getReader();
-      try {
-        while (offset < cap) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const chunk = value.slice(0, cap - offset);
-          buf.set(chunk, offset);
-          offset += chunk.length;
-        }
-      } finally {
-        reader.releaseLock();
-      }
-      const decoder = new TextDecoder("utf-8", { fatal: false });
-      content = decoder.decode(buf.slice(0, offset));
-      return jsonResponse(
-        { ok: true, data: { fileId, filename: originalName, content } },
-        200,
-        corsHeaders
-      );
+      return jsonResponse({ ok: true, data: { leafId: switchRes.data.leafId } }, 200, corsHeaders);
     }
 
-    if (url.pathname === "/api/chat" && request.method === "POST") {
-      let body: { sessionId?: string; message?: string; fileId?: string };
+    if (
+      (url.pathname === "/api/chat" ||
+        url.pathname === "/api/messages/edit" ||
+        url.pathname === "/api/messages/regenerate") &&
+      request.method === "POST"
+    ) {
+      type ChatBody = {
+        sessionId?: string;
+        message?: string;
+        messageId?: unknown;
+        fileId?: string;
+        fileIds?: unknown;
+        stream?: boolean;
+        responseSchema?: unknown;
+      };
+      let body: ChatBody;
       try {
-        body = (await request.json()) as { sessionId?: string; message?: string; fileId?: string };
+        body = (await request.json()) as ChatBody;
       } catch {
         return jsonResponse({ ok: false, error: { code: "bad_request", message: "Invalid JSON" } }, 400, corsHeaders);
       }
       const sessionId = typeof body.sessionId === "string" ? body.sessionId.trim() : "";
       const message = typeof body.message === "string" ? body.message.trim() : "";
-      const fileId = typeof body.fileId === "string" ? body.fileId.trim() : undefined;
+      const regenerate = url.pathname === "/api/messages/regenerate";
+      const messageId = Number.isInteger(body.messageId) && (body.messageId as number) > 0 ? (body.messageId as number) : 0;
+      if (url.pathname !== "/api/chat" && !messageId) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "messageId required (positive integer)" } },
+          400,
+          corsHeaders
+        );
+      }
+      if (body.fileIds !== undefined && !Array.isArray(body.fileIds)) {
+        return jsonResponse(
+          { ok: false, error: { code: "validation_error", message: "fileIds must be an array of strings" } },
+          400,
+          corsHeaders
+        );
+      }
+      const rawFileIds: unknown[] = [...((body.fileIds as unknown[] | undefined) ?? []), body.fileId];
+      const fileIds = [
+        ...new Set(rawFileIds.filter((id): id is string => typeof id === "string").map((id) => id.trim()).filter(Boolean)),
+      ];
+      if (fileIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+        return jsonResponse(
+          {
+            ok: false,
+            error: { code: "validation_error", message: `At most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments per message` },
+          },
+          400,
+          corsHeaders
+        );
+      }
+      const stream = body.stream === true || (request.headers.get("Accept") ?? "").includes("text/event-stream");
+      // Structured replies are validated as a whole, so they are neither streamed nor produced by the tool loop.
+      let responseSchema: JsonSchema | null = null;
+      if (body.responseSchema !== undefined) {
+        const error = stream ? "responseSchema cannot be combined with streaming" : checkJsonSchema(body.responseSchema);
+        if (error) {
+          return jsonResponse({ ok: false, error: { code: "validation_error", message: error } }, 400, corsHeaders);
+        }
+        responseSchema = body.responseSchema as JsonSchema;
+      }
       if (sessionId.length < 8) {
         return jsonResponse(
           { ok: false, error: { code: "validation_error", message: "sessionId required, min length 8" } },
@@ -237,7 +1777,7 @@ export default {
           corsHeaders
         );
       }
-      if (message.length < 1 || message.length > config.messageMax) {
+      if (!regenerate && (message.length < 1 || message.length > config.messageMax)) {
         return jsonResponse(
           {
             ok: false,
@@ -250,97 +1790,408 @@ export default {
           corsHeaders
         );
       }
-      if (!checkRateLimit(sessionId, config)) {
-        return jsonResponse(
-          { ok: false, error: { code: "rate_limit", message: "Too many requests; try again later" } },
-          429,
-          corsHeaders
-        );
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const stub = getDOStub(env, sessionId);
+
+      // Edits and regenerations answer from the point just before the targeted user message.
+      let target: MessageRow | null = null;
+      if (messageId) {
+        const targetRes = await doRequest(stub, { type: "getMessage", id: messageId });
+        if (!targetRes.ok) {
+          return jsonResponse({ ok: false, error: targetRes.error }, 500, corsHeaders);
+        }
+        if (!targetRes.data || targetRes.data.role !== "user") {
+          return jsonResponse(
+            { ok: false, error: { code: "not_found", message: `User message ${messageId} not found in this session` } },
+            404,
+            corsHeaders
+          );
+        }
+        target = targetRes.data;
       }
 
-      let userContentForAI = message;
-      if (fileId) {
-        const list = await env.BUCKET.list({ prefix: `uploads/${fileId}-`, limit: 1 });
-        const obj = list.objects[0];
-        if (obj) {
-          const r2Object = await env.BUCKET.get(obj.key);
-          if (r2Object) {
-            const cap = Math.min(r2Object.size, FILE_RESPONSE_CAP_BYTES);
-            const buf = new Uint8Array(cap);
-            let offset = 0;
-            const reader = r2Object.body.getReader();
-            try {
-              while (offset < cap) {
-                const { done, value } = await reader.read();
-                if (done) break;
-                const chunk = value.slice(0, cap - offset);
-                buf.set(chunk, offset);
-                offset += chunk.length;
-              }
-            } finally {
-              reader.releaseLock();
-            }
-            const fileContent = new TextDecoder("utf-8", { fatal: false }).decode(buf.slice(0, offset));
-            userContentForAI = `[Attached file]\n${fileContent}\n\n---\n\n${message}`;
-          }
+      const limitKeys = rateLimitKeys(request, sessionId);
+      const limited = await checkRateLimit(
+        env,
+        limitKeys,
+        config,
+        { messages: 1, tokens: estimateTokens(regenerate && target ? target.content : message) },
+        corsHeaders
+      );
+      if (limited) return limited;
+
+      // A regeneration answers the stored message, which was moderated when it was sent.
+      let userMessage: string;
+      let messageModeration: ModerationResult | null = null;
+      if (regenerate && target) {
+        userMessage = target.content;
+      } else {
+        messageModeration = await moderate(env.AI, config.moderation, { text: message, source: "message" });
+        if (messageModeration.outcome === "block") {
+          await recordModeration(env, sessionId, [moderationEvent(messageModeration, "message")]);
+          return contentBlocked("Message", messageModeration, corsHeaders);
         }
+        userMessage = messageModeration.text;
       }
 
-      const stub = getDOStub(env, sessionId);
-      const ts = Date.now();
+      const rows: AttachmentRow[] = [];
+      for (const fileId of fileIds) {
+        const attachmentRes = await doRequest(stub, { type: "getAttachment", fileId });
+        if (!attachmentRes.ok) {
+          return jsonResponse({ ok: false, error: attachmentRes.error }, 500, corsHeaders);
+        }
+        if (!attachmentRes.data) {
+          return jsonResponse(
+            { ok: false, error: { code: "not_found", message: `File ${fileId} not found in this session` } },
+            404,
+            corsHeaders
+          );
+        }
+        rows.push(attachmentRes.data);
+      }
 
-      const appendRes = await doRequest(stub, { type: "appendMessage", role: "user", content: message, ts });
-      if (!appendRes.ok) {
-        return jsonResponse(
-          { ok: false, error: appendRes.error },
-          appendRes.error.code === "internal" ? 500 : 400,
-          corsHeaders
-        );
+      // Indexed files contribute their most relevant chunks; the rest (or files with no hits) fall back to raw text.
+      let retrieved: RetrievedChunk[] = [];
+      const indexedIds = rows.filter((r) => r.chunks > 0).map((r) => r.fileId);
+      if (indexedIds.length > 0) {
+        try {
+          retrieved = await retrieveChunks(env.AI, getVectorIndex(env), {
+            sessionId,
+            fileIds: indexedIds,
+            text: userMessage,
+            topK: config.ragTopK,
+          });
+        } catch (e) {
+          console.error("retrieveChunks failed", e instanceof Error ? e.message : e);
+        }
+      }
+      const attachments: ContextAttachment[] = [];
+      const citations: Citation[] = [];
+      for (const row of rows) {
+        const hits = retrieved.filter((c) => c.fileId === row.fileId).sort((a, b) => a.start - b.start);
+        if (hits.length > 0) {
+          attachments.push({
+            fileId: row.fileId,
+            filename: row.name,
+            content: hits.map((c) => `[chars ${c.start}-${c.end}]\n${c.text}`).join("\n\n"),
+          });
+          for (const c of hits) {
+            citations.push({
+              fileId: row.fileId,
+              filename: row.name,
+              chunk: c.index,
+              start: c.start,
+              end: c.end,
+              score: c.score,
+            });
+          }
+          continue;
+        }
+        const r2Object = await env.BUCKET.get(row.textKey);
+        if (!r2Object) {
+          return jsonResponse(
+            { ok: false, error: { code: "not_found", message: `File ${row.fileId} not found in this session` } },
+            404,
+            corsHeaders
+          );
+        }
+        const content = await readTextCapped(r2Object, MAX_TEXT_BYTES);
+        attachments.push({ fileId: row.fileId, filename: row.name, content });
       }
 
-      const [summaryRes, messagesRes] = await Promise.all([
-        doRequest<string | null>(stub, { type: "getSummary" }),
-        doRequest<MessageRow[]>(stub, { type: "getRecentMessages", limit: config.historyLimit }),
-      ]);
-      if (!summaryRes.ok || !messagesRes.ok) {
-        const failed = !summaryRes.ok ? summaryRes : messagesRes;
-        return jsonResponse(
-          { ok: false, error: (failed as { ok: false; error: { code: string; message: string } }).error },
-          500,
-          corsHeaders
-        );
+      // History is read before the new turn is stored so it only holds prior messages.
+      const contextRes = await readContext(env, stub, config, auth.own, target ? target.parentId : undefined);
+      if (!contextRes.ok) {
+        return jsonResponse({ ok: false, error: contextRes.error }, 500, corsHeaders);
       }
 
-      const summary = summaryRes.data;
-      const recent = messagesRes.data;
+      // A new or edited user message becomes the active branch (an edit is a sibling of the original);
+      // a regeneration answers the stored one. Everything the model produces chains from it.
+      let userMessageId: number;
+      if (regenerate && target) {
+        userMessageId = target.id;
+      } else {
+        const requestKey = requestKeys.get(request);
+        const appendRes = await doRequest(stub, {
+          type: "appendMessage",
+          role: "user",
+          content: userMessage,
+          ts: Date.now(),
+          parentId: contextRes.data.leafId,
+          activate: true,
+          ...(requestKey ? { requestKey } : {}),
+        });
+        if (!appendRes.ok) {
+          return jsonResponse(
+            { ok: false, error: appendRes.error },
+            appendRes.error.code === "internal" ? 500 : 400,
+            corsHeaders
+          );
+        }
+        userMessageId = appendRes.data.id;
+        if (messageModeration) {
+          const event = moderationEvent(messageModeration, "message", { messageId: userMessageId });
+          ctx.waitUntil(recordModeration(env, sessionId, [event]));
+        }
+      }
+      const live = liveReply(stub, userMessageId);
+      // The user message stays stored when its reply fails; marked, it is offered for retry and left out of
+      // later prompts. Regenerating an answered message leaves it as it was.
+      const failTurn = (message: string): Promise<void> =>
+        regenerate && target?.error === undefined ? Promise.resolve() : markReplyFailed(stub, userMessageId, message);
+      const profile = await getOwnerProfile(env, auth.own);
+      let parentId = userMessageId;
+      let activate = regenerate;
+      const append = async (m: NewMessage): Promise<number> => {
+        const res = await doRequest(stub, { type: "appendMessage", ...m, parentId, activate, profile });
+        if (!res.ok) throw new Error(res.error.message);
+        parentId = res.data.id;
+        activate = false;
+        return res.data.id;
+      };
 
-      const messages: { role: "system" | "user" | "assistant"; content: string }[] = [
-        { role: "system", content: SYSTEM_PROMPT },
-      ];
-      if (summary) {
-        messages.push({ role: "system", content: `Session summary: ${summary}` });
+      const settings = sessionSettings(contextRes.data.settings, config);
+      // A responseSchema adds its instruction to the system prompt; completeStructured keeps repairs in budget.
+      const schemaTokens = responseSchema === null ? 0 : estimateTokens(schemaInstruction(responseSchema));
+      const { messages, truncated, attachmentTokens } = buildChatContext({
+        systemPrompt: withProfile(settings.systemPrompt, profile),
+        summary: contextRes.data.summary,
+        history: contextRes.data.messages,
+        attachments,
+        userMessage,
+        budgetTokens: Math.min(config.contextBudget, settings.model.contextTokens - settings.maxTokens) - schemaTokens,
+      });
+      metrics.model = settings.model.id;
+      metrics.promptTokens = estimatePromptTokens(messages);
+      const aiInputs = { messages, temperature: settings.temperature, max_tokens: settings.maxTokens };
+      const useTools = settings.model.tools === true && config.toolMaxSteps > 0 && responseSchema === null;
+      const toolRoundPolicy = {
+        ...config.moderation,
+        detectors: Object.fromEntries(
+          Object.entries(config.moderation.detectors).map(([name, action]) => [name, action === "block" ? "redact" : action])
+        ),
+      };
+      const startToolLoop = () =>
+        runToolLoop({
+          ai: env.AI,
+          model: settings.model.id,
+          messages,
+          temperature: settings.temperature,
+          maxTokens: settings.maxTokens,
+          tools: chatTools,
+          ctx: createToolContext(env, stub),
+          maxSteps: config.toolMaxSteps,
+          // Tool rounds are stored before the reply is moderated, so the detectors run on their text and tool-call
+          // arguments first. A block policy redacts here: the turn cannot be refused part-way.
+          async record(m) {
+            const scanned = scanJson({ content: m.content, toolCalls: m.toolCalls }, toolRoundPolicy);
+            const messageId = await append({ ...m, ...scanned.value });
+            const event = moderationEvent(scanned.result, "reply", { messageId });
+            if (event) ctx.waitUntil(recordModeration(env, sessionId, [event]));
+          },
+        });
+
+      let replyId: number | null = null;
+      let loopResult: ToolLoopResult | null = null;
+      let replyModeration: ModerationResult | null = null;
+      // Streamed replies are moderated as they are relayed (see moderatedTokens), so `reply` is the moderated text.
+      // A stream that fails part-way never finishes moderation; what was sent of it is moderated whole.
+      const persistStreamed = async (reply: string) => {
+        metrics.promptTokens += loopResult?.toolTokens ?? 0;
+        metrics.completionTokens = estimateTokens(reply);
+        replyModeration ??= await moderateReply(env.AI, config.moderation, reply, userMessage);
+        replyId = await append({ role: "assistant", content: replyModeration.text, ts: Date.now() });
+        await recordModeration(env, sessionId, [moderationEvent(replyModeration, "reply", { messageId: replyId })]);
+        await recordTokenUsage(env, limitKeys, attachmentTokens + (loopResult?.toolTokens ?? 0) + estimateTokens(reply));
+        await foldSummaryIfNeeded(env, stub, config, profile).catch((e) =>
+          console.error("foldSummaryIfNeeded failed", e instanceof Error ? e.message : e)
+        );
+        await syncDirectory(env, auth.own, sessionId);
+      };
+      const moderateStreamed = <T extends RelayEvent>(source: AsyncIterable<string | T>) =>
+        moderatedTokens(source, moderateReplyStream(env.AI, config.moderation, userMessage), (r) => {
+          replyModeration = r;
+        });
+      const moderationOutcomes = () => ({
+        message: messageModeration?.outcome ?? null,
+        reply: replyModeration?.outcome ?? null,
+      });
+      const streamedDone = () => ({
+        ...(replyModeration ? { reply: replyModeration.text } : {}),
+        moderation: moderationOutcomes(),
+        truncatedFiles: truncated,
+        omittedMessages: contextRes.data.omitted,
+        citations,
+        model: metrics.model ?? settings.model.id,
+        steps: loopResult?.steps ?? [],
+        userMessageId,
+        messageId: replyId,
+      });
+
+      if (stream && useTools) {
+        // Tool rounds are not streamed: each step arrives as a `tool` event, then the reply once moderated.
+        const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+        ctx.waitUntil(
+          relayAiStream(
+            moderateStreamed(
+              toolLoopEvents(startToolLoop(), (r) => {
+                loopResult = r;
+              })
+            ),
+            writable,
+            persistStreamed,
+            streamedDone,
+            live.progress
+          ).then(async (failure) => {
+            metrics.errorCode = failure?.code ?? null;
+            if (failure && replyId === null) await failTurn(failure.message);
+            return live.end();
+          })
+        );
+        return new Response(readable, { status: 200, headers: { ...SSE_HEADERS, ...corsHeaders } });
       }
-      for (const m of recent) {
-        messages.push({ role: m.role as "user" | "assistant", content: m.content });
+
+      if (stream) {
+        let aiStream: ReadableStream<Uint8Array>;
+        try {
+          aiStream = (await runTextModel(env.AI, settings.model.id, {
+            ...aiInputs,
+            stream: true,
+          })) as ReadableStream<Uint8Array>;
+        } catch (e) {
+          ctx.waitUntil(live.end());
+          const msg = e instanceof Error ? e.message : "AI error";
+          await failTurn(msg);
+          return jsonResponse(
+            { ok: false, error: { code: "ai_error", message: msg } },
+            502,
+            corsHeaders
+          );
+        }
+        const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+        ctx.waitUntil(
+          relayAiStream(
+            moderateStreamed(readAiTokens(aiStream)),
+            writable,
+            persistStreamed,
+            streamedDone,
+            live.progress
+          ).then(async (failure) => {
+            metrics.errorCode = failure?.code ?? null;
+            if (failure && replyId === null) await failTurn(failure.message);
+            return live.end();
+          })
+        );
+        return new Response(readable, { status: 200, headers: { ...SSE_HEADERS, ...corsHeaders } });
       }
-      messages.push({ role: "user", content: userContentForAI });
 
       let reply: string;
+      let steps: ToolStep[] = [];
+      // Tokens beyond the final reply: tool rounds, or rejected structured replies and their repair prompts.
+      let extraTokens = 0;
+      let structured: unknown;
       try {
-        const aiRes = (await env.AI.run(LLAMA_MODEL, { messages })) as { response?: string };
-        reply = typeof aiRes?.response === "string" ? aiRes.response : String(aiRes?.response ?? "No response.");
+        if (responseSchema !== null) {
+          const result = await completeStructured({
+            ai: env.AI,
+            model: settings.model,
+            messages,
+            schema: responseSchema,
+            temperature: settings.temperature,
+            maxTokens: settings.maxTokens,
+            maxAttempts: config.structuredMaxAttempts,
+          });
+          if (result.violations.length > 0) {
+            metrics.promptTokens += result.repairTokens;
+            metrics.completionTokens = result.completionTokens;
+            await recordTokenUsage(env, limitKeys, attachmentTokens + result.repairTokens + result.completionTokens);
+            const message = `The reply did not match responseSchema after ${result.attempts} attempt(s)`;
+            await failTurn(message);
+            return jsonResponse(
+              { ok: false, error: { code: "schema_validation_failed", message, violations: result.violations } },
+              422,
+              corsHeaders
+            );
+          }
+          ({ reply, value: structured } = result);
+          extraTokens = result.rejectedTokens;
+        } else if (useTools) {
+          let toolTokens: number;
+          ({ reply, steps, toolTokens } = await completeToolLoop(startToolLoop()));
+          extraTokens = toolTokens;
+        } else {
+          const aiRes = (await runTextModel(env.AI, settings.model.id, aiInputs)) as { response?: string };
+          reply = typeof aiRes?.response === "string" ? aiRes.response : String(aiRes?.response ?? "No response.");
+        }
       } catch (e) {
         const msg = e instanceof Error ? e.message : "AI error";
+        await failTurn(msg);
         return jsonResponse(
           { ok: false, error: { code: "ai_error", message: msg } },
           502,
           corsHeaders
         );
+      } finally {
+        ctx.waitUntil(live.end());
       }
 
-      await doRequest(stub, { type: "appendMessage", role: "assistant", content: reply, ts: Date.now() });
+      const replyTokens = estimateTokens(reply);
+      metrics.promptTokens += extraTokens;
+      metrics.completionTokens = replyTokens;
+      replyModeration = await moderateReply(env.AI, config.moderation, reply, userMessage);
+      if (responseSchema !== null && replyModeration.text !== reply) {
+        // Redactions carry over into `structured`, which must still match the schema; a blocked reply has none.
+        const parsed = parseJsonReply(replyModeration.text);
+        structured = parsed.ok ? parsed.value : null;
+        const violations = parsed.ok ? validateJson(parsed.value, responseSchema) : [parsed.error];
+        if (replyModeration.outcome !== "block" && violations.length > 0) {
+          await recordTokenUsage(env, limitKeys, attachmentTokens + extraTokens + replyTokens);
+          ctx.waitUntil(recordModeration(env, sessionId, [moderationEvent(replyModeration, "reply", {})]));
+          const message = "The reply no longer matched responseSchema once moderation redacted it";
+          await failTurn(message);
+          return jsonResponse(
+            { ok: false, error: { code: "schema_validation_failed", message, violations } },
+            422,
+            corsHeaders
+          );
+        }
+      }
+      reply = replyModeration.text;
+      try {
+        replyId = await append({ role: "assistant", content: reply, ts: Date.now() });
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : "Failed to save reply";
+        await failTurn(msg);
+        return jsonResponse({ ok: false, error: { code: "internal", message: msg } }, 500, corsHeaders);
+      }
+      ctx.waitUntil(recordModeration(env, sessionId, [moderationEvent(replyModeration, "reply", { messageId: replyId })]));
+      await recordTokenUsage(env, limitKeys, attachmentTokens + extraTokens + replyTokens);
+      ctx.waitUntil(
+        foldSummaryIfNeeded(env, stub, config, profile)
+          .catch((e) => console.error("foldSummaryIfNeeded failed", e instanceof Error ? e.message : e))
+          .then(() => syncDirectory(env, auth.own, sessionId))
+      );
 
-      return jsonResponse({ ok: true, data: { reply } }, 200, corsHeaders);
+      return jsonResponse(
+        {
+          ok: true,
+          data: {
+            reply,
+            truncatedFiles: truncated,
+            omittedMessages: contextRes.data.omitted,
+            citations,
+            model: metrics.model ?? settings.model.id,
+            steps,
+            userMessageId,
+            messageId: replyId,
+            moderation: moderationOutcomes(),
+            ...(responseSchema !== null ? { structured } : {}),
+          },
+        },
+        200,
+        corsHeaders
+      );
     }
 
     if (url.pathname === "/api/summarize" && request.method === "POST") {
@@ -362,35 +2213,33 @@ export default {
           corsHeaders
         );
       }
-      if (!checkRateLimit(sessionId, config)) {
-        return jsonResponse(
-          { ok: false, error: { code: "rate_limit", message: "Too many requests; try again later" } },
-          429,
-          corsHeaders
-        );
-      }
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
+      const limitKeys = rateLimitKeys(request, sessionId);
+      const limited = await checkRateLimit(env, limitKeys, config, { messages: 0, tokens: 0 }, corsHeaders);
+      if (limited) return limited;
 
       const stub = getDOStub(env, sessionId);
-      const messagesRes = await doRequest<MessageRow[]>(stub, {
-        type: "getRecentMessages",
+      const pendingRes = await doRequest(stub, {
+        type: "getUnsummarized",
         limit: config.summarizeLimit,
       });
-      if (!messagesRes.ok) {
-        return jsonResponse({ ok: false, error: messagesRes.error }, 500, corsHeaders);
-      }
-      const recent = messagesRes.data;
-      const transcript = recent
-        .map((m) => `${m.role}: ${m.content}`)
-        .join("\n");
-      const summarizationPrompt = transcript
-        ? `${SUMMARIZE_PROMPT}\n\nConversation:\n${transcript}`
-        : "No messages in this session.";
+      if (!pendingRes.ok) {
+        return jsonResponse({ ok: false, error: pendingRes.error }, 500, corsHeaders);
+      }
+      const { summary: existing, summarizedThroughId, messages: pending } = pendingRes.data;
+      const settings = sessionSettings(pendingRes.data.settings, config);
+      if (pending.length === 0 && existing) {
+        return jsonResponse({ ok: true, data: { summary: existing } }, 200, corsHeaders);
+      }
+      const summarizationPrompt = buildSummaryPrompt(config.summarizePrompt, existing, pending);
+      const profile = await getOwnerProfile(env, auth.own);
       let summary: string;
       try {
-        const aiRes = (await env.AI.run(LLAMA_MODEL, {
-          messages: [{ role: "user", content: summarizationPrompt }],
-        })) as { response?: string };
-        summary = typeof aiRes?.response === "string" ? aiRes.response : String(aiRes?.response ?? "No summary.");
+        metrics.model = settings.model.id;
+        metrics.promptTokens = estimateTokens(summarizationPrompt);
+        summary = await runSummary(env, settings, summarizationPrompt, profile);
+        metrics.completionTokens = estimateTokens(summary);
       } catch (e) {
         const msg = e instanceof Error ? e.message : "AI error";
         return jsonResponse(
@@ -399,10 +2248,258 @@ export default {
           corsHeaders
         );
       }
-      await doRequest(stub, { type: "setSummary", summary });
+      const throughId = pending.length > 0 ? pending[pending.length - 1].id : summarizedThroughId;
+      // Only written if no fold moved the cursor meanwhile; otherwise their messages would be summarized twice.
+      const setRes = await doRequest(stub, {
+        type: "setSummary",
+        summary,
+        throughId,
+        expectedThroughId: summarizedThroughId,
+      });
+      await recordTokenUsage(env, limitKeys, estimateTokens(summarizationPrompt) + estimateTokens(summary));
+      if (!setRes.ok) {
+        return jsonResponse({ ok: false, error: setRes.error }, 500, corsHeaders);
+      }
+      if (!setRes.data.updated) {
+        return jsonResponse(
+          { ok: false, error: { code: "conflict", message: "The summary changed while this one was written; retry" } },
+          409,
+          corsHeaders
+        );
+      }
+      ctx.waitUntil(syncDirectory(env, auth.own, sessionId));
       return jsonResponse({ ok: true, data: { summary } }, 200, corsHeaders);
     }
 
+    if (url.pathname === "/v1/models" && request.method === "GET") {
+      const auth = await requireSession(request, env, corsHeaders);
+      if (auth instanceof Response) return toOpenAiError(auth);
+      return jsonResponse(modelList(config.models), 200, corsHeaders);
+    }
+
+    if (url.pathname === "/v1/chat/completions" && request.method === "POST") {
+      // The API key is a session token. With the `session_id` extension the turn is stored in that session.
+      const fail = (status: number, message: string, code: string) =>
+        jsonResponse(openAiErrorBody(status, message, code), status, corsHeaders);
+      let raw: unknown;
+      try {
+        raw = await request.json();
+      } catch {
+        return fail(400, "Invalid JSON", "bad_request");
+      }
+      const parsed = parseCompletionRequest(raw);
+      if (typeof parsed === "string") return fail(400, parsed, "validation_error");
+      const { sessionId } = parsed;
+      if (sessionId !== null && sessionId.length < 8) {
+        return fail(400, "session_id must be at least 8 characters", "validation_error");
+      }
+      const last = parsed.messages[parsed.messages.length - 1];
+      const lastValid = last.role === "user" && last.content.length >= 1 && last.content.length <= config.messageMax;
+      if (sessionId !== null && !lastValid) {
+        return fail(
+          400,
+          `With session_id the last message must be a user message, length 1..${config.messageMax}`,
+          "validation_error"
+        );
+      }
+      const requested = parsed.model === null ? null : config.models.find((m) => m.id === parsed.model);
+      if (requested === undefined) {
+        return fail(404, `The model '${parsed.model}' does not exist; see /v1/models`, "model_not_found");
+      }
+
+      const auth = await requireSession(request, env, corsHeaders, sessionId ?? undefined);
+      if (auth instanceof Response) return toOpenAiError(auth);
+      const limitKeys = rateLimitKeys(request, sessionId ?? auth.sid);
+      const limited = await checkRateLimit(
+        env,
+        limitKeys,
+        config,
+        { messages: 1, tokens: estimateTokens(last.content) },
+        corsHeaders
+      );
+      if (limited) return toOpenAiError(limited);
+
+      // Every user message goes through the detectors; the last one, the new input, also through the classifier.
+      const auditSessionId = sessionId ?? auth.sid;
+      const inputEvents: (ModerationEvent | null)[] = [];
+      let lastModeration: ModerationResult | null = null;
+      for (const m of parsed.messages) {
+        if (m.role !== "user") continue;
+        const result =
+          m === last
+            ? await moderate(env.AI, config.moderation, { text: m.content, source: "message" })
+            : scanText(m.content, config.moderation);
+        if (result.outcome === "block") {
+          await recordModeration(env, auditSessionId, [moderationEvent(result, "message")]);
+          return fail(400, `Message blocked by the content policy (${describeBlock(result)})`, "content_blocked");
+        }
+        m.content = result.text;
+        if (m === last) lastModeration = result;
+        else inputEvents.push(moderationEvent(result, "message"));
+      }
+
+      // Without a session the request's messages are the whole prompt. With one, history and summary come
+      // from the session as in /api/chat; the request contributes its last (user) message and, if present,
+      // system messages that replace the session's system prompt for this call.
+      const stub = sessionId !== null ? getDOStub(env, sessionId) : null;
+      let context: ChatContextData | null = null;
+      if (stub) {
+        const contextRes = await readContext(env, stub, config, auth.own);
+        if (!contextRes.ok) return fail(500, contextRes.error.message, contextRes.error.code);
+        context = contextRes.data;
+      }
+      const resolved = sessionSettings(context?.settings ?? {}, config);
+      const model = requested ?? resolved.model;
+      const maxTokens =
+        parsed.maxTokens ?? Math.min(requested ? model.defaults.maxTokens : resolved.maxTokens, maxReplyTokens(model));
+      if (maxTokens > maxReplyTokens(model)) {
+        return fail(400, `max_tokens must be at most ${maxReplyTokens(model)} for ${model.id}`, "validation_error");
+      }
+      const temperature = parsed.temperature ?? (requested ? model.defaults.temperature : resolved.temperature);
+      let messages = parsed.messages;
+      if (stub && context) {
+        const system = parsed.messages.filter((m) => m.role === "system").map((m) => m.content);
+        messages = buildChatContext({
+          systemPrompt: system.length > 0 ? system.join("\n\n") : resolved.systemPrompt,
+          summary: context.summary,
+          history: context.messages,
+          attachments: [],
+          userMessage: last.content,
+          budgetTokens: Math.min(config.contextBudget, model.contextTokens - maxTokens),
+        }).messages;
+      }
+      const promptTokens = estimatePromptTokens(messages);
+      metrics.model = model.id;
+      metrics.promptTokens = promptTokens;
+      if (promptTokens > model.contextTokens - maxTokens) {
+        return fail(
+          400,
+          `Prompt (~${promptTokens} tokens) plus max_tokens exceeds the ${model.contextTokens}-token context of ${model.id}`,
+          "context_length_exceeded"
+        );
+      }
+
+      let userMessageId: number | null = null;
+      if (stub && context) {
+        const appendRes = await doRequest(stub, {
+          type: "appendMessage",
+          role: "user",
+          content: last.content,
+          ts: Date.now(),
+          parentId: context.leafId,
+          activate: true,
+        });
+        if (!appendRes.ok) return fail(500, appendRes.error.message, appendRes.error.code);
+        userMessageId = appendRes.data.id;
+      }
+      if (lastModeration) {
+        inputEvents.push(moderationEvent(lastModeration, "message", userMessageId ? { messageId: userMessageId } : {}));
+      }
+      ctx.waitUntil(recordModeration(env, auditSessionId, inputEvents));
+      // As in /api/chat, a stored user message whose reply fails (or is empty) is marked, so later prompts skip it.
+      let replyId: number | null = null;
+      const failTurn = (message: string): Promise<void> =>
+        stub && userMessageId !== null && replyId === null
+          ? markReplyFailed(stub, userMessageId, message)
+          : Promise.resolve();
+      const emptyReply = "The model returned an empty reply";
+      // Set when a streamed reply has been moderated as it was relayed.
+      let streamModeration: ModerationResult | null = null;
+      // Returns the moderated reply.
+      const persist = async (reply: string): Promise<string> => {
+        metrics.completionTokens = estimateTokens(reply);
+        const moderation = streamModeration ?? (await moderateReply(env.AI, config.moderation, reply, last.content));
+        if (stub && userMessageId !== null && reply) {
+          const res = await doRequest(stub, {
+            type: "appendMessage",
+            role: "assistant",
+            content: moderation.text,
+            ts: Date.now(),
+            parentId: userMessageId,
+          });
+          if (!res.ok) throw new Error(res.error.message);
+          replyId = res.data.id;
+        }
+        await recordModeration(env, auditSessionId, [
+          moderationEvent(moderation, "reply", replyId !== null ? { messageId: replyId } : {}),
+        ]);
+        await recordTokenUsage(env, limitKeys, estimateTokens(reply));
+        if (stub && sessionId !== null) {
+          ctx.waitUntil(
+            getOwnerProfile(env, auth.own)
+              .then((profile) => foldSummaryIfNeeded(env, stub, config, profile))
+              .catch((e) => console.error("foldSummaryIfNeeded failed", e instanceof Error ? e.message : e))
+              .then(() => syncDirectory(env, auth.own, sessionId))
+          );
+        }
+        return moderation.text;
+      };
+
+      const id = completionId();
+      const created = Math.floor(Date.now() / 1000);
+      const aiInputs = { messages, temperature, max_tokens: maxTokens };
+      if (parsed.stream) {
+        let aiStream: ReadableStream<Uint8Array>;
+        try {
+          aiStream = (await runTextModel(env.AI, model.id, {
+            ...aiInputs,
+            stream: true,
+          })) as ReadableStream<Uint8Array>;
+        } catch (e) {
+          const message = e instanceof Error ? e.message : "AI error";
+          await failTurn(message);
+          return fail(502, message, "ai_error");
+        }
+        const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+        ctx.waitUntil(
+          relayOpenAiStream(
+            moderatedTokens<never>(
+              readAiTokens(aiStream),
+              moderateReplyStream(env.AI, config.moderation, last.content),
+              (r) => {
+                streamModeration = r;
+              }
+            ),
+            writable,
+            { id, created, model: metrics.model ?? model.id, includeUsage: parsed.includeUsage, promptTokens },
+            persist
+          ).then((failure) => {
+            if (failure) metrics.errorCode = "ai_error";
+            return failTurn(failure ?? emptyReply);
+          })
+        );
+        return new Response(readable, { status: 200, headers: { ...SSE_HEADERS, ...corsHeaders } });
+      }
+
+      let reply: string;
+      try {
+        const aiRes = (await runTextModel(env.AI, model.id, aiInputs)) as { response?: string };
+        reply = typeof aiRes?.response === "string" ? aiRes.response : String(aiRes?.response ?? "");
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "AI error";
+        await failTurn(message);
+        return fail(502, message, "ai_error");
+      }
+      const completionTokens = estimateTokens(reply);
+      try {
+        reply = await persist(reply);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "Failed to save reply";
+        await failTurn(message);
+        return fail(500, message, "internal");
+      }
+      if (!reply) await failTurn(emptyReply);
+      return jsonResponse(
+        completionBody(id, created, metrics.model ?? model.id, reply, {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        }),
+        200,
+        corsHeaders
+      );
+    }
+
     if (url.pathname === "/api/export" && request.method === "GET") {
       const sessionId = url.searchParams.get("sessionId")?.trim() ?? "";
       if (sessionId.length < 8) {
@@ -412,23 +2509,65 @@ export default {
           corsHeaders
         );
       }
+      const auth = await requireSession(request, env, corsHeaders, sessionId);
+      if (auth instanceof Response) return auth;
       const stub = getDOStub(env, sessionId);
-      const exportRes = await doRequest<
-        { sessionId: string; createdAt: number; updatedAt: number; summary: string | null; messages: MessageRow[] }
-      >(stub, { type: "exportSession" });
+      const exportRes = await doRequest(stub, { type: "exportSession" });
       if (!exportRes.ok) {
         return jsonResponse({ ok: false, error: exportRes.error }, 500, corsHeaders);
       }
-      const data = { ...exportRes.data, sessionId };
-      return jsonResponse({ ok: true, data }, 200, corsHeaders);
+      const data = {
+        ...exportRes.data,
+        sessionId,
+        activeSettings: describeSettings(sessionSettings(exportRes.data.settings, config)),
+      };
+      // Without `format` the export stays in the JSON envelope; with it the response is a file download.
+      const format = url.searchParams.get("format");
+      if (format === null) return jsonResponse({ ok: true, data }, 200, corsHeaders);
+      if (!isExportFormat(format)) {
+        return jsonResponse(
+          {
+            ok: false,
+            error: { code: "validation_error", message: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+          },
+          400,
+          corsHeaders
+        );
+      }
+      const file = formatExport(data, format);
+      return new Response(file.body, {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": file.contentType,
+          "Content-Disposition": `attachment; filename="${file.filename}"`,
+          "Access-Control-Expose-Headers": "Content-Disposition",
+        },
+      });
     }
 
+    metrics.route = "other";
     return jsonResponse(
       { ok: false, error: { code: "not_found", message: "Not found" } },
       404,
       corsHeaders
     );
+  })),
+
+  /** Cron trigger: removes R2 uploads that no session references (expired sessions are handled by their alarms). */
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      sweepUploads(
+        env.BUCKET,
+        async (sessionId) => {
+          const res = await doRequest(getDOStub(env, sessionId), { type: "listAttachments" });
+          if (!res.ok) throw new Error(res.error.message);
+          return res.data;
+        },
+        Date.now()
+      ).catch((e) => console.error("Upload sweep failed", e instanceof Error ? e.message : e))
+    );
   },
 };
 
-export { ChatSessionDO };
+export { ChatSessionDO, RateLimiterDO, SessionDirectoryDO, UsageStatsDO };
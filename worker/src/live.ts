@@ -0,0 +1,64 @@
+/**
+ * Live sessions: the events ChatSessionDO sends to WebSocket clients connected via /api/live, and the
+ * messages clients may send. Every event is one JSON text frame.
+ */
+
+import type { MessageRow } from "./chatSessionDO";
+import { integer, literal, object, string } from "./schema";
+
+/** A connected client as shown in presence lists. */
+export interface LiveClient {
+  clientId: string;
+  /** The display name given at onboarding. */
+  name: string;
+  joinedAt: number;
+}
+
+/** A reply being generated, relayed by the Worker: `start`, the text so far (`progress`), then `end`. */
+export interface StreamingEvent {
+  type: "streaming";
+  userMessageId: number;
+  state: "start" | "progress" | "end";
+  text: string;
+}
+
+export type LiveEvent =
+  | { type: "welcome"; clientId: string; clients: LiveClient[] }
+  | { type: "presence"; clients: LiveClient[] }
+  | { type: "message"; message: MessageRow; activeLeafId: number | null }
+  | { type: "summary"; summary: string; summarizedThroughId: number }
+  | { type: "typing"; clientId: string; name: string }
+  | StreamingEvent;
+
+/** Messages clients send; anything else is ignored. */
+export type LiveClientMessage = { type: "typing" };
+
+/** Carries the verified display name from the Worker to ChatSessionDO with the upgrade request. */
+export const LIVE_NAME_HEADER = "X-Live-Name";
+export const LIVE_NAME_MAX = 64;
+/** Minimum interval between `progress` events of one reply. */
+export const LIVE_PROGRESS_MS = 500;
+
+export const streamingEventSchema = object({
+  type: literal("streaming"),
+  userMessageId: integer({ min: 1 }),
+  state: literal("start", "progress", "end"),
+  text: string(),
+});
+
+/** The display name to show for a `name` query parameter. */
+export function liveName(raw: string | null): string {
+  const name = (raw ?? "").replace(/\s+/g, " ").trim().slice(0, LIVE_NAME_MAX);
+  return name || "Anonymous";
+}
+
+/** Parses a client frame; null for anything that is not a known message. */
+export function parseClientMessage(frame: string | ArrayBuffer): LiveClientMessage | null {
+  if (typeof frame !== "string" || frame.length > 1024) return null;
+  try {
+    const parsed = JSON.parse(frame) as { type?: unknown };
+    return parsed?.type === "typing" ? { type: "typing" } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * ChatSessionDO schema migrations. `meta.schemaVersion` records the last migration applied; pending ones run
+ * in order, in a single transaction, the first time a session is accessed after a deploy.
+ */
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(sql: SqlStorage): void;
+}
+
+/** The storage a migration run needs; DurableObjectStorage satisfies it. */
+export interface MigrationStorage {
+  sql: SqlStorage;
+  transactionSync<T>(fn: () => T): T;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "messages and meta",
+    up(sql) {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          role TEXT NOT NULL CHECK(role IN ('user','assistant','system')),
+          content TEXT NOT NULL,
+          ts INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_messages_ts ON messages(ts);
+        CREATE TABLE IF NOT EXISTS meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+      const now = Date.now();
+      sql.exec("INSERT OR IGNORE INTO meta (key, value) VALUES ('createdAt', ?), ('updatedAt', ?)", now, now);
+    },
+  },
+  {
+    version: 2,
+    // SQLite cannot alter a CHECK constraint, so the table is rebuilt, keeping message IDs.
+    description: "tool messages: 'tool' role, tool_calls and tool_name",
+    up(sql) {
+      sql.exec(`
+        ALTER TABLE messages RENAME TO messages_old;
+        CREATE TABLE messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          role TEXT NOT NULL CHECK(role IN ('user','assistant','system','tool')),
+          content TEXT NOT NULL,
+          ts INTEGER NOT NULL,
+          tool_calls TEXT,
+          tool_name TEXT
+        );
+        INSERT INTO messages (id, role, content, ts) SELECT id, role, content, ts FROM messages_old;
+        DROP TABLE messages_old;
+        CREATE INDEX IF NOT EXISTS idx_messages_ts ON messages(ts);
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "branching: parent_id, with existing messages chained in ID order as the active branch",
+    up(sql) {
+      sql.exec(`
+        ALTER TABLE messages ADD COLUMN parent_id INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(parent_id);
+        UPDATE messages SET parent_id = (SELECT MAX(p.id) FROM messages p WHERE p.id < messages.id);
+      `);
+      const maxId = (sql.exec("SELECT MAX(id) AS id FROM messages").one() as { id: number | null }).id;
+      if (maxId !== null) sql.exec("INSERT OR IGNORE INTO meta (key, value) VALUES ('activeLeafId', ?)", maxId);
+    },
+  },
+  {
+    version: 4,
+    description: "attachments",
+    up(sql) {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS attachments (
+          file_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          content_type TEXT NOT NULL,
+          uploaded_at INTEGER NOT NULL,
+          r2_key TEXT NOT NULL,
+          chunks INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "moderation events",
+    up(sql) {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS moderation_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          ts INTEGER NOT NULL,
+          source TEXT NOT NULL,
+          outcome TEXT NOT NULL,
+          findings TEXT NOT NULL,
+          message_id INTEGER,
+          file_id TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "usage counters per route and model",
+    up(sql) {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS usage (
+          route TEXT NOT NULL,
+          model TEXT NOT NULL,
+          requests INTEGER NOT NULL DEFAULT 0,
+          errors INTEGER NOT NULL DEFAULT 0,
+          prompt_tokens INTEGER NOT NULL DEFAULT 0,
+          completion_tokens INTEGER NOT NULL DEFAULT 0,
+          ai_ms INTEGER NOT NULL DEFAULT 0,
+          last_at INTEGER NOT NULL,
+          PRIMARY KEY (route, model)
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "attachments: text_key (existing uploads are text, so their text is the upload itself)",
+    up(sql) {
+      sql.exec(`
+        ALTER TABLE attachments ADD COLUMN text_key TEXT;
+        UPDATE attachments SET text_key = r2_key;
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "messages: error (user messages whose reply failed); idempotency keys of chat requests",
+    up(sql) {
+      sql.exec(`
+        ALTER TABLE messages ADD COLUMN error TEXT;
+        CREATE TABLE IF NOT EXISTS request_keys (
+          key TEXT PRIMARY KEY,
+          fingerprint TEXT NOT NULL,
+          state TEXT NOT NULL CHECK(state IN ('pending','done','failed')),
+          user_message_id INTEGER,
+          status INTEGER,
+          body TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_request_keys_created ON request_keys(created_at);
+      `);
+    },
+  },
+  {
+    version: 9,
+    // Attachments tables created before retrieval (and before versioning) were kept by v4's IF NOT EXISTS.
+    description: "attachments: chunks, where the table predates it",
+    up(sql) {
+      const columns = sql.exec("PRAGMA table_info(attachments)").toArray() as { name: string }[];
+      if (!columns.some((c) => c.name === "chunks")) {
+        sql.exec("ALTER TABLE attachments ADD COLUMN chunks INTEGER NOT NULL DEFAULT 0");
+      }
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings the database up to `target` (default: the latest version) and returns the version it is at.
+ * Migrations run in one transaction: if any fails, none is applied and the error propagates.
+ */
+export function migrate(storage: MigrationStorage, target = SCHEMA_VERSION): number {
+  const sql = storage.sql;
+  const current = schemaVersion(sql);
+  if (current > SCHEMA_VERSION) {
+    throw new Error(`Schema version ${current} is newer than this code (${SCHEMA_VERSION})`);
+  }
+  if (current >= target) return current;
+  storage.transactionSync(() => {
+    for (const m of MIGRATIONS) {
+      if (m.version > current && m.version <= target) m.up(sql);
+    }
+    sql.exec("INSERT OR REPLACE INTO meta (key, value) VALUES ('schemaVersion', ?)", target);
+  });
+  return target;
+}
+
+/** The recorded version; databases from before versioning are identified by the shape of their tables. */
+export function schemaVersion(sql: SqlStorage): number {
+  const tables = sql.exec("SELECT name, sql FROM sqlite_master WHERE type = 'table'").toArray() as {
+    name: string;
+    sql: string;
+  }[];
+  if (!tables.some((t) => t.name === "meta")) return 0;
+  const rows = sql.exec("SELECT value FROM meta WHERE key = 'schemaVersion'").toArray() as { value: string }[];
+  if (rows.length > 0) return Number(rows[0].value);
+  // Unversioned: only `messages` was ever altered in place. Later tables were created with IF NOT EXISTS, so v4-v6
+  // keep whatever shape they had; v9 adds the column old attachments tables lack.
+  const messages = tables.find((t) => t.name === "messages")?.sql ?? "";
+  if (messages.includes("parent_id")) return 3;
+  if (messages.includes("tool_calls")) return 2;
+  return 1;
+}
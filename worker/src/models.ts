@@ -0,0 +1,166 @@
+/**
+ * Model registry: the Workers AI text models a deployment allows, with context sizes and default
+ * sampling parameters. Configured via the MODEL_REGISTRY var (JSON array); falls back to BUILTIN_MODELS.
+ */
+
+import type { SessionSettings } from "./chatSessionDO";
+
+export interface SamplingParams {
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface ModelSpec {
+  /** Workers AI model name, e.g. `@cf/meta/llama-3.1-8b-instruct-fp8`. */
+  id: string;
+  label: string;
+  contextTokens: number;
+  defaults: SamplingParams;
+  /** Supports Workers AI function calling; /api/chat only offers tools to such models. */
+  tools?: boolean;
+  /** Supports Workers AI JSON mode (`response_format`); other models get `responseSchema` in the prompt only. */
+  jsonMode?: boolean;
+}
+
+/** Session settings with registry defaults applied. */
+export interface ResolvedSettings {
+  model: ModelSpec;
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export const BUILTIN_MODELS: ModelSpec[] = [
+  {
+    id: "@cf/meta/llama-3.1-8b-instruct-fp8",
+    label: "Llama 3.1 8B Instruct (fp8)",
+    contextTokens: 32_000,
+    defaults: { temperature: 0.6, maxTokens: 1024 },
+    tools: true,
+    jsonMode: true,
+  },
+];
+
+export const MAX_TEMPERATURE = 2;
+export const MAX_SYSTEM_PROMPT_LENGTH = 4000;
+/** Context kept for the prompt (system prompt, summary, history, new message): up to half of a small model's. */
+export const MIN_PROMPT_TOKENS = 1024;
+
+let cachedRaw: string | undefined;
+let cachedModels: ModelSpec[] = BUILTIN_MODELS;
+
+/** Parses MODEL_REGISTRY; invalid entries are dropped, and an unusable registry falls back to the built-in one. */
+export function getModelRegistry(raw: string | undefined): ModelSpec[] {
+  if (!raw) return BUILTIN_MODELS;
+  if (raw === cachedRaw) return cachedModels;
+  let models: ModelSpec[] = [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (Array.isArray(parsed)) models = parsed.flatMap((m) => (isModelSpec(m) ? [m] : []));
+  } catch (e) {
+    console.error("MODEL_REGISTRY is not valid JSON", e instanceof Error ? e.message : e);
+  }
+  cachedRaw = raw;
+  cachedModels = models.length > 0 ? models : BUILTIN_MODELS;
+  return cachedModels;
+}
+
+function isModelSpec(m: unknown): m is ModelSpec {
+  const spec = m as ModelSpec;
+  return (
+    typeof spec?.id === "string" &&
+    typeof spec.label === "string" &&
+    Number.isInteger(spec.contextTokens) &&
+    spec.contextTokens > 0 &&
+    typeof spec.defaults?.temperature === "number" &&
+    Number.isInteger(spec.defaults.maxTokens) &&
+    (spec.tools === undefined || typeof spec.tools === "boolean") &&
+    (spec.jsonMode === undefined || typeof spec.jsonMode === "boolean")
+  );
+}
+
+/** The registry's default model: DEFAULT_MODEL if it is listed, otherwise the first entry. */
+export function getDefaultModel(models: ModelSpec[], defaultId: string | undefined): ModelSpec {
+  return models.find((m) => m.id === defaultId) ?? models[0];
+}
+
+/** Applies registry defaults; a stored model that is no longer allowed falls back to the default model. */
+export function resolveSettings(
+  settings: SessionSettings,
+  models: ModelSpec[],
+  defaults: { modelId?: string; systemPrompt: string }
+): ResolvedSettings {
+  const model = models.find((m) => m.id === settings.model) ?? getDefaultModel(models, defaults.modelId);
+  return {
+    model,
+    systemPrompt: settings.systemPrompt ?? defaults.systemPrompt,
+    temperature: settings.temperature ?? model.defaults.temperature,
+    maxTokens: Math.min(settings.maxTokens ?? model.defaults.maxTokens, maxReplyTokens(model)),
+  };
+}
+
+/** The largest `maxTokens` for a model: the rest of its context is kept for the prompt. */
+export function maxReplyTokens(model: ModelSpec): number {
+  return model.contextTokens - Math.min(MIN_PROMPT_TOKENS, Math.floor(model.contextTokens / 2));
+}
+
+/**
+ * Validates a partial settings update (`null` clears a field) and merges it into `current`.
+ * Returns an error message for the first invalid field.
+ */
+export function mergeSettings(
+  current: SessionSettings,
+  update: Record<string, unknown>,
+  models: ModelSpec[],
+  defaultModel: ModelSpec
+): SessionSettings | string {
+  const next: SessionSettings = { ...current };
+  if (update.model !== undefined) {
+    if (update.model === null) delete next.model;
+    else if (typeof update.model !== "string" || !models.some((m) => m.id === update.model)) {
+      return `model must be one of: ${models.map((m) => m.id).join(", ")}`;
+    } else next.model = update.model;
+  }
+  if (update.systemPrompt !== undefined) {
+    if (update.systemPrompt === null) delete next.systemPrompt;
+    else if (
+      typeof update.systemPrompt !== "string" ||
+      update.systemPrompt.trim().length < 1 ||
+      update.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH
+    ) {
+      return `systemPrompt must be a string, length 1..${MAX_SYSTEM_PROMPT_LENGTH}`;
+    } else next.systemPrompt = update.systemPrompt.trim();
+  }
+  if (update.temperature !== undefined) {
+    if (update.temperature === null) delete next.temperature;
+    else if (
+      typeof update.temperature !== "number" ||
+      !(update.temperature >= 0 && update.temperature <= MAX_TEMPERATURE)
+    ) {
+      return `temperature must be a number, 0..${MAX_TEMPERATURE}`;
+    } else next.temperature = update.temperature;
+  }
+  if (update.maxTokens !== undefined) {
+    const model = models.find((m) => m.id === next.model) ?? defaultModel;
+    if (update.maxTokens === null) delete next.maxTokens;
+    else if (
+      typeof update.maxTokens !== "number" ||
+      !Number.isInteger(update.maxTokens) ||
+      update.maxTokens < 1 ||
+      update.maxTokens > maxReplyTokens(model)
+    ) {
+      return `maxTokens must be an integer, 1..${maxReplyTokens(model)}`;
+    } else next.maxTokens = update.maxTokens;
+  }
+  return next;
+}
+
+/** Names of the text-generation models Workers AI has types for; they all take AiTextGenerationInput. */
+type TextGenerationModel = {
+  [K in keyof AiModels]: AiModels[K] extends BaseAiTextGeneration ? K : never;
+}[keyof AiModels];
+
+/** Workers AI call for a registry model (the name is not a compile-time literal, so it is typed as a text model). */
+export function runTextModel(ai: Ai, model: string, inputs: AiTextGenerationInput): Promise<unknown> {
+  return ai.run(model as TextGenerationModel, inputs);
+}
@@ -0,0 +1,403 @@
+/**
+ * Content moderation for user messages, uploaded file text and model replies: regex detectors for
+ * sensitive data (emails, phone numbers, API keys, card numbers) plus a Llama Guard classifier via
+ * Workers AI. Each check has a per-deployment action (MODERATION_POLICY): off, flag, redact or block.
+ */
+
+import { runTextModel } from "./models";
+import { array, integer, literal, number, object, optional, string } from "./schema";
+
+export type ModerationAction = "off" | "flag" | "redact" | "block";
+/** The outcome for one text: the most severe action any check took ("allow": nothing found). */
+export type ModerationOutcome = "allow" | "flag" | "redact" | "block";
+export type ModerationSource = "message" | "reply" | "upload" | "import";
+
+/** A sensitive-data pattern; under a redact policy matches become `[REDACTED_<NAME>]`. */
+export interface PiiDetector {
+  name: string;
+  /** Must be global (`g`). */
+  pattern: RegExp;
+  /** Rejects pattern matches that are not real hits (e.g. failing a checksum). */
+  validate?(match: string): boolean;
+  /**
+   * For matches that can contain whitespace: the end of a streamed text that later text may still complete
+   * into a match, so it is held back. Anchored with `$`.
+   */
+  unfinished?: RegExp;
+}
+
+export interface ModerationPolicy {
+  /** Action per detector name; detectors without an entry are off. */
+  detectors: Record<string, ModerationAction>;
+  /** The classifier cannot redact: only off, flag or block. */
+  classifier: Exclude<ModerationAction, "redact">;
+  classifierModel: string;
+}
+
+export interface ModerationFinding {
+  /** Detector name, or "classifier". */
+  check: string;
+  action: Exclude<ModerationAction, "off">;
+  /** Detector matches. */
+  count?: number;
+  /** Classifier categories (Llama Guard codes, e.g. "S1"). */
+  categories?: string[];
+}
+
+export interface ModerationResult {
+  /** The text to store and use: redacted where a redact policy matched, otherwise unchanged. */
+  text: string;
+  outcome: ModerationOutcome;
+  findings: ModerationFinding[];
+}
+
+/** Moderates a reply while it streams, so only moderated text reaches the client. */
+export interface ReplyStreamModeration {
+  /** Adds streamed reply text; returns the moderated text that can be sent now, often "". */
+  push(text: string): string;
+  /**
+   * Moderates the text held back and runs the classifier on the whole reply. The result's `text` is the full
+   * reply to store; what it adds to the pushed output is still to be sent.
+   */
+  end(): Promise<ModerationResult>;
+}
+
+export interface ModerationInput {
+  text: string;
+  source: ModerationSource;
+  /** For replies: the user message being answered, so the classifier judges the reply in context. */
+  prompt?: string;
+  /** Run the classifier (default true); bulk inputs such as imports only run the detectors. */
+  classify?: boolean;
+}
+
+/** A moderation result as recorded in the session's audit log; text is never recorded. */
+export interface ModerationEvent {
+  ts: number;
+  source: ModerationSource;
+  outcome: Exclude<ModerationOutcome, "allow">;
+  findings: ModerationFinding[];
+  /** The stored message the event is about (none for blocked input). */
+  messageId?: number;
+  /** The attachment the event is about. */
+  fileId?: string;
+}
+
+export const moderationEventSchema = object({
+  ts: number({ min: 0 }),
+  source: literal("message", "reply", "upload", "import"),
+  outcome: literal("flag", "redact", "block"),
+  findings: array(
+    object({
+      check: string(),
+      action: literal("flag", "redact", "block"),
+      count: optional(integer({ min: 0 })),
+      categories: optional(array(string())),
+    })
+  ),
+  messageId: optional(integer({ min: 1 })),
+  fileId: optional(string()),
+});
+
+export const DEFAULT_CLASSIFIER_MODEL = "@cf/meta/llama-guard-3-8b";
+/** Stored in place of a reply the policy blocks. */
+export const BLOCKED_REPLY = "This reply was withheld by the content policy.";
+
+/** Leading characters of a text the classifier sees; detectors always scan the whole text. */
+const CLASSIFY_MAX_CHARS = 8000;
+
+export const PII_DETECTORS: PiiDetector[] = [
+  {
+    name: "api_key",
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----|\b(?:sk-(?:proj-)?[A-Za-z0-9_-]{20,}|sk-ant-[A-Za-z0-9_-]{20,}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})/g,
+    unfinished: /-----BEGIN(?![\s\S]*-----END [A-Z ]*PRIVATE KEY-----)[\s\S]*$/,
+  },
+  {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+  },
+  // Before phone numbers, which would otherwise claim runs of digits.
+  {
+    name: "card_number",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => luhnValid(match.replace(/\D/g, "")),
+    unfinished: /\d[\d -]*$/,
+  },
+  {
+    name: "phone",
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}[ .-]\d{2,4}(?:[ .-]\d{2,4}){0,2}(?![\w-])/g,
+    validate: (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      // Dates and version numbers share the shape but not the length; a leading + or ( marks a phone number.
+      return digits >= 10 ? digits <= 15 : digits >= 7 && /^[+(]/.test(match);
+    },
+    unfinished: /[+(\d][\d .()-]*$/,
+  },
+];
+
+const DEFAULT_POLICY: ModerationPolicy = {
+  detectors: { api_key: "redact", email: "redact", card_number: "redact", phone: "redact" },
+  classifier: "flag",
+  classifierModel: DEFAULT_CLASSIFIER_MODEL,
+};
+
+const ACTIONS: ModerationAction[] = ["off", "flag", "redact", "block"];
+const SEVERITY: Record<ModerationOutcome, number> = { allow: 0, flag: 1, redact: 2, block: 3 };
+
+let cachedKey: string | undefined;
+let cachedPolicy: ModerationPolicy = DEFAULT_POLICY;
+
+/**
+ * Reads MODERATION_POLICY, a JSON object of actions by check (`classifier` or a detector name), over the
+ * defaults; unknown checks and invalid actions are logged and ignored. MODERATION_MODEL picks the classifier.
+ */
+export function getModerationPolicy(env: { MODERATION_POLICY?: string; MODERATION_MODEL?: string }): ModerationPolicy {
+  const key = `${env.MODERATION_POLICY ?? ""}\n${env.MODERATION_MODEL ?? ""}`;
+  if (key === cachedKey) return cachedPolicy;
+  const policy: ModerationPolicy = {
+    ...DEFAULT_POLICY,
+    detectors: { ...DEFAULT_POLICY.detectors },
+    classifierModel: env.MODERATION_MODEL || DEFAULT_CLASSIFIER_MODEL,
+  };
+  if (env.MODERATION_POLICY) {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(env.MODERATION_POLICY);
+    } catch (e) {
+      console.error("MODERATION_POLICY is not valid JSON", e instanceof Error ? e.message : e);
+    }
+    for (const [check, action] of Object.entries(isObject(parsed) ? parsed : {})) {
+      const valid = ACTIONS.includes(action as ModerationAction);
+      if (check === "classifier" && valid && action !== "redact") {
+        policy.classifier = action as ModerationPolicy["classifier"];
+      } else if (valid && PII_DETECTORS.some((d) => d.name === check)) {
+        policy.detectors[check] = action as ModerationAction;
+      } else {
+        console.error("MODERATION_POLICY: ignoring", check, action);
+      }
+    }
+  }
+  cachedKey = key;
+  cachedPolicy = policy;
+  return policy;
+}
+
+/** Runs the detectors on `text`, applying redactions; the caller decides what a block means. */
+export function scanText(
+  text: string,
+  policy: ModerationPolicy,
+  detectors: PiiDetector[] = PII_DETECTORS
+): ModerationResult {
+  let out = text;
+  const findings: ModerationFinding[] = [];
+  for (const d of detectors) {
+    const action = policy.detectors[d.name] ?? "off";
+    if (action === "off") continue;
+    let count = 0;
+    const replaced = out.replace(d.pattern, (match) => {
+      if (d.validate && !d.validate(match)) return match;
+      count++;
+      return `[REDACTED_${d.name.toUpperCase()}]`;
+    });
+    if (count === 0) continue;
+    if (action === "redact") out = replaced;
+    findings.push({ check: d.name, action, count });
+  }
+  return { text: out, outcome: outcomeOf(findings), findings };
+}
+
+/** Runs the detectors on every string in a JSON value; returns a redacted copy and the combined result. */
+export function scanJson<T>(
+  value: T,
+  policy: ModerationPolicy,
+  detectors: PiiDetector[] = PII_DETECTORS
+): { value: T; result: ModerationResult } {
+  const findings = new Map<string, ModerationFinding>();
+  const scan = (v: unknown): unknown => {
+    if (typeof v === "string") {
+      const result = scanText(v, policy, detectors);
+      for (const f of result.findings) {
+        const seen = findings.get(f.check);
+        if (seen) seen.count = (seen.count ?? 0) + (f.count ?? 0);
+        else findings.set(f.check, { ...f });
+      }
+      return result.text;
+    }
+    if (Array.isArray(v)) return v.map(scan);
+    if (v !== null && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, scan(x)]));
+    return v;
+  };
+  const scanned = scan(value) as T;
+  const all = [...findings.values()];
+  return { value: scanned, result: { text: "", outcome: outcomeOf(all), findings: all } };
+}
+
+/**
+ * The full pipeline: detectors first (the classifier sees redacted text), then the classifier unless a
+ * detector already blocked. Classifier errors are logged and let the text through.
+ */
+export async function moderate(
+  ai: Ai,
+  policy: ModerationPolicy,
+  input: ModerationInput,
+  detectors: PiiDetector[] = PII_DETECTORS
+): Promise<ModerationResult> {
+  const result = scanText(input.text, policy, detectors);
+  if (policy.classifier === "off" || input.classify === false || result.outcome === "block" || !result.text.trim()) {
+    return result;
+  }
+  try {
+    const categories = await classify(ai, policy.classifierModel, result.text.slice(0, CLASSIFY_MAX_CHARS), input);
+    if (categories) {
+      result.findings.push({ check: "classifier", action: policy.classifier, categories });
+      result.outcome = outcomeOf(result.findings);
+    }
+  } catch (e) {
+    console.error("moderation classifier failed", e instanceof Error ? e.message : e);
+  }
+  return result;
+}
+
+/** Moderates a model reply; a blocked reply's text becomes BLOCKED_REPLY. */
+export async function moderateReply(
+  ai: Ai,
+  policy: ModerationPolicy,
+  reply: string,
+  prompt: string,
+  detectors: PiiDetector[] = PII_DETECTORS
+): Promise<ModerationResult> {
+  const result = await moderate(ai, policy, { text: reply, source: "reply", prompt }, detectors);
+  return result.outcome === "block" ? { ...result, text: BLOCKED_REPLY } : result;
+}
+
+/**
+ * Moderates a streamed reply: detectors run on each settled part (see settledLength) before it is sent.
+ * A block withholds the whole reply, and the classifier judges only whole replies, so when either may block
+ * nothing is sent until `end`.
+ */
+export function moderateReplyStream(
+  ai: Ai,
+  policy: ModerationPolicy,
+  prompt: string,
+  detectors: PiiDetector[] = PII_DETECTORS
+): ReplyStreamModeration {
+  const active = detectors.filter((d) => (policy.detectors[d.name] ?? "off") !== "off");
+  const holdAll = policy.classifier === "block" || active.some((d) => policy.detectors[d.name] === "block");
+  const findings: ModerationFinding[] = [];
+  let pending = "";
+  let sent = "";
+  const release = (length: number): string => {
+    const result = scanText(pending.slice(0, length), policy, active);
+    pending = pending.slice(length);
+    for (const f of result.findings) {
+      const seen = findings.find((s) => s.check === f.check);
+      if (seen) seen.count = (seen.count ?? 0) + (f.count ?? 0);
+      else findings.push({ ...f });
+    }
+    sent += result.text;
+    return result.text;
+  };
+  return {
+    push(text) {
+      pending += text;
+      return holdAll ? "" : release(settledLength(pending, active));
+    },
+    async end() {
+      if (holdAll) return moderateReply(ai, policy, pending, prompt, detectors);
+      release(pending.length);
+      const classified = await moderate(ai, policy, { text: sent, source: "reply", prompt }, []);
+      findings.push(...classified.findings);
+      return { text: sent, outcome: outcomeOf(findings), findings };
+    },
+  };
+}
+
+/**
+ * Length of the start of streamed `text` that later text cannot change the moderation of: up to the word
+ * still being written, any unfinished match, and the start of any match that would be cut in two.
+ */
+function settledLength(text: string, detectors: PiiDetector[]): number {
+  let cut = text.length;
+  while (cut > 0 && !/\s/.test(text[cut - 1])) cut--;
+  for (const d of detectors) {
+    const start = d.unfinished ? text.search(d.unfinished) : -1;
+    if (start >= 0) cut = Math.min(cut, start);
+  }
+  for (let moved = true; moved; ) {
+    moved = false;
+    for (const d of detectors) {
+      for (const m of text.matchAll(d.pattern)) {
+        if (m.index < cut && m.index + m[0].length > cut) {
+          cut = m.index;
+          moved = true;
+        }
+      }
+    }
+  }
+  return cut;
+}
+
+/** The audit record for a result, or null when nothing was found. */
+export function moderationEvent(
+  result: ModerationResult,
+  source: ModerationSource,
+  ref: { messageId?: number; fileId?: string } = {}
+): ModerationEvent | null {
+  if (result.outcome === "allow") return null;
+  return { ts: Date.now(), source, outcome: result.outcome, findings: result.findings, ...ref };
+}
+
+/** Short description of what blocked a text, for error messages. */
+export function describeBlock(result: ModerationResult): string {
+  return result.findings
+    .filter((f) => f.action === "block")
+    .map((f) => (f.categories ? `${f.check}: ${f.categories.join(", ")}` : f.check))
+    .join("; ");
+}
+
+/** Unsafe categories reported by Llama Guard, or null if it judged the text safe. */
+async function classify(ai: Ai, model: string, text: string, input: ModerationInput): Promise<string[] | null> {
+  // Llama Guard judges the last turn: a reply is classified as the assistant's answer to its prompt.
+  const messages =
+    input.source === "reply"
+      ? [
+          { role: "user", content: (input.prompt ?? "").slice(0, CLASSIFY_MAX_CHARS) },
+          { role: "assistant", content: text },
+        ]
+      : [{ role: "user", content: text }];
+  const res = (await runTextModel(ai, model, { messages })) as { response?: unknown };
+  const verdict = res?.response;
+  // Newer Workers AI versions return `{ safe, categories }`; older ones the raw "unsafe\nS1,S10" text.
+  if (isObject(verdict)) {
+    if (verdict.safe !== false) return null;
+    return Array.isArray(verdict.categories) ? verdict.categories.map(String) : [];
+  }
+  const lines = String(verdict ?? "").trim().split("\n");
+  if (lines[0].trim().toLowerCase() !== "unsafe") return null;
+  return (lines[1] ?? "").split(",").map((c) => c.trim()).filter(Boolean);
+}
+
+function outcomeOf(findings: ModerationFinding[]): ModerationOutcome {
+  let outcome: ModerationOutcome = "allow";
+  for (const f of findings) if (SEVERITY[f.action] > SEVERITY[outcome]) outcome = f.action;
+  return outcome;
+}
+
+function luhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
@@ -0,0 +1,173 @@
+/**
+ * Per-request metrics: a request ID, Durable Object and Workers AI latency (measured by wrapping the
+ * bindings), token estimates and the error code, emitted as one structured JSON log line per request.
+ */
+
+import { boolean, number, object, string } from "./schema";
+
+export interface RequestMetrics {
+  requestId: string;
+  /** Method and matched path, e.g. "POST /api/chat"; unmatched paths are "other". */
+  route: string;
+  startedAt: number;
+  status: number;
+  /** Time until the response was returned; streamed bodies continue after it. */
+  responseMs: number;
+  /** Session of the request's token; only its hash is logged. */
+  sessionId: string | null;
+  /** Set by routes that call a chat model; the fallback model once the requested one has failed. */
+  model: string | null;
+  /** The requested model when a fallback answered instead (see resilience.ts). */
+  fallbackFrom: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  doCalls: number;
+  doMs: number;
+  aiCalls: number;
+  aiMs: number;
+  /** Chat model attempts repeated after a transient failure or timeout. */
+  aiRetries: number;
+  /** `error.code` of a failed response, or of an error event in a stream. */
+  errorCode: string | null;
+}
+
+/** Usage of one request as counted per session and per deployment. */
+export interface UsageRecord {
+  route: string;
+  /** Empty for requests that did not call a chat model. */
+  model: string;
+  /** 5xx responses and failed streams. */
+  error: boolean;
+  /** 4xx responses: validation, auth, rate limits, blocked content. */
+  rejected: boolean;
+  promptTokens: number;
+  completionTokens: number;
+  aiMs: number;
+  doMs: number;
+  durationMs: number;
+}
+
+export const usageRecordSchema = object({
+  route: string(),
+  model: string(),
+  error: boolean(),
+  rejected: boolean(),
+  promptTokens: number({ min: 0 }),
+  completionTokens: number({ min: 0 }),
+  aiMs: number({ min: 0 }),
+  doMs: number({ min: 0 }),
+  durationMs: number({ min: 0 }),
+});
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+export function createMetrics(request: Request, now: number): RequestMetrics {
+  const url = new URL(request.url);
+  return {
+    requestId: crypto.randomUUID(),
+    route: `${request.method} ${url.pathname}`,
+    startedAt: now,
+    status: 0,
+    responseMs: 0,
+    sessionId: null,
+    model: null,
+    fallbackFrom: null,
+    promptTokens: 0,
+    completionTokens: 0,
+    doCalls: 0,
+    doMs: 0,
+    aiCalls: 0,
+    aiMs: 0,
+    aiRetries: 0,
+    errorCode: null,
+  };
+}
+
+/** A Workers AI binding whose `run` calls add to `metrics.aiMs` (for streams: until the stream starts). */
+export function timeAi(ai: Ai, metrics: RequestMetrics): Ai {
+  return timeMethod(ai, "run", (ms) => {
+    metrics.aiCalls++;
+    metrics.aiMs += ms;
+  });
+}
+
+/** A Durable Object namespace whose stubs' `fetch` calls add to `metrics.doMs`. */
+export function timeNamespace(ns: DurableObjectNamespace, metrics: RequestMetrics): DurableObjectNamespace {
+  return new Proxy(ns, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop, target) as unknown;
+      if (typeof value !== "function") return value;
+      if (prop !== "get") return value.bind(target);
+      return (...args: Parameters<DurableObjectNamespace["get"]>) =>
+        timeMethod(target.get(...args), "fetch", (ms) => {
+          metrics.doCalls++;
+          metrics.doMs += ms;
+        });
+    },
+  });
+}
+
+/** Wraps `target[method]` to report its duration; other members pass through bound to the original. */
+function timeMethod<T extends object>(target: T, method: string, report: (ms: number) => void): T {
+  return new Proxy(target, {
+    get(obj, prop) {
+      const value = Reflect.get(obj, prop, obj) as unknown;
+      if (typeof value !== "function") return value;
+      if (prop !== method) return value.bind(obj);
+      return async (...args: unknown[]) => {
+        const started = Date.now();
+        try {
+          return await (value as (...a: unknown[]) => Promise<unknown>).apply(obj, args);
+        } finally {
+          report(Date.now() - started);
+        }
+      };
+    },
+  });
+}
+
+/** First 16 hex characters of SHA-256(sessionId): lets logs be correlated without exposing session IDs. */
+export async function hashSessionId(sessionId: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(sessionId));
+  return [...new Uint8Array(digest).slice(0, 8)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function usageRecord(metrics: RequestMetrics, now: number): UsageRecord {
+  return {
+    route: metrics.route,
+    model: metrics.model ?? "",
+    error: metrics.status >= 500 || (metrics.status < 400 && metrics.errorCode !== null),
+    rejected: metrics.status >= 400 && metrics.status < 500,
+    promptTokens: metrics.promptTokens,
+    completionTokens: metrics.completionTokens,
+    aiMs: metrics.aiMs,
+    doMs: metrics.doMs,
+    durationMs: now - metrics.startedAt,
+  };
+}
+
+/** Writes the request's log line: JSON, so Workers Logs and Logpush can filter on its fields. */
+export async function logRequest(metrics: RequestMetrics, now: number): Promise<void> {
+  const line = {
+    msg: "request",
+    requestId: metrics.requestId,
+    route: metrics.route,
+    status: metrics.status,
+    session: metrics.sessionId ? await hashSessionId(metrics.sessionId) : null,
+    responseMs: metrics.responseMs,
+    durationMs: now - metrics.startedAt,
+    doCalls: metrics.doCalls,
+    doMs: metrics.doMs,
+    aiCalls: metrics.aiCalls,
+    aiMs: metrics.aiMs,
+    aiRetries: metrics.aiRetries,
+    model: metrics.model,
+    fallbackFrom: metrics.fallbackFrom,
+    promptTokens: metrics.promptTokens,
+    completionTokens: metrics.completionTokens,
+    error: metrics.errorCode,
+  };
+  const failed = metrics.status >= 500 || (metrics.status < 400 && metrics.errorCode !== null);
+  if (failed) console.error(JSON.stringify(line));
+  else console.log(JSON.stringify(line));
+}
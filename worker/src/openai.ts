@@ -0,0 +1,196 @@
+/**
+ * OpenAI-compatible chat API (/v1/chat/completions, /v1/models): request parsing, response and error
+ * shapes, and the `stream: true` relay (`data: <chunk>` lines ending with `data: [DONE]`).
+ */
+
+import { estimateTokens, type ChatMessage } from "./context";
+import { MAX_TEMPERATURE, type ModelSpec } from "./models";
+import { readAiTokens } from "./sse";
+
+export const MAX_COMPLETION_MESSAGES = 500;
+
+export interface CompletionRequest {
+  /** Registry model ID; null when omitted (the session's or the default model is used). */
+  model: string | null;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  stream: boolean;
+  /** `stream_options.include_usage`: send a final chunk with token usage. */
+  includeUsage: boolean;
+  /** Extension: persist the turn in this ChatSessionDO and use its history and summary. */
+  sessionId: string | null;
+}
+
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/** Validates a chat completion request. Returns an error message for the first invalid field. */
+export function parseCompletionRequest(body: unknown): CompletionRequest | string {
+  if (typeof body !== "object" || body === null) return "Request body must be a JSON object";
+  const b = body as Record<string, unknown>;
+  if (b.model !== undefined && typeof b.model !== "string") return "model must be a string";
+  if (!Array.isArray(b.messages) || b.messages.length < 1 || b.messages.length > MAX_COMPLETION_MESSAGES) {
+    return `messages must be an array of 1..${MAX_COMPLETION_MESSAGES} messages`;
+  }
+  const messages: ChatMessage[] = [];
+  for (let i = 0; i < b.messages.length; i++) {
+    const m = b.messages[i] as { role?: unknown; content?: unknown } | null;
+    // "developer" is the newer name for system instructions.
+    const role = m?.role === "developer" ? "system" : m?.role;
+    if (role !== "system" && role !== "user" && role !== "assistant") {
+      return `messages[${i}].role must be one of: system, developer, user, assistant`;
+    }
+    const content = textContent(m!.content);
+    if (content === null) return `messages[${i}].content must be a string or an array of text parts`;
+    messages.push({ role, content });
+  }
+  if (b.temperature !== undefined && b.temperature !== null) {
+    if (typeof b.temperature !== "number" || !(b.temperature >= 0 && b.temperature <= MAX_TEMPERATURE)) {
+      return `temperature must be a number, 0..${MAX_TEMPERATURE}`;
+    }
+  }
+  const maxTokens = b.max_completion_tokens ?? b.max_tokens;
+  if (maxTokens !== undefined && maxTokens !== null) {
+    if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens) || maxTokens < 1) {
+      return "max_tokens must be a positive integer";
+    }
+  }
+  if (b.n !== undefined && b.n !== null && b.n !== 1) return "Only n=1 is supported";
+  if (b.session_id !== undefined && typeof b.session_id !== "string") return "session_id must be a string";
+  const streamOptions = b.stream_options as { include_usage?: unknown } | undefined;
+  return {
+    model: typeof b.model === "string" ? b.model : null,
+    messages,
+    temperature: typeof b.temperature === "number" ? b.temperature : undefined,
+    maxTokens: typeof maxTokens === "number" ? maxTokens : undefined,
+    stream: b.stream === true,
+    includeUsage: streamOptions?.include_usage === true,
+    sessionId: typeof b.session_id === "string" ? b.session_id.trim() : null,
+  };
+}
+
+function textContent(content: unknown): string | null {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return null;
+  const parts: string[] = [];
+  for (const part of content) {
+    const p = part as { type?: unknown; text?: unknown } | null;
+    if (p?.type !== "text" || typeof p.text !== "string") return null;
+    parts.push(p.text);
+  }
+  return parts.join("\n");
+}
+
+export function completionId(): string {
+  return `chatcmpl-${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+export function completionBody(id: string, created: number, model: string, reply: string, usage: Usage) {
+  return {
+    id,
+    object: "chat.completion",
+    created,
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content: reply }, finish_reason: "stop" }],
+    usage,
+  };
+}
+
+export function modelList(models: ModelSpec[]) {
+  return {
+    object: "list",
+    data: models.map((m) => ({ id: m.id, object: "model", created: 0, owned_by: "workers-ai" })),
+  };
+}
+
+/** OpenAI's error shape; `type` follows from the HTTP status, `code` is this Worker's error code. */
+export function openAiErrorBody(status: number, message: string, code: string) {
+  const type =
+    status === 401
+      ? "authentication_error"
+      : status === 429
+        ? "rate_limit_error"
+        : status >= 400 && status < 500
+          ? "invalid_request_error"
+          : "api_error";
+  return { error: { message, type, param: null, code } };
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Relays a Workers AI stream, or its tokens, as `chat.completion.chunk` events. Like relayAiStream it reads the source
+ * to the end even if the client disconnects, always calls `persist` with the text produced, and resolves
+ * with the error sent to the client, or null.
+ */
+export async function relayOpenAiStream(
+  source: ReadableStream<Uint8Array> | AsyncIterable<string>,
+  sink: WritableStream<Uint8Array>,
+  meta: { id: string; created: number; model: string; includeUsage: boolean; promptTokens: number },
+  persist: (reply: string) => Promise<unknown>
+): Promise<string | null> {
+  const writer = sink.getWriter();
+  let connected = true;
+  const send = async (data: unknown): Promise<void> => {
+    if (!connected) return;
+    try {
+      await writer.write(encoder.encode(`data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`));
+    } catch {
+      connected = false;
+    }
+  };
+  const chunk = (delta: object, finishReason: string | null) => ({
+    id: meta.id,
+    object: "chat.completion.chunk",
+    created: meta.created,
+    model: meta.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  await send(chunk({ role: "assistant", content: "" }, null));
+  let reply = "";
+  let failure: string | null = null;
+  try {
+    for await (const token of source instanceof ReadableStream ? readAiTokens(source) : source) {
+      reply += token;
+      await send(chunk({ content: token }, null));
+    }
+  } catch (e) {
+    failure = e instanceof Error ? e.message : "AI stream error";
+  }
+  if (reply) {
+    try {
+      await persist(reply);
+    } catch (e) {
+      failure ??= e instanceof Error ? e.message : "Failed to save reply";
+    }
+  }
+
+  if (failure) {
+    await send(openAiErrorBody(502, failure, "ai_error"));
+  } else {
+    await send(chunk({}, "stop"));
+    if (meta.includeUsage) {
+      const completionTokens = estimateTokens(reply);
+      const usage: Usage = {
+        prompt_tokens: meta.promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: meta.promptTokens + completionTokens,
+      };
+      await send({ ...chunk({}, null), choices: [], usage });
+    }
+  }
+  await send("[DONE]");
+  if (connected) {
+    try {
+      await writer.close();
+    } catch {
+      // client went away between the last write and close
+    }
+  }
+  return failure;
+}
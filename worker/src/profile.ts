@@ -0,0 +1,84 @@
+/**
+ * User profiles: per-owner preferences (display name, language, response style, custom instructions) stored
+ * in SessionDirectoryDO and merged into the system prompt of chat turns and summaries.
+ */
+
+import { literal, object, optional, string } from "./schema";
+
+export const RESPONSE_STYLES = ["concise", "balanced", "detailed"] as const;
+export type ResponseStyle = (typeof RESPONSE_STYLES)[number];
+
+/** Absent fields are not set; an empty profile changes nothing. */
+export interface UserProfile {
+  displayName?: string;
+  /** Language replies should be written in, as the user names it (e.g. "French", "pt-BR"). */
+  language?: string;
+  responseStyle?: ResponseStyle;
+  customInstructions?: string;
+}
+
+export const MAX_DISPLAY_NAME_LENGTH = 64;
+export const MAX_LANGUAGE_LENGTH = 40;
+export const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 1000;
+
+export const profileSchema = object({
+  displayName: optional(string({ min: 1, max: MAX_DISPLAY_NAME_LENGTH })),
+  language: optional(string({ min: 1, max: MAX_LANGUAGE_LENGTH })),
+  responseStyle: optional(literal(...RESPONSE_STYLES)),
+  customInstructions: optional(string({ min: 1, max: MAX_CUSTOM_INSTRUCTIONS_LENGTH })),
+});
+
+const STYLE_INSTRUCTIONS: Record<ResponseStyle, string> = {
+  concise: "Keep replies short and to the point.",
+  balanced: "Give complete answers without unnecessary length.",
+  detailed: "Give thorough, detailed answers with explanations and examples.",
+};
+
+/**
+ * Applies an update to a profile: a string sets a field (trimmed), null clears it, undefined keeps it.
+ * Returns the new profile or a validation message.
+ */
+export function mergeProfile(current: UserProfile, update: Record<string, unknown>): UserProfile | string {
+  const next: UserProfile = { ...current };
+  const text = (field: "displayName" | "language" | "customInstructions", max: number): string | null => {
+    const value = update[field];
+    if (value === undefined) return null;
+    if (value === null) {
+      delete next[field];
+      return null;
+    }
+    if (typeof value !== "string" || value.trim().length < 1 || value.trim().length > max) {
+      return `${field} must be a string, length 1..${max}`;
+    }
+    next[field] = value.trim();
+    return null;
+  };
+  const error =
+    text("displayName", MAX_DISPLAY_NAME_LENGTH) ??
+    text("language", MAX_LANGUAGE_LENGTH) ??
+    text("customInstructions", MAX_CUSTOM_INSTRUCTIONS_LENGTH);
+  if (error) return error;
+  if (update.responseStyle !== undefined) {
+    if (update.responseStyle === null) delete next.responseStyle;
+    else if (!RESPONSE_STYLES.includes(update.responseStyle as ResponseStyle)) {
+      return `responseStyle must be one of: ${RESPONSE_STYLES.join(", ")}`;
+    } else next.responseStyle = update.responseStyle as ResponseStyle;
+  }
+  return next;
+}
+
+/** The profile as system prompt text, or null for an empty profile. */
+export function profileInstructions(profile: UserProfile): string | null {
+  const lines: string[] = [];
+  if (profile.displayName) lines.push(`- The user's name is ${profile.displayName}.`);
+  if (profile.language) lines.push(`- Write replies in ${profile.language}.`);
+  if (profile.responseStyle) lines.push(`- ${STYLE_INSTRUCTIONS[profile.responseStyle]}`);
+  if (profile.customInstructions) lines.push(`- The user's own instructions: ${profile.customInstructions}`);
+  return lines.length > 0 ? `User profile:\n${lines.join("\n")}` : null;
+}
+
+/** `systemPrompt` followed by the profile's instructions. */
+export function withProfile(systemPrompt: string, profile: UserProfile): string {
+  const instructions = profileInstructions(profile);
+  return instructions ? `${systemPrompt}\n\n${instructions}` : systemPrompt;
+}
@@ -0,0 +1,155 @@
+/**
+ * The Worker ↔ Durable Object protocol. Requests are POSTed as JSON `{ type, ...fields }` with the protocol
+ * version in a header, and answered with `{ ok: true, data }` or `{ ok: false, error: { code, message } }`.
+ * Each Durable Object declares an API (request and response type per request type) and a schema per request,
+ * which `serveRpc` checks before dispatching. Error codes are shared with the Worker's public responses.
+ */
+
+import { SchemaError, type Schema } from "./schema";
+
+/** Bumped when a request or response shape changes incompatibly; mismatched callers get `unsupported_version`. */
+export const PROTOCOL_VERSION = 2;
+export const PROTOCOL_HEADER = "X-Protocol-Version";
+
+export const ERROR_CODES = [
+  "bad_request",
+  "validation_error",
+  "unauthorized",
+  "not_found",
+  "conflict",
+  "rate_limit",
+  "content_blocked",
+  "model_not_found",
+  "context_length_exceeded",
+  "upload_error",
+  "ai_error",
+  "schema_validation_failed",
+  "unsupported_version",
+  "internal",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export interface ApiError {
+  code: ErrorCode;
+  message: string;
+  /** For `schema_validation_failed`: what the model's last reply violated. */
+  violations?: string[];
+}
+
+export type DOResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  bad_request: 400,
+  validation_error: 400,
+  unauthorized: 401,
+  not_found: 404,
+  conflict: 409,
+  rate_limit: 429,
+  content_blocked: 400,
+  model_not_found: 404,
+  context_length_exceeded: 400,
+  upload_error: 500,
+  ai_error: 502,
+  schema_validation_failed: 422,
+  unsupported_version: 400,
+  internal: 500,
+};
+
+/** The HTTP status that goes with an error code. */
+export function errorStatus(code: ErrorCode): number {
+  return ERROR_STATUS[code];
+}
+
+/** Thrown by a Durable Object handler to fail a request with a specific code (other errors are `internal`). */
+export class RpcError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+/** Request fields (without `type`) and response data, per request type. */
+export type RpcApi = Record<string, { request: object; response: unknown }>;
+
+/** A stub of a Durable Object serving API `A`; the brand only exists at the type level. */
+export type RpcStub<A extends RpcApi> = DurableObjectStub & { readonly __api?: A };
+
+export type RpcRequest<A extends RpcApi, K extends keyof A = keyof A> = K extends keyof A
+  ? { type: K } & A[K]["request"]
+  : never;
+
+export type RpcSchemas<A extends RpcApi> = { [K in keyof A]: Schema<A[K]["request"]> };
+
+export type RpcHandlers<A extends RpcApi> = {
+  [K in keyof A]: (request: A[K]["request"]) => A[K]["response"] | Promise<A[K]["response"]>;
+};
+
+export function rpcStub<A extends RpcApi>(ns: DurableObjectNamespace, name: string): RpcStub<A> {
+  return ns.get(ns.idFromName(name));
+}
+
+export async function doRequest<A extends RpcApi, K extends keyof A & string>(
+  stub: RpcStub<A>,
+  body: { type: K } & A[K]["request"]
+): Promise<DOResult<A[K]["response"]>> {
+  const res = await stub.fetch("https://do/", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", [PROTOCOL_HEADER]: String(PROTOCOL_VERSION) },
+    body: JSON.stringify(body),
+  });
+  return (await res.json()) as DOResult<A[K]["response"]>;
+}
+
+/**
+ * A Durable Object's `fetch`: checks the version and the request against its schema, then runs the handler.
+ * `before` runs once the request is valid (e.g. to open storage); `after` once a handler has succeeded (e.g. to
+ * reschedule alarms).
+ */
+export async function serveRpc<A extends RpcApi>(
+  request: Request,
+  schemas: RpcSchemas<A>,
+  handlers: RpcHandlers<A>,
+  hooks: { before?(type: keyof A): void; after?(type: keyof A): Promise<void> } = {}
+): Promise<Response> {
+  const url = new URL(request.url);
+  if (url.pathname !== "/" || request.method !== "POST") return rpcError("bad_request", "POST / only");
+  const version = request.headers.get(PROTOCOL_HEADER);
+  if (version !== String(PROTOCOL_VERSION)) {
+    return rpcError("unsupported_version", `Protocol version ${version ?? "(none)"}; expected ${PROTOCOL_VERSION}`);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return rpcError("bad_request", "Invalid JSON");
+  }
+  const type = typeof body === "object" && body !== null ? (body as { type?: unknown }).type : undefined;
+  if (typeof type !== "string" || !Object.hasOwn(schemas, type)) {
+    return rpcError("bad_request", "Unknown request type");
+  }
+
+  try {
+    const parsed = schemas[type].parse(body);
+    hooks.before?.(type);
+    const data = await handlers[type](parsed);
+    if (hooks.after) await hooks.after(type);
+    return rpcResponse({ ok: true, data });
+  } catch (e) {
+    if (e instanceof SchemaError) return rpcError("validation_error", `${type}: ${e.message}`);
+    if (e instanceof RpcError) return rpcError(e.code, e.message);
+    return rpcError("internal", e instanceof Error ? e.message : "DO error");
+  }
+}
+
+function rpcError(code: ErrorCode, message: string): Response {
+  return rpcResponse({ ok: false, error: { code, message } }, errorStatus(code));
+}
+
+function rpcResponse(body: DOResult<unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
@@ -0,0 +1,193 @@
+/**
+ * Durable Object per rate-limit key (`session:{id}` or `ip:{address}`).
+ * SQLite: request hits for the sliding window + per-day message/token usage.
+ */
+
+import { serveRpc, type RpcHandlers, type RpcSchemas } from "./protocol";
+import { integer, number, object } from "./schema";
+
+export interface LimitPolicy {
+  requests: number;
+  windowMs: number;
+  /** 0 disables the daily message quota. */
+  dailyMessages: number;
+  /** 0 disables the daily token quota. */
+  dailyTokens: number;
+}
+
+export type LimitReason = "rate" | "daily_messages" | "daily_tokens";
+
+export interface LimitResult {
+  allowed: boolean;
+  reason: LimitReason | null;
+  limit: number;
+  remaining: number;
+  /** Length of the window `limit` applies to: the request window, or a day for the daily quotas. */
+  windowMs: number;
+  /** Milliseconds until the limit that applies resets. */
+  resetMs: number;
+}
+
+interface LimitRequest {
+  policy: LimitPolicy;
+  messages: number;
+  tokens: number;
+  now: number;
+}
+
+/** Requests RateLimiterDO serves: fields and response data per request type. */
+export type RateLimiterApi = {
+  /** Whether `consume` would allow the request, without recording it. */
+  check: { request: LimitRequest; response: LimitResult };
+  consume: { request: LimitRequest; response: LimitResult };
+  /** Takes back a request `consume` recorded, when another key refused it. */
+  refund: { request: Omit<LimitRequest, "policy">; response: { done: true } };
+  addTokens: { request: { tokens: number; now: number }; response: { done: true } };
+};
+
+const nonNegative = number({ min: 0 });
+
+const limitRequestSchema = object({
+  policy: object({
+    requests: integer({ min: 0 }),
+    windowMs: integer({ min: 0 }),
+    dailyMessages: integer({ min: 0 }),
+    dailyTokens: integer({ min: 0 }),
+  }),
+  messages: nonNegative,
+  tokens: nonNegative,
+  now: nonNegative,
+});
+
+export const rateLimiterSchemas: RpcSchemas<RateLimiterApi> = {
+  check: limitRequestSchema,
+  consume: limitRequestSchema,
+  refund: object({ messages: nonNegative, tokens: nonNegative, now: nonNegative }),
+  addTokens: object({ tokens: nonNegative, now: nonNegative }),
+};
+
+const DAY_MS = 86_400_000;
+
+export class RateLimiterDO implements DurableObject {
+  private state: DurableObjectState;
+  private sql: SqlStorage | null = null;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    this.ensureInit();
+    return serveRpc(request, rateLimiterSchemas, this.handlers);
+  }
+
+  private readonly handlers: RpcHandlers<RateLimiterApi> = {
+    check: ({ policy, messages, tokens, now }) => this.check(policy, messages, tokens, now),
+    consume: ({ policy, messages, tokens, now }) => this.consume(policy, messages, tokens, now),
+    refund: ({ messages, tokens, now }) => {
+      this.refund(messages, tokens, now);
+      return { done: true };
+    },
+    addTokens: ({ tokens, now }) => {
+      this.addTokens(tokens, now);
+      return { done: true };
+    },
+  };
+
+  private ensureInit(): void {
+    if (this.sql) return;
+    this.sql = this.state.storage.sql;
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS hits (
+        ts INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_hits_ts ON hits(ts);
+      CREATE TABLE IF NOT EXISTS usage (
+        day TEXT PRIMARY KEY,
+        messages INTEGER NOT NULL,
+        tokens INTEGER NOT NULL
+      );
+    `);
+  }
+
+  /** Checks the sliding window and daily quotas; `remaining` counts the request as if it were recorded. */
+  check(policy: LimitPolicy, messages: number, tokens: number, now: number): LimitResult {
+    const s = this.sql!;
+    const day = dayKey(now);
+    s.exec("DELETE FROM hits WHERE ts <= ?", now - policy.windowMs);
+    s.exec("DELETE FROM usage WHERE day <> ?", day);
+
+    const hits = s.exec("SELECT ts FROM hits ORDER BY ts ASC").toArray() as { ts: number }[];
+    const windowReset = hits.length > 0 ? hits[0].ts + policy.windowMs - now : policy.windowMs;
+    if (hits.length >= policy.requests) {
+      return denied("rate", policy.requests, policy.windowMs, windowReset);
+    }
+
+    const usageRows = s.exec("SELECT messages, tokens FROM usage WHERE day = ?", day).toArray() as {
+      messages: number;
+      tokens: number;
+    }[];
+    const usage = usageRows[0] ?? { messages: 0, tokens: 0 };
+    const dayReset = (Math.floor(now / DAY_MS) + 1) * DAY_MS - now;
+    if (policy.dailyMessages > 0 && messages > 0 && usage.messages + messages > policy.dailyMessages) {
+      return denied("daily_messages", policy.dailyMessages, DAY_MS, dayReset);
+    }
+    if (policy.dailyTokens > 0 && usage.tokens + tokens > policy.dailyTokens) {
+      return denied("daily_tokens", policy.dailyTokens, DAY_MS, dayReset);
+    }
+    return {
+      allowed: true,
+      reason: null,
+      limit: policy.requests,
+      remaining: policy.requests - hits.length - 1,
+      windowMs: policy.windowMs,
+      resetMs: windowReset,
+    };
+  }
+
+  /** Checks like `check`, and records the request only when it is allowed. */
+  consume(policy: LimitPolicy, messages: number, tokens: number, now: number): LimitResult {
+    const s = this.sql!;
+    const result = this.check(policy, messages, tokens, now);
+    if (!result.allowed) return result;
+    s.exec("INSERT INTO hits (ts) VALUES (?)", now);
+    s.exec(
+      `INSERT INTO usage (day, messages, tokens) VALUES (?, ?, ?)
+       ON CONFLICT(day) DO UPDATE SET messages = messages + excluded.messages, tokens = tokens + excluded.tokens`,
+      dayKey(now),
+      messages,
+      tokens
+    );
+    return result;
+  }
+
+  /** Removes the hit and the usage `consume` recorded for a request at `now`. */
+  refund(messages: number, tokens: number, now: number): void {
+    const s = this.sql!;
+    s.exec("DELETE FROM hits WHERE rowid = (SELECT rowid FROM hits WHERE ts = ? LIMIT 1)", now);
+    s.exec(
+      "UPDATE usage SET messages = MAX(0, messages - ?), tokens = MAX(0, tokens - ?) WHERE day = ?",
+      messages,
+      tokens,
+      dayKey(now)
+    );
+  }
+
+  /** Adds tokens produced after the request was admitted (e.g. the model reply). */
+  addTokens(tokens: number, now: number): void {
+    this.sql!.exec(
+      `INSERT INTO usage (day, messages, tokens) VALUES (?, 0, ?)
+       ON CONFLICT(day) DO UPDATE SET tokens = tokens + excluded.tokens`,
+      dayKey(now),
+      tokens
+    );
+  }
+}
+
+function denied(reason: LimitReason, limit: number, windowMs: number, resetMs: number): LimitResult {
+  return { allowed: false, reason, limit, remaining: 0, windowMs, resetMs };
+}
+
+function dayKey(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
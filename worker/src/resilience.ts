@@ -0,0 +1,148 @@
+/**
+ * Resilient chat model calls: each Workers AI attempt has a timeout, transient failures are retried with
+ * exponential backoff, and when the requested model still fails the fallback model (if configured) is tried
+ * the same way. Applied by wrapping the AI binding, so every chat, summary and tool-loop call gets it.
+ */
+
+import type { ModelSpec } from "./models";
+
+export interface AiRetryPolicy {
+  /** Per attempt; for streams, until the stream starts. */
+  timeoutMs: number;
+  /** Retries after the first attempt, per model. */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for each further one, with jitter. */
+  retryBaseMs: number;
+  /** Models the policy applies to (the registry); other calls (classifier, embeddings) pass through. */
+  models: ModelSpec[];
+  /** Tried once the requested model has used up its retries. */
+  fallback: ModelSpec | null;
+}
+
+/** Reported as calls happen, e.g. for request metrics. */
+export interface AiRetryListener {
+  onRetry?(model: string, attempt: number, error: unknown): void;
+  onFallback?(from: string, to: string, error: unknown): void;
+}
+
+export const DEFAULT_AI_TIMEOUT_MS = 30_000;
+export const DEFAULT_AI_MAX_RETRIES = 2;
+export const DEFAULT_AI_RETRY_BASE_MS = 250;
+
+export class AiTimeoutError extends Error {
+  constructor(model: string, ms: number) {
+    super(`${model} did not respond within ${ms} ms`);
+    this.name = "AiTimeoutError";
+  }
+}
+
+/**
+ * Failures that repeat on every attempt: invalid input (5006), unknown model (5007) and requests too large
+ * for the model. Everything else (capacity, timeouts, network errors) is treated as transient.
+ */
+const PERMANENT_AI_ERROR = /\b500[67]\b|invalid input|context (?:window|length)|too many tokens/i;
+
+export function isTransientAiError(e: unknown): boolean {
+  if (e instanceof AiTimeoutError) return true;
+  return !PERMANENT_AI_ERROR.test(e instanceof Error ? e.message : String(e));
+}
+
+/** Last unusable FALLBACK_MODEL logged, so it is reported once per isolate rather than per request. */
+let reportedFallback: string | undefined;
+
+/** The policy from AI_TIMEOUT_MS, AI_MAX_RETRIES, AI_RETRY_BASE_MS and FALLBACK_MODEL (a registry model ID). */
+export function getAiRetryPolicy(
+  env: { AI_TIMEOUT_MS?: string; AI_MAX_RETRIES?: string; AI_RETRY_BASE_MS?: string; FALLBACK_MODEL?: string },
+  models: ModelSpec[]
+): AiRetryPolicy {
+  const int = (raw: string | undefined, fallback: number) => {
+    const n = raw ? parseInt(raw, 10) : NaN;
+    return Number.isInteger(n) && n >= 0 ? n : fallback;
+  };
+  let fallback: ModelSpec | null = null;
+  if (env.FALLBACK_MODEL) {
+    fallback = models.find((m) => m.id === env.FALLBACK_MODEL) ?? null;
+    if (!fallback && env.FALLBACK_MODEL !== reportedFallback) {
+      console.error("FALLBACK_MODEL is not in the model registry; ignored", env.FALLBACK_MODEL);
+      reportedFallback = env.FALLBACK_MODEL;
+    }
+  }
+  return {
+    timeoutMs: Math.max(1, int(env.AI_TIMEOUT_MS, DEFAULT_AI_TIMEOUT_MS)),
+    maxRetries: int(env.AI_MAX_RETRIES, DEFAULT_AI_MAX_RETRIES),
+    retryBaseMs: int(env.AI_RETRY_BASE_MS, DEFAULT_AI_RETRY_BASE_MS),
+    models,
+    fallback,
+  };
+}
+
+/** A Workers AI binding whose `run` applies `policy` to registry models; other members pass through. */
+export function resilientAi(ai: Ai, policy: AiRetryPolicy, listener: AiRetryListener = {}): Ai {
+  const run = async (model: string, inputs: Record<string, unknown>, options?: unknown): Promise<unknown> => {
+    const call = (m: string, i: Record<string, unknown>) =>
+      (ai.run as (m: string, i: unknown, o?: unknown) => Promise<unknown>).call(ai, m, i, options);
+    if (!policy.models.some((m) => m.id === model)) return call(model, inputs);
+    try {
+      return await withRetries(model, () => call(model, inputs), policy, listener);
+    } catch (e) {
+      const fallback = policy.fallback;
+      if (!fallback || fallback.id === model) throw e;
+      listener.onFallback?.(model, fallback.id, e);
+      const fallbackInputs = inputsFor(fallback, inputs);
+      return withRetries(fallback.id, () => call(fallback.id, fallbackInputs), policy, listener);
+    }
+  };
+  return new Proxy(ai, {
+    get(target, prop) {
+      if (prop === "run") return run;
+      const value = Reflect.get(target, prop, target) as unknown;
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+async function withRetries(
+  model: string,
+  attempt: () => Promise<unknown>,
+  policy: AiRetryPolicy,
+  listener: AiRetryListener
+): Promise<unknown> {
+  for (let n = 1; ; n++) {
+    try {
+      return await withTimeout(attempt(), model, policy.timeoutMs);
+    } catch (e) {
+      if (n > policy.maxRetries || !isTransientAiError(e)) throw e;
+      listener.onRetry?.(model, n, e);
+      await sleep(backoffMs(n, policy.retryBaseMs));
+    }
+  }
+}
+
+/** Full jitter: a random delay up to `base * 2^(retry - 1)`, so clients retrying together spread out. */
+export function backoffMs(retry: number, base: number): number {
+  return Math.round(Math.random() * base * 2 ** (retry - 1));
+}
+
+/** The call's result, or an AiTimeoutError after `ms`. The call itself cannot be cancelled and is left to settle. */
+function withTimeout<T>(promise: Promise<T>, model: string, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new AiTimeoutError(model, ms)), ms);
+  });
+  promise.catch(() => {});
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Drops inputs the fallback model does not support (tools, JSON mode) rather than failing on them. */
+function inputsFor(model: ModelSpec, inputs: Record<string, unknown>): Record<string, unknown> {
+  const { tools, response_format, ...rest } = inputs;
+  return {
+    ...rest,
+    ...(tools !== undefined && model.tools ? { tools } : {}),
+    ...(response_format !== undefined && model.jsonMode ? { response_format } : {}),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,92 @@
+/**
+ * Data retention: session and upload TTLs (enforced by ChatSessionDO alarms) and the scheduled sweep that
+ * removes R2 uploads no session references.
+ */
+
+import { attachmentKeys, type AttachmentRow } from "./chatSessionDO";
+
+export const DAY_MS = 86_400_000;
+/** Uploads younger than this are skipped by the sweep: the session may not have recorded them yet. */
+export const SWEEP_GRACE_MS = 60 * 60 * 1000;
+/** Sessions looked up per sweep, to stay within the subrequest limit; the rest wait for the next run. */
+const SWEEP_MAX_SESSIONS = 500;
+const UPLOAD_PREFIX = "uploads/";
+
+export interface RetentionPolicy {
+  /** Sessions are deleted this long after their last update; 0 keeps them forever. */
+  sessionTtlMs: number;
+  /** Attachments are deleted this long after upload; 0 keeps them as long as the session. */
+  uploadTtlMs: number;
+}
+
+export interface SweepResult {
+  scanned: number;
+  deleted: number;
+  /** False when the sweep stopped at SWEEP_MAX_SESSIONS before reaching the end of the bucket. */
+  complete: boolean;
+}
+
+/** Reads SESSION_TTL_DAYS and UPLOAD_TTL_DAYS; unset, invalid or 0 disables a TTL. */
+export function getRetentionPolicy(env: { SESSION_TTL_DAYS?: string; UPLOAD_TTL_DAYS?: string }): RetentionPolicy {
+  const days = (raw: string | undefined) => {
+    const n = raw ? Number(raw) : 0;
+    return Number.isFinite(n) && n > 0 ? n * DAY_MS : 0;
+  };
+  return { sessionTtlMs: days(env.SESSION_TTL_DAYS), uploadTtlMs: days(env.UPLOAD_TTL_DAYS) };
+}
+
+/** When a session next has retention work due: its own expiry or its oldest attachment's, whichever is first. */
+export function nextRetentionDue(
+  policy: RetentionPolicy,
+  updatedAt: number,
+  oldestUploadAt: number | null
+): number | null {
+  const due: number[] = [];
+  if (policy.sessionTtlMs > 0) due.push(updatedAt + policy.sessionTtlMs);
+  if (policy.uploadTtlMs > 0 && oldestUploadAt !== null) due.push(oldestUploadAt + policy.uploadTtlMs);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+/**
+ * Deletes objects under `uploads/` that no session lists as an attachment: uploads whose session was
+ * deleted or never recorded them, and uploads from before attachments were tied to a session.
+ */
+export async function sweepUploads(
+  bucket: R2Bucket,
+  listAttachments: (sessionId: string) => Promise<AttachmentRow[]>,
+  now: number
+): Promise<SweepResult> {
+  const referenced = new Map<string, Set<string>>();
+  const result: SweepResult = { scanned: 0, deleted: 0, complete: true };
+  let cursor: string | undefined;
+  do {
+    // `include` is honored at runtime but missing from the workers-types version in use.
+    const options: R2ListOptions & { include: string[] } = {
+      prefix: UPLOAD_PREFIX,
+      cursor,
+      include: ["customMetadata"],
+    };
+    const page = await bucket.list(options);
+    const orphans: string[] = [];
+    for (const obj of page.objects) {
+      if (obj.uploaded.getTime() > now - SWEEP_GRACE_MS) continue;
+      const sessionId = obj.customMetadata?.sessionId;
+      if (sessionId && !referenced.has(sessionId)) {
+        if (referenced.size >= SWEEP_MAX_SESSIONS) {
+          result.complete = false;
+          break;
+        }
+        const rows = await listAttachments(sessionId);
+        referenced.set(sessionId, new Set(attachmentKeys(rows)));
+      }
+      result.scanned++;
+      if (!sessionId || !referenced.get(sessionId)!.has(obj.key)) orphans.push(obj.key);
+    }
+    if (orphans.length > 0) {
+      await bucket.delete(orphans);
+      result.deleted += orphans.length;
+    }
+    cursor = page.truncated && result.complete ? page.cursor : undefined;
+  } while (cursor);
+  return result;
+}
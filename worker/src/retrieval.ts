@@ -0,0 +1,179 @@
+/**
+ * Retrieval over uploaded documents: chunk, embed with Workers AI, index in Vectorize, query top-k.
+ * Vectors live in the session's namespace; chunk text and character range are kept in metadata.
+ */
+
+export const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP = 200;
+/** Workers AI embedding calls accept up to 100 inputs. */
+const EMBED_BATCH = 100;
+/** Vectorize caps topK at 20 when metadata is returned. */
+const MAX_TOP_K = 20;
+
+/** The part of a Vectorize binding used here; satisfied by `Vectorize` and InMemoryVectorIndex. */
+export type VectorIndex = Pick<Vectorize, "upsert" | "query" | "deleteByIds">;
+
+export interface Chunk {
+  index: number;
+  /** Character offsets into the document text, end exclusive. */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface RetrievedChunk extends Chunk {
+  fileId: string;
+  score: number;
+}
+
+/** Returned with chat replies so clients can point at the passages the model saw. */
+export interface Citation {
+  fileId: string;
+  filename: string;
+  chunk: number;
+  start: number;
+  end: number;
+  score: number;
+}
+
+/** Splits text into overlapping windows, preferring to break at a newline or space near the end. */
+export function chunkText(text: string, size = CHUNK_CHARS, overlap = CHUNK_OVERLAP): Chunk[] {
+  const chunks: Chunk[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const brk = Math.max(text.lastIndexOf("\n", end), text.lastIndexOf(" ", end));
+      if (brk > start + size / 2) end = brk;
+    }
+    const piece = text.slice(start, end);
+    if (piece.trim()) chunks.push({ index: chunks.length, start, end, text: piece });
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return chunks;
+}
+
+export async function embed(ai: Ai, texts: string[]): Promise<number[][]> {
+  const out: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH) {
+    const res = (await ai.run(EMBEDDING_MODEL, { text: texts.slice(i, i + EMBED_BATCH) })) as { data?: number[][] };
+    if (!Array.isArray(res?.data)) throw new Error("Embedding model returned no data");
+    out.push(...res.data);
+  }
+  return out;
+}
+
+function vectorId(fileId: string, index: number): string {
+  return `${fileId}:${index}`;
+}
+
+/** Chunks, embeds and upserts a document. Returns the number of chunks indexed. */
+export async function indexDocument(
+  ai: Ai,
+  index: VectorIndex,
+  doc: { sessionId: string; fileId: string; text: string }
+): Promise<number> {
+  const chunks = chunkText(doc.text);
+  if (chunks.length === 0) return 0;
+  const vectors = await embed(ai, chunks.map((c) => c.text));
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH) {
+    await index.upsert(
+      chunks.slice(i, i + EMBED_BATCH).map((c, j) => ({
+        id: vectorId(doc.fileId, c.index),
+        values: vectors[i + j],
+        namespace: doc.sessionId,
+        metadata: { fileId: doc.fileId, index: c.index, start: c.start, end: c.end, text: c.text },
+      }))
+    );
+  }
+  return chunks.length;
+}
+
+export async function deleteDocument(index: VectorIndex, fileId: string, chunkCount: number): Promise<void> {
+  const ids = Array.from({ length: chunkCount }, (_, i) => vectorId(fileId, i));
+  for (let i = 0; i < ids.length; i += 1000) {
+    await index.deleteByIds(ids.slice(i, i + 1000));
+  }
+}
+
+/** Top-k chunks from the given files of a session, best match first. */
+export async function retrieveChunks(
+  ai: Ai,
+  index: VectorIndex,
+  query: { sessionId: string; fileIds: string[]; text: string; topK: number }
+): Promise<RetrievedChunk[]> {
+  if (query.fileIds.length === 0) return [];
+  const [vector] = await embed(ai, [query.text]);
+  const res = await index.query(vector, {
+    topK: Math.min(query.topK, MAX_TOP_K),
+    namespace: query.sessionId,
+    returnMetadata: "all",
+    filter: { fileId: { $in: query.fileIds } },
+  });
+  return res.matches.flatMap((m) => {
+    const md = m.metadata as { fileId?: unknown; index?: unknown; start?: unknown; end?: unknown; text?: unknown };
+    if (typeof md?.fileId !== "string" || typeof md.text !== "string") return [];
+    return [
+      {
+        fileId: md.fileId,
+        index: Number(md.index),
+        start: Number(md.start),
+        end: Number(md.end),
+        text: md.text,
+        score: m.score,
+      },
+    ];
+  });
+}
+
+/**
+ * In-memory stand-in for a Vectorize index (cosine similarity; `namespace` and `fileId` filters only).
+ * Used when no VECTORIZE binding is configured, e.g. in local dev and tests. State is per isolate.
+ */
+export class InMemoryVectorIndex implements VectorIndex {
+  private vectors = new Map<string, VectorizeVector>();
+
+  async upsert(vectors: VectorizeVector[]): Promise<VectorizeAsyncMutation> {
+    for (const v of vectors) this.vectors.set(v.id, v);
+    return { mutationId: crypto.randomUUID() };
+  }
+
+  async deleteByIds(ids: string[]): Promise<VectorizeAsyncMutation> {
+    for (const id of ids) this.vectors.delete(id);
+    return { mutationId: crypto.randomUUID() };
+  }
+
+  async query(vector: VectorFloatArray | number[], options?: VectorizeQueryOptions): Promise<VectorizeMatches> {
+    const fileFilter = options?.filter?.fileId as { $in?: string[] } | string | undefined;
+    const allowed = typeof fileFilter === "string" ? [fileFilter] : fileFilter?.$in;
+    const matches: VectorizeMatch[] = [];
+    for (const v of this.vectors.values()) {
+      if (options?.namespace !== undefined && v.namespace !== options.namespace) continue;
+      if (allowed && !allowed.includes(String(v.metadata?.fileId))) continue;
+      matches.push({
+        id: v.id,
+        namespace: v.namespace,
+        metadata: options?.returnMetadata ? v.metadata : undefined,
+        score: cosine(vector, v.values),
+      });
+    }
+    matches.sort((a, b) => b.score - a.score);
+    const top = matches.slice(0, options?.topK ?? 5);
+    return { matches: top, count: top.length };
+  }
+}
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
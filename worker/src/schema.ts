@@ -0,0 +1,123 @@
+/**
+ * Runtime validators for JSON values. A Schema<T> checks an unknown value and returns it typed as T, or
+ * throws a SchemaError naming the offending path. Objects keep only the keys their schema declares.
+ */
+
+export class SchemaError extends Error {
+  constructor(
+    readonly path: string,
+    expected: string
+  ) {
+    super(`${path || "value"}: expected ${expected}`);
+    this.name = "SchemaError";
+  }
+}
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): T;
+  /** Set by `optional`: the key may be absent from its object. */
+  readonly optional?: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+type ObjectOf<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+function schema<T>(parse: (value: unknown, path: string) => T): Schema<T> {
+  return { parse: (value, path = "") => parse(value, path) };
+}
+
+export function string(opts: { min?: number; max?: number } = {}): Schema<string> {
+  return schema((v, path) => {
+    const { min = 0, max = Infinity } = opts;
+    if (typeof v !== "string" || v.length < min || v.length > max) {
+      throw new SchemaError(path, `a string${bounds(min, max, 0)}`);
+    }
+    return v;
+  });
+}
+
+export function number(opts: { min?: number; max?: number } = {}): Schema<number> {
+  return schema((v, path) => {
+    const { min = -Infinity, max = Infinity } = opts;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < min || v > max) {
+      throw new SchemaError(path, `a number${bounds(min, max, -Infinity)}`);
+    }
+    return v;
+  });
+}
+
+export function integer(opts: { min?: number; max?: number } = {}): Schema<number> {
+  return schema((v, path) => {
+    const { min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER } = opts;
+    if (!Number.isSafeInteger(v) || (v as number) < min || (v as number) > max) {
+      throw new SchemaError(path, `an integer${bounds(min, max, Number.MIN_SAFE_INTEGER)}`);
+    }
+    return v as number;
+  });
+}
+
+export function boolean(): Schema<boolean> {
+  return schema((v, path) => {
+    if (typeof v !== "boolean") throw new SchemaError(path, "a boolean");
+    return v;
+  });
+}
+
+export function literal<const T extends readonly (string | number)[]>(...values: T): Schema<T[number]> {
+  return schema((v, path) => {
+    if (!values.includes(v as T[number])) throw new SchemaError(path, `one of ${values.join(", ")}`);
+    return v as T[number];
+  });
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return schema((v, path) => (v === null ? null : inner.parse(v, path)));
+}
+
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> & { optional: true } {
+  return { parse: (v, path = "") => (v === undefined ? undefined : inner.parse(v, path)), optional: true };
+}
+
+export function array<T>(item: Schema<T>, opts: { max?: number } = {}): Schema<T[]> {
+  return schema((v, path) => {
+    if (!Array.isArray(v)) throw new SchemaError(path, "an array");
+    if (opts.max !== undefined && v.length > opts.max) throw new SchemaError(path, `at most ${opts.max} items`);
+    return v.map((x, i) => item.parse(x, `${path}[${i}]`));
+  });
+}
+
+export function object<S extends Shape>(shape: S): Schema<Flatten<ObjectOf<S>>> {
+  return schema((v, path) => {
+    if (!isPlainObject(v)) throw new SchemaError(path, "an object");
+    const out: Record<string, unknown> = {};
+    for (const [key, s] of Object.entries(shape)) {
+      const parsed = s.parse(v[key], path ? `${path}.${key}` : key);
+      if (parsed !== undefined) out[key] = parsed;
+    }
+    return out as Flatten<ObjectOf<S>>;
+  });
+}
+
+/** Any JSON object, unchecked beyond that (e.g. tool arguments). */
+export function record(): Schema<Record<string, unknown>> {
+  return schema((v, path) => {
+    if (!isPlainObject(v)) throw new SchemaError(path, "an object");
+    return v;
+  });
+}
+
+function bounds(min: number, max: number, defaultMin: number): string {
+  if (min === defaultMin && max === Infinity) return "";
+  if (max === Infinity || max === Number.MAX_SAFE_INTEGER) return ` >= ${min}`;
+  return ` in ${min}..${max}`;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
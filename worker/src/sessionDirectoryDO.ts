@@ -0,0 +1,303 @@
+/**
+ * Durable Object per owner (the `own` claim of session tokens): the index of that owner's sessions.
+ * SQLite: one row per session (title, timestamps, message count, summary) + an FTS5 index of message
+ * content, fed incrementally from each ChatSessionDO by the Worker + the owner's profile.
+ */
+
+import type { MessageRole } from "./chatSessionDO";
+import { mergeProfile, type UserProfile } from "./profile";
+import { RpcError, serveRpc, type RpcHandlers, type RpcSchemas } from "./protocol";
+import { array, integer, literal, nullable, number, object, record, string } from "./schema";
+
+export interface SessionEntry {
+  sessionId: string;
+  /** The title set via rename, otherwise the start of the first user message. */
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  summary: string | null;
+}
+
+/** A session's state as reported by ChatSessionDO `getDirectoryEntry`. */
+export interface DirectoryUpdate {
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  summary: string | null;
+  /** Start of the first user message; the title until the session is renamed. */
+  preview: string | null;
+  /** Messages to index, ascending ID; IDs at or below the indexed cursor are ignored. */
+  messages: IndexedMessage[];
+}
+
+export interface IndexedMessage {
+  id: number;
+  role: MessageRole;
+  content: string;
+  ts: number;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  title: string;
+  messageId: number;
+  role: MessageRole;
+  ts: number;
+  /** Matching excerpt; matched terms are wrapped in `[` `]`. */
+  snippet: string;
+}
+
+/** Requests SessionDirectoryDO serves: fields and response data per request type. */
+export type SessionDirectoryApi = {
+  getCursor: { request: { sessionId: string }; response: { indexedThroughId: number } };
+  upsertSession: { request: { sessionId: string; update: DirectoryUpdate }; response: { done: true } };
+  listSessions: { request: { limit: number; offset: number }; response: { sessions: SessionEntry[]; total: number } };
+  searchSessions: { request: { query: string; limit: number }; response: SearchHit[] };
+  renameSession: { request: { sessionId: string; title: string }; response: SessionEntry | null };
+  removeSession: { request: { sessionId: string }; response: { removed: boolean } };
+  getProfile: { request: {}; response: StoredProfile };
+  /** Merges an update (see mergeProfile) into the stored profile; an invalid one is a `validation_error`. */
+  updateProfile: { request: { update: Record<string, unknown> }; response: StoredProfile };
+};
+
+export interface StoredProfile {
+  profile: UserProfile;
+  /** Null until the profile is first saved. */
+  updatedAt: number | null;
+}
+
+const sessionId = string({ min: 1 });
+const limit = integer({ min: 1, max: 10_000 });
+const directoryUpdateSchema = object({
+  createdAt: number({ min: 0 }),
+  updatedAt: number({ min: 0 }),
+  messageCount: integer({ min: 0 }),
+  summary: nullable(string()),
+  preview: nullable(string()),
+  messages: array(
+    object({
+      id: integer({ min: 1 }),
+      role: literal("user", "assistant", "system", "tool"),
+      content: string(),
+      ts: number({ min: 0 }),
+    })
+  ),
+});
+
+export const sessionDirectorySchemas: RpcSchemas<SessionDirectoryApi> = {
+  getCursor: object({ sessionId }),
+  upsertSession: object({ sessionId, update: directoryUpdateSchema }),
+  listSessions: object({ limit, offset: integer({ min: 0 }) }),
+  searchSessions: object({ query: string(), limit }),
+  renameSession: object({ sessionId, title: string({ min: 1 }) }),
+  removeSession: object({ sessionId }),
+  getProfile: object({}),
+  updateProfile: object({ update: record() }),
+};
+
+const UNTITLED = "New chat";
+const MAX_QUERY_TERMS = 8;
+
+export class SessionDirectoryDO implements DurableObject {
+  private state: DurableObjectState;
+  private sql: SqlStorage | null = null;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    this.ensureInit();
+    return serveRpc(request, sessionDirectorySchemas, this.handlers);
+  }
+
+  private readonly handlers: RpcHandlers<SessionDirectoryApi> = {
+    getCursor: ({ sessionId }) => ({ indexedThroughId: this.getCursor(sessionId) }),
+    upsertSession: ({ sessionId, update }) => {
+      this.upsertSession(sessionId, update);
+      return { done: true };
+    },
+    listSessions: ({ limit, offset }) => this.listSessions(limit, offset),
+    searchSessions: ({ query, limit }) => this.searchSessions(query, limit),
+    renameSession: ({ sessionId, title }) => this.renameSession(sessionId, title),
+    removeSession: ({ sessionId }) => ({ removed: this.removeSession(sessionId) }),
+    getProfile: () => this.getProfile(),
+    updateProfile: ({ update }) => this.updateProfile(update),
+  };
+
+  private ensureInit(): void {
+    if (this.sql) return;
+    this.sql = this.state.storage.sql;
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        title TEXT,
+        preview TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        message_count INTEGER NOT NULL DEFAULT 0,
+        summary TEXT,
+        indexed_through_id INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_updated ON sessions(updated_at);
+      CREATE VIRTUAL TABLE IF NOT EXISTS message_index USING fts5(
+        content,
+        session_id UNINDEXED,
+        message_id UNINDEXED,
+        role UNINDEXED,
+        ts UNINDEXED
+      );
+      CREATE TABLE IF NOT EXISTS profile (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  getCursor(sessionId: string): number {
+    const rows = this.sql!
+      .exec("SELECT indexed_through_id FROM sessions WHERE session_id = ?", sessionId)
+      .toArray() as { indexed_through_id: number }[];
+    return rows[0]?.indexed_through_id ?? 0;
+  }
+
+  /** Records the session's current state and indexes messages past the cursor, so replays are harmless. */
+  upsertSession(sessionId: string, update: DirectoryUpdate): void {
+    const s = this.sql!;
+    const cursor = this.getCursor(sessionId);
+    const fresh = update.messages.filter((m) => m.id > cursor);
+    const indexedThroughId = fresh.length > 0 ? fresh[fresh.length - 1].id : cursor;
+    s.exec(
+      `INSERT INTO sessions (session_id, preview, created_at, updated_at, message_count, summary, indexed_through_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(session_id) DO UPDATE SET preview = excluded.preview, updated_at = excluded.updated_at,
+         message_count = excluded.message_count, summary = excluded.summary,
+         indexed_through_id = excluded.indexed_through_id`,
+      sessionId,
+      update.preview,
+      update.createdAt,
+      update.updatedAt,
+      update.messageCount,
+      update.summary,
+      indexedThroughId
+    );
+    for (const m of fresh) {
+      s.exec(
+        "INSERT INTO message_index (content, session_id, message_id, role, ts) VALUES (?, ?, ?, ?, ?)",
+        m.content,
+        sessionId,
+        m.id,
+        m.role,
+        m.ts
+      );
+    }
+  }
+
+  /** Most recently updated first. */
+  listSessions(limit: number, offset: number): { sessions: SessionEntry[]; total: number } {
+    const s = this.sql!;
+    const rows = s
+      .exec(
+        `SELECT session_id, title, preview, created_at, updated_at, message_count, summary FROM sessions
+         ORDER BY updated_at DESC, session_id LIMIT ? OFFSET ?`,
+        limit,
+        offset
+      )
+      .toArray() as SessionSqlRow[];
+    const { total } = s.exec("SELECT COUNT(*) AS total FROM sessions").one() as { total: number };
+    return { sessions: rows.map(toSessionEntry), total };
+  }
+
+  /** Full-text search over indexed message content, best match first. Every query term must match. */
+  searchSessions(query: string, limit: number): SearchHit[] {
+    const terms = query.match(/[\p{L}\p{N}_]+/gu)?.slice(0, MAX_QUERY_TERMS) ?? [];
+    if (terms.length === 0) return [];
+    // Quoted terms keep FTS5 operators in user input from being interpreted; the last one matches as a prefix.
+    const match = terms.map((t, i) => `"${t}"${i === terms.length - 1 ? "*" : ""}`).join(" ");
+    const rows = this.sql!.exec(
+      `SELECT i.session_id, i.message_id, i.role, i.ts,
+         snippet(message_index, 0, '[', ']', '…', 16) AS snippet,
+         COALESCE(s.title, s.preview) AS title
+       FROM message_index i JOIN sessions s ON s.session_id = i.session_id
+       WHERE message_index MATCH ? ORDER BY rank LIMIT ?`,
+      match,
+      limit
+    ).toArray() as {
+      session_id: string;
+      message_id: number;
+      role: MessageRole;
+      ts: number;
+      snippet: string;
+      title: string | null;
+    }[];
+    return rows.map((r) => ({
+      sessionId: r.session_id,
+      title: r.title ?? UNTITLED,
+      messageId: r.message_id,
+      role: r.role,
+      ts: r.ts,
+      snippet: r.snippet,
+    }));
+  }
+
+  renameSession(sessionId: string, title: string): SessionEntry | null {
+    const rows = this.sql!.exec(
+      `UPDATE sessions SET title = ? WHERE session_id = ?
+       RETURNING session_id, title, preview, created_at, updated_at, message_count, summary`,
+      title,
+      sessionId
+    ).toArray() as SessionSqlRow[];
+    return rows.length > 0 ? toSessionEntry(rows[0]) : null;
+  }
+
+  removeSession(sessionId: string): boolean {
+    const s = this.sql!;
+    s.exec("DELETE FROM message_index WHERE session_id = ?", sessionId);
+    return s.exec("DELETE FROM sessions WHERE session_id = ? RETURNING session_id", sessionId).toArray().length > 0;
+  }
+
+  getProfile(): StoredProfile {
+    const rows = this.sql!.exec("SELECT data, updated_at FROM profile WHERE id = 1").toArray() as {
+      data: string;
+      updated_at: number;
+    }[];
+    if (rows.length === 0) return { profile: {}, updatedAt: null };
+    return { profile: JSON.parse(rows[0].data) as UserProfile, updatedAt: rows[0].updated_at };
+  }
+
+  /** Merged here rather than in the Worker so concurrent updates to different fields are all kept. */
+  updateProfile(update: Record<string, unknown>): StoredProfile {
+    const profile = mergeProfile(this.getProfile().profile, update);
+    if (typeof profile === "string") throw new RpcError("validation_error", profile);
+    const now = Date.now();
+    this.sql!.exec(
+      "INSERT OR REPLACE INTO profile (id, data, updated_at) VALUES (1, ?, ?)",
+      JSON.stringify(profile),
+      now
+    );
+    return { profile, updatedAt: now };
+  }
+}
+
+type SessionSqlRow = {
+  session_id: string;
+  title: string | null;
+  preview: string | null;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+  summary: string | null;
+};
+
+function toSessionEntry(r: SessionSqlRow): SessionEntry {
+  return {
+    sessionId: r.session_id,
+    title: r.title ?? r.preview ?? UNTITLED,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+    messageCount: r.message_count,
+    summary: r.summary,
+  };
+}
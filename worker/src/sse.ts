@@ -0,0 +1,163 @@
+/**
+ * Server-Sent Events: read the Workers AI token stream and relay it to the client.
+ */
+
+import type { ModerationResult, ReplyStreamModeration } from "./moderation";
+
+const encoder = new TextEncoder();
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache",
+} as const;
+
+/** A named event relayed as-is between tokens, e.g. a tool step. */
+export interface RelayEvent {
+  event: string;
+  data: unknown;
+}
+
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/** Yields the `response` text of each Workers AI stream chunk until `[DONE]` or end of stream. */
+export async function* readAiTokens(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      let sep: number;
+      while ((sep = buffer.indexOf("\n\n")) >= 0) {
+        const block = buffer.slice(0, sep);
+        buffer = buffer.slice(sep + 2);
+        for (const line of block.split("\n")) {
+          if (!line.startsWith("data:")) continue;
+          const payload = line.slice(5).trim();
+          if (payload === "[DONE]") return;
+          let parsed: { response?: unknown };
+          try {
+            parsed = JSON.parse(payload) as { response?: unknown };
+          } catch {
+            continue;
+          }
+          if (typeof parsed.response === "string" && parsed.response) yield parsed.response;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Passes reply text through `moderation` so that only moderated text is relayed; events pass through as-is.
+ * Once the source is exhausted, `onResult` gets the moderation of the whole reply.
+ */
+export async function* moderatedTokens<T extends RelayEvent = never>(
+  source: AsyncIterable<string | T>,
+  moderation: ReplyStreamModeration,
+  onResult: (result: ModerationResult) => void
+): AsyncGenerator<string | T> {
+  let sent = "";
+  for await (const item of source) {
+    if (typeof item !== "string") {
+      yield item;
+      continue;
+    }
+    const text = moderation.push(item);
+    sent += text;
+    if (text) yield text;
+  }
+  const result = await moderation.end();
+  onResult(result);
+  const rest = result.text.slice(sent.length);
+  if (rest) yield rest;
+}
+
+/**
+ * Forwards AI tokens to `sink` as `token` events, then `done` (or `error`). The source is a Workers AI
+ * stream or an iterable of tokens and RelayEvents. It is read to the end even if the client disconnects,
+ * and `persist` is always called with the text produced. `doneExtra` is merged into the `done` payload
+ * next to `reply`; pass a function to compute it once the source is exhausted. `onText` sees the reply so
+ * far after each token. Resolves with the error sent to the client, or null.
+ */
+export async function relayAiStream(
+  source: ReadableStream<Uint8Array> | AsyncIterable<string | RelayEvent>,
+  sink: WritableStream<Uint8Array>,
+  persist: (reply: string) => Promise<void>,
+  doneExtra: Record<string, unknown> | (() => Record<string, unknown>) = {},
+  onText?: (reply: string) => void
+): Promise<{ code: string; message: string } | null> {
+  const writer = sink.getWriter();
+  let connected = true;
+  const send = async (event: string, data: unknown): Promise<void> => {
+    if (!connected) return;
+    try {
+      await writer.write(encodeSSE(event, data));
+    } catch {
+      connected = false;
+    }
+  };
+
+  let reply = "";
+  let failure: { code: string; message: string } | null = null;
+  try {
+    const items = source instanceof ReadableStream ? readAiTokens(source) : source;
+    for await (const item of items) {
+      if (typeof item !== "string") {
+        await send(item.event, item.data);
+        continue;
+      }
+      reply += item;
+      onText?.(reply);
+      await send("token", { token: item });
+    }
+  } catch (e) {
+    failure = { code: "ai_error", message: e instanceof Error ? e.message : "AI stream error" };
+  }
+
+  if (!failure && !reply) reply = "No response.";
+  if (reply) {
+    try {
+      await persist(reply);
+    } catch (e) {
+      failure ??= { code: "internal", message: e instanceof Error ? e.message : "Failed to save reply" };
+    }
+  }
+
+  if (failure) {
+    await send("error", failure);
+  } else {
+    await send("done", { reply, ...(typeof doneExtra === "function" ? doneExtra() : doneExtra) });
+  }
+  if (connected) {
+    try {
+      await writer.close();
+    } catch {
+      // client went away between the last write and close
+    }
+  }
+  return failure;
+}
+
+/** The last `done` or `error` event of a relayed stream (see relayAiStream), or null if it ended without one. */
+export async function readFinalEvent(stream: ReadableStream<Uint8Array>): Promise<RelayEvent | null> {
+  const text = await new Response(stream).text();
+  let last: RelayEvent | null = null;
+  for (const block of text.split("\n\n")) {
+    const event = /^event: (done|error)$/m.exec(block)?.[1];
+    const data = /^data: (.*)$/m.exec(block)?.[1];
+    if (!event || data === undefined) continue;
+    try {
+      last = { event, data: JSON.parse(data) as unknown };
+    } catch {
+      // a truncated final block
+    }
+  }
+  return last;
+}
@@ -0,0 +1,417 @@
+/**
+ * Structured replies for /api/chat's `responseSchema`: the model is asked for JSON (in Workers AI JSON mode when
+ * the model supports it), the reply is validated against the schema, and an invalid reply goes back to the model
+ * with its violations for a bounded number of repair attempts. Covers the commonly used subset of JSON Schema;
+ * `checkJsonSchema` rejects the keywords that are not enforced rather than silently ignoring them.
+ */
+
+import { estimateTokens, type ChatMessage } from "./context";
+import { runTextModel, type ModelSpec } from "./models";
+
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+export const MAX_SCHEMA_CHARS = 16_000;
+const MAX_SCHEMA_DEPTH = 16;
+const MAX_PATTERN_CHARS = 256;
+/** Violations reported per reply; the rest are summarized as a count. */
+const MAX_VIOLATIONS = 20;
+
+const TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"];
+const UNSUPPORTED_KEYWORDS = [
+  "$ref",
+  "$defs",
+  "definitions",
+  "patternProperties",
+  "propertyNames",
+  "dependentRequired",
+  "dependentSchemas",
+  "prefixItems",
+  "contains",
+  "if",
+  "then",
+  "else",
+  "not",
+  "unevaluatedProperties",
+  "unevaluatedItems",
+];
+
+/** Checks that `schema` is a JSON Schema this module can enforce; returns an error message otherwise. */
+export function checkJsonSchema(schema: unknown): string | null {
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    return "responseSchema must be an object";
+  }
+  if (JSON.stringify(schema).length > MAX_SCHEMA_CHARS) {
+    return `responseSchema must be at most ${MAX_SCHEMA_CHARS} characters`;
+  }
+  return checkSchemaNode(schema, "responseSchema", 0);
+}
+
+function checkSchemaNode(node: unknown, path: string, depth: number): string | null {
+  if (typeof node === "boolean") return null;
+  if (typeof node !== "object" || node === null || Array.isArray(node)) return `${path} must be a schema object`;
+  if (depth > MAX_SCHEMA_DEPTH) return `${path} is nested more than ${MAX_SCHEMA_DEPTH} levels deep`;
+  const s = node as Record<string, unknown>;
+  const unsupported = UNSUPPORTED_KEYWORDS.find((k) => k in s);
+  if (unsupported) return `${path}: "${unsupported}" is not supported`;
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type : [s.type];
+    if (types.length === 0 || !types.every((t) => TYPES.includes(t as string))) {
+      return `${path}.type must be one of ${TYPES.join(", ")} (or an array of them)`;
+    }
+  }
+  if (s.enum !== undefined && (!Array.isArray(s.enum) || s.enum.length === 0)) {
+    return `${path}.enum must be a non-empty array`;
+  }
+  for (const k of ["minLength", "maxLength", "minItems", "maxItems", "minProperties", "maxProperties"]) {
+    if (s[k] !== undefined && !(Number.isInteger(s[k]) && (s[k] as number) >= 0)) {
+      return `${path}.${k} must be a non-negative integer`;
+    }
+  }
+  for (const k of ["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum"]) {
+    if (s[k] !== undefined && typeof s[k] !== "number") return `${path}.${k} must be a number`;
+  }
+  if (s.multipleOf !== undefined && !(typeof s.multipleOf === "number" && s.multipleOf > 0)) {
+    return `${path}.multipleOf must be a positive number`;
+  }
+  if (s.uniqueItems !== undefined && typeof s.uniqueItems !== "boolean") {
+    return `${path}.uniqueItems must be a boolean`;
+  }
+  if (s.pattern !== undefined) {
+    if (typeof s.pattern !== "string") return `${path}.pattern must be a string`;
+    if (s.pattern.length > MAX_PATTERN_CHARS) return `${path}.pattern must be at most ${MAX_PATTERN_CHARS} characters`;
+    try {
+      new RegExp(s.pattern, "u");
+    } catch {
+      return `${path}.pattern is not a valid regular expression`;
+    }
+    if (backtracksExponentially(s.pattern)) {
+      return `${path}.pattern is not supported: it has a backreference, or a repeated group that repeats or alternates`;
+    }
+  }
+  if (s.required !== undefined && !(Array.isArray(s.required) && s.required.every((r) => typeof r === "string"))) {
+    return `${path}.required must be an array of strings`;
+  }
+  if (s.properties !== undefined) {
+    if (typeof s.properties !== "object" || s.properties === null || Array.isArray(s.properties)) {
+      return `${path}.properties must be an object`;
+    }
+    for (const [name, sub] of Object.entries(s.properties)) {
+      const error = checkSchemaNode(sub, `${path}.properties.${name}`, depth + 1);
+      if (error) return error;
+    }
+  }
+  for (const k of ["items", "additionalProperties"]) {
+    if (s[k] !== undefined) {
+      const error = checkSchemaNode(s[k], `${path}.${k}`, depth + 1);
+      if (error) return error;
+    }
+  }
+  for (const k of ["anyOf", "oneOf", "allOf"]) {
+    if (s[k] === undefined) continue;
+    if (!Array.isArray(s[k]) || (s[k] as unknown[]).length === 0) return `${path}.${k} must be a non-empty array`;
+    for (const [i, sub] of (s[k] as unknown[]).entries()) {
+      const error = checkSchemaNode(sub, `${path}.${k}[${i}]`, depth + 1);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a pattern has a shape that can take exponential time to reject a string (ReDoS): a backreference, or
+ * a group repeated with `*`, `+` or `{}` that itself contains a repetition or an alternation, as in `(a+)+` or
+ * `(a|ab)*`. Conservative: some safe patterns are refused too.
+ */
+function backtracksExponentially(pattern: string): boolean {
+  // Per open group: whether it contains a repetition or an alternation so far.
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? "")) return true;
+      i++;
+    } else if (inClass) {
+      if (c === "]") inClass = false;
+    } else if (c === "[") {
+      inClass = true;
+    } else if (c === "(") {
+      groups.push(false);
+    } else if (c === ")") {
+      const complex = groups.pop() ?? false;
+      const repeated = /[*+{]/.test(pattern[i + 1] ?? "");
+      if (complex && repeated) return true;
+      if ((complex || repeated) && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (/[*+{|]/.test(c) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/** What `value` violates in `schema` (checked with checkJsonSchema), as `path: problem` lines; empty when valid. */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const out: string[] = [];
+  collectViolations(value, schema, path, out);
+  if (out.length <= MAX_VIOLATIONS) return out;
+  return [...out.slice(0, MAX_VIOLATIONS), `…and ${out.length - MAX_VIOLATIONS} more`];
+}
+
+function collectViolations(value: unknown, schema: JsonSchema, path: string, out: string[]): void {
+  if (schema === true) return;
+  if (schema === false) {
+    out.push(`${path}: not allowed`);
+    return;
+  }
+  const s = schema as Record<string, unknown>;
+  if (s.type !== undefined) {
+    const types = (Array.isArray(s.type) ? s.type : [s.type]) as string[];
+    if (!types.some((t) => hasType(value, t))) {
+      out.push(`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (s.const !== undefined && !jsonEqual(value, s.const)) out.push(`${path}: must be ${JSON.stringify(s.const)}`);
+  if (Array.isArray(s.enum) && !s.enum.some((e) => jsonEqual(value, e))) {
+    out.push(`${path}: must be one of ${s.enum.map((e) => JSON.stringify(e)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    const length = [...value].length;
+    if (typeof s.minLength === "number" && length < s.minLength) {
+      out.push(`${path}: shorter than ${s.minLength} characters`);
+    }
+    if (typeof s.maxLength === "number" && length > s.maxLength) {
+      out.push(`${path}: longer than ${s.maxLength} characters`);
+    }
+    if (typeof s.pattern === "string" && !new RegExp(s.pattern, "u").test(value)) {
+      out.push(`${path}: does not match pattern ${s.pattern}`);
+    }
+  }
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) out.push(`${path}: less than ${s.minimum}`);
+    if (typeof s.maximum === "number" && value > s.maximum) out.push(`${path}: greater than ${s.maximum}`);
+    if (typeof s.exclusiveMinimum === "number" && value <= s.exclusiveMinimum) {
+      out.push(`${path}: must be greater than ${s.exclusiveMinimum}`);
+    }
+    if (typeof s.exclusiveMaximum === "number" && value >= s.exclusiveMaximum) {
+      out.push(`${path}: must be less than ${s.exclusiveMaximum}`);
+    }
+    if (typeof s.multipleOf === "number" && !Number.isInteger(value / s.multipleOf)) {
+      out.push(`${path}: not a multiple of ${s.multipleOf}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    const n = value.length;
+    if (typeof s.minItems === "number" && n < s.minItems) out.push(`${path}: fewer than ${s.minItems} items`);
+    if (typeof s.maxItems === "number" && n > s.maxItems) out.push(`${path}: more than ${s.maxItems} items`);
+    if (s.uniqueItems === true && value.some((v, i) => value.findIndex((w) => jsonEqual(v, w)) !== i)) {
+      out.push(`${path}: items must be unique`);
+    }
+    if (s.items !== undefined) {
+      value.forEach((v, i) => collectViolations(v, s.items as JsonSchema, `${path}[${i}]`, out));
+    }
+  }
+  if (isObject(value)) {
+    const keys = Object.keys(value);
+    if (typeof s.minProperties === "number" && keys.length < s.minProperties) {
+      out.push(`${path}: fewer than ${s.minProperties} properties`);
+    }
+    if (typeof s.maxProperties === "number" && keys.length > s.maxProperties) {
+      out.push(`${path}: more than ${s.maxProperties} properties`);
+    }
+    for (const name of (s.required as string[] | undefined) ?? []) {
+      if (!(name in value)) out.push(`${path}: missing required property "${name}"`);
+    }
+    const properties = (s.properties ?? {}) as Record<string, JsonSchema>;
+    for (const key of keys) {
+      const childPath = `${path}.${key}`;
+      if (key in properties) collectViolations(value[key], properties[key], childPath, out);
+      else if (s.additionalProperties === false) out.push(`${childPath}: property not allowed`);
+      else if (s.additionalProperties !== undefined) {
+        collectViolations(value[key], s.additionalProperties as JsonSchema, childPath, out);
+      }
+    }
+  }
+
+  if (Array.isArray(s.allOf)) for (const sub of s.allOf as JsonSchema[]) collectViolations(value, sub, path, out);
+  const matches = (sub: JsonSchema) => validateJson(value, sub, path).length === 0;
+  if (Array.isArray(s.anyOf) && !(s.anyOf as JsonSchema[]).some(matches)) {
+    out.push(`${path}: does not match any of the allowed schemas (anyOf)`);
+  }
+  if (Array.isArray(s.oneOf)) {
+    const count = (s.oneOf as JsonSchema[]).filter(matches).length;
+    if (count !== 1) out.push(`${path}: must match exactly one schema in oneOf (matched ${count})`);
+  }
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "object":
+      return isObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const ka = Object.keys(a);
+  const kb = Object.keys(b);
+  return (
+    ka.length === kb.length &&
+    ka.every((k) => jsonEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]))
+  );
+}
+
+/** The JSON value in a reply; tolerates a Markdown code fence or prose around a single object or array. */
+export function parseJsonReply(reply: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const text = reply
+    .trim()
+    .replace(/^```(?:json)?\s*\n?/i, "")
+    .replace(/\n?```$/, "")
+    .trim();
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (e) {
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+    if (start >= 0 && end > start) {
+      try {
+        return { ok: true, value: JSON.parse(text.slice(start, end + 1)) };
+      } catch {
+        // Fall through to the original error.
+      }
+    }
+    return { ok: false, error: e instanceof Error ? e.message : "invalid JSON" };
+  }
+}
+
+export interface StructuredReply {
+  /** The last reply, as JSON text. */
+  reply: string;
+  /** The parsed reply; present when it matched the schema. */
+  value?: unknown;
+  /** Empty when the reply matched the schema. */
+  violations: string[];
+  attempts: number;
+  /** Estimated tokens generated over all attempts, and sent in repair turns. */
+  completionTokens: number;
+  repairTokens: number;
+  /** Estimated tokens of the rejected replies plus the repair turns: the cost beyond the final reply. */
+  rejectedTokens: number;
+}
+
+/**
+ * Asks the model for a reply matching `schema`, feeding violations back for up to `maxAttempts` replies in all.
+ * AI errors propagate; a reply that never matches is returned with its violations.
+ */
+export async function completeStructured(opts: {
+  ai: Ai;
+  model: ModelSpec;
+  messages: ChatMessage[];
+  schema: JsonSchema;
+  temperature: number;
+  maxTokens: number;
+  maxAttempts: number;
+}): Promise<StructuredReply> {
+  const messages = withSchemaInstruction(opts.messages, opts.schema);
+  const turn = messages[messages.length - 1];
+  const result: StructuredReply = {
+    reply: "",
+    violations: [],
+    attempts: 0,
+    completionTokens: 0,
+    repairTokens: 0,
+    rejectedTokens: 0,
+  };
+  while (result.attempts < Math.max(1, opts.maxAttempts)) {
+    result.attempts++;
+    const aiRes = (await runTextModel(opts.ai, opts.model.id, {
+      messages,
+      temperature: opts.temperature,
+      max_tokens: opts.maxTokens,
+      ...(opts.model.jsonMode ? { response_format: { type: "json_schema", json_schema: opts.schema } } : {}),
+    })) as { response?: unknown };
+    // In JSON mode Workers AI may return the reply already parsed.
+    const response = aiRes?.response;
+    const parsed =
+      typeof response === "string" ? parseJsonReply(response) : { ok: true as const, value: response ?? null };
+    result.reply = typeof response === "string" ? response : JSON.stringify(response ?? null);
+    const replyTokens = estimateTokens(result.reply);
+    result.completionTokens += replyTokens;
+    result.violations = parsed.ok
+      ? validateJson(parsed.value, opts.schema)
+      : [`$: reply is not valid JSON (${parsed.error})`];
+    if (result.violations.length === 0) {
+      result.value = parsed.ok ? parsed.value : undefined;
+      result.reply = JSON.stringify(result.value, null, 2);
+      return result;
+    }
+    const repair = repairPrompt(result.violations);
+    result.repairTokens += estimateTokens(repair);
+    result.rejectedTokens += replyTokens + estimateTokens(repair);
+    messages.push({ role: "assistant", content: result.reply }, { role: "user", content: repair });
+    fitContext(messages, messages.indexOf(turn), opts.model.contextTokens - opts.maxTokens);
+  }
+  return result;
+}
+
+/** The instruction added to the system prompt; callers budget its tokens when they build the prompt. */
+export function schemaInstruction(schema: JsonSchema): string {
+  return (
+    "Reply with only a JSON value (no prose, no code fences) that conforms to this JSON Schema:\n" +
+    JSON.stringify(schema)
+  );
+}
+
+/** The request's messages with the schema instruction added to the system prompt. */
+function withSchemaInstruction(messages: ChatMessage[], schema: JsonSchema): ChatMessage[] {
+  const instruction = schemaInstruction(schema);
+  const [first, ...rest] = messages;
+  if (first?.role === "system") return [{ role: "system", content: `${first.content}\n\n${instruction}` }, ...rest];
+  return [{ role: "system", content: instruction }, ...messages];
+}
+
+/**
+ * Keeps a repair prompt within `limit` tokens: history before the user's message (at `turn`) goes first, oldest
+ * first, then earlier repair rounds. System messages, the user's message and the latest round always stay.
+ */
+function fitContext(messages: ChatMessage[], turn: number, limit: number): void {
+  let tokens = messages.reduce((n, m) => n + estimateTokens(m.content), 0);
+  const history = messages.findIndex((m) => m.role !== "system");
+  while (tokens > limit && history >= 0 && history < turn) {
+    tokens -= estimateTokens(messages.splice(history, 1)[0].content);
+    turn--;
+  }
+  while (tokens > limit && messages.length - turn - 1 > 2) {
+    tokens -= messages.splice(turn + 1, 2).reduce((n, m) => n + estimateTokens(m.content), 0);
+  }
+}
+
+function repairPrompt(violations: string[]): string {
+  return [
+    "Your reply does not match the required JSON Schema:",
+    ...violations.map((v) => `- ${v}`),
+    "Reply again with only the corrected JSON value.",
+  ].join("\n");
+}
@@ -0,0 +1,473 @@
+/**
+ * Tool calling for /api/chat: a registry of tools (name, JSON-schema arguments, handler) and a bounded
+ * loop that runs the calls the model requests and feeds the results back until it answers.
+ */
+
+import type { AttachmentRow, MessageRow, NewMessage, ToolCall } from "./chatSessionDO";
+import { estimateTokens, type ChatMessage } from "./context";
+import { runTextModel } from "./models";
+import type { RelayEvent } from "./sse";
+
+/** The JSON-schema subset tools declare; sent to the model as-is and checked by validateArguments. */
+export interface JsonSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+/** What handlers can reach: the current session's attachments and history. */
+export interface ToolContext {
+  now: number;
+  listAttachments(): Promise<AttachmentRow[]>;
+  /** Null if the file is not attached to this session. */
+  readAttachment(fileId: string): Promise<{ attachment: AttachmentRow; content: string } | null>;
+  searchMessages(query: string, limit: number): Promise<MessageRow[]>;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema & { type: "object" };
+  handler(args: Record<string, unknown>, ctx: ToolContext): Promise<unknown>;
+}
+
+export type ToolRegistry = Map<string, ToolDefinition>;
+
+/** One executed tool call, as reported to clients. */
+export interface ToolStep {
+  /** Model round that requested the call, from 1. */
+  step: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ToolLoopResult {
+  reply: string;
+  steps: ToolStep[];
+  /** Estimated tokens of tool results fed back to the model. */
+  toolTokens: number;
+}
+
+export interface ToolLoopInput {
+  ai: Ai;
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  tools: ToolRegistry;
+  ctx: ToolContext;
+  /** Rounds in which tools are offered; one more round without tools forces an answer. */
+  maxSteps: number;
+  /** Stores a tool-call or tool-result message as it happens. */
+  record(message: NewMessage): Promise<void>;
+}
+
+const MAX_CALLS_PER_STEP = 5;
+const TOOL_RESULT_MAX_CHARS = 8000;
+const READ_FILE_MAX_CHARS = 4000;
+const SEARCH_EXCERPT_CHARS = 300;
+const MAX_EXPRESSION_LENGTH = 500;
+
+export function createToolRegistry(tools: ToolDefinition[]): ToolRegistry {
+  return new Map(tools.map((t) => [t.name, t]));
+}
+
+type LoopMessage = ChatMessage | { role: "tool"; name: string; content: string };
+
+type AiToolResponse = { response?: unknown; tool_calls?: unknown };
+
+/**
+ * Calls the model with the registry's tools; while it asks for tools, runs them (invalid arguments and
+ * handler errors go back to the model as `{ error }`) and calls it again. Yields each executed step and
+ * returns the final reply. Model errors are thrown.
+ */
+export async function* runToolLoop(input: ToolLoopInput): AsyncGenerator<ToolStep, ToolLoopResult> {
+  const schemas = [...input.tools.values()].map((t) => ({
+    name: t.name,
+    description: t.description,
+    parameters: t.parameters,
+  }));
+  const messages: LoopMessage[] = [...input.messages];
+  const steps: ToolStep[] = [];
+  let toolTokens = 0;
+
+  for (let round = 1; ; round++) {
+    const offerTools = round <= input.maxSteps;
+    const res = (await runTextModel(input.ai, input.model, {
+      messages,
+      temperature: input.temperature,
+      max_tokens: input.maxTokens,
+      ...(offerTools ? { tools: schemas } : {}),
+    })) as AiToolResponse;
+    const text = typeof res?.response === "string" ? res.response : "";
+    const calls = offerTools ? parseToolCalls(res?.tool_calls).slice(0, MAX_CALLS_PER_STEP) : [];
+    if (calls.length === 0) {
+      return { reply: text || "No response.", steps, toolTokens };
+    }
+
+    messages.push({ role: "assistant", content: text || JSON.stringify(calls) });
+    await input.record({ role: "assistant", content: text, ts: Date.now(), toolCalls: calls });
+    for (const call of calls) {
+      const started = Date.now();
+      const step: ToolStep = { step: round, name: call.name, arguments: call.arguments, durationMs: 0 };
+      try {
+        step.result = await executeTool(input.tools, call, input.ctx);
+      } catch (e) {
+        step.error = e instanceof Error ? e.message : "Tool failed";
+      }
+      step.durationMs = Date.now() - started;
+      let content = JSON.stringify(step.error !== undefined ? { error: step.error } : (step.result ?? null));
+      if (content.length > TOOL_RESULT_MAX_CHARS) content = `${content.slice(0, TOOL_RESULT_MAX_CHARS)}...[truncated]`;
+      messages.push({ role: "tool", name: call.name, content });
+      toolTokens += estimateTokens(content);
+      await input.record({ role: "tool", content, ts: Date.now(), toolName: call.name });
+      steps.push(step);
+      yield step;
+    }
+  }
+}
+
+/** Runs a tool loop to completion; the steps are in the result. */
+export async function completeToolLoop(loop: AsyncGenerator<ToolStep, ToolLoopResult>): Promise<ToolLoopResult> {
+  let next = await loop.next();
+  while (!next.done) next = await loop.next();
+  return next.value;
+}
+
+/** Adapts a tool loop for relayAiStream: a `tool` event per step, then the reply as one token. */
+export async function* toolLoopEvents(
+  loop: AsyncGenerator<ToolStep, ToolLoopResult>,
+  onResult: (result: ToolLoopResult) => void
+): AsyncGenerator<string | RelayEvent> {
+  let next = await loop.next();
+  while (!next.done) {
+    yield { event: "tool", data: next.value };
+    next = await loop.next();
+  }
+  onResult(next.value);
+  yield next.value.reply;
+}
+
+/** Workers AI returns `arguments` as an object, or sometimes as a JSON string. */
+function parseToolCalls(raw: unknown): ToolCall[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((c: { name?: unknown; arguments?: unknown }) => {
+    if (typeof c?.name !== "string") return [];
+    let args = c.arguments;
+    if (typeof args === "string") {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        args = {};
+      }
+    }
+    const valid = typeof args === "object" && args !== null && !Array.isArray(args);
+    return [{ name: c.name, arguments: valid ? (args as Record<string, unknown>) : {} }];
+  });
+}
+
+async function executeTool(tools: ToolRegistry, call: ToolCall, ctx: ToolContext): Promise<unknown> {
+  const tool = tools.get(call.name);
+  if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+  const invalid = validateArguments(tool.parameters, call.arguments);
+  if (invalid) throw new Error(invalid);
+  return tool.handler(call.arguments, ctx);
+}
+
+/** Checks a value against a schema (type, required, enum, nested objects/arrays); returns an error message or null. */
+export function validateArguments(schema: JsonSchema, value: unknown, path = "arguments"): string | null {
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) return `${path} must be an object`;
+      const obj = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (obj[key] === undefined) return `${path}.${key} is required`;
+      }
+      for (const [key, v] of Object.entries(obj)) {
+        const prop = schema.properties?.[key];
+        if (!prop) return `${path}.${key} is not a known argument`;
+        const err = validateArguments(prop, v, `${path}.${key}`);
+        if (err) return err;
+      }
+      return null;
+    }
+    case "array": {
+      if (!Array.isArray(value)) return `${path} must be an array`;
+      if (!schema.items) return null;
+      for (let i = 0; i < value.length; i++) {
+        const err = validateArguments(schema.items, value[i], `${path}[${i}]`);
+        if (err) return err;
+      }
+      return null;
+    }
+    case "string":
+      if (typeof value !== "string") return `${path} must be a string`;
+      if (schema.enum && !schema.enum.includes(value)) return `${path} must be one of: ${schema.enum.join(", ")}`;
+      return null;
+    case "integer":
+      return Number.isInteger(value) ? null : `${path} must be an integer`;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : `${path} must be a number`;
+    case "boolean":
+      return typeof value === "boolean" ? null : `${path} must be a boolean`;
+  }
+}
+
+const listFilesTool: ToolDefinition = {
+  name: "list_files",
+  description: "List the files uploaded to this chat session, with their IDs.",
+  parameters: { type: "object", properties: {} },
+  async handler(_args, ctx) {
+    const files = await ctx.listAttachments();
+    return {
+      files: files.map((f) => ({ fileId: f.fileId, filename: f.name, size: f.size, contentType: f.contentType })),
+    };
+  },
+};
+
+const readFileTool: ToolDefinition = {
+  name: "read_file",
+  description:
+    "Read part of a file uploaded to this session. Use list_files to find file IDs. Returns up to maxChars characters starting at offset.",
+  parameters: {
+    type: "object",
+    properties: {
+      fileId: { type: "string", description: "ID of the file" },
+      offset: { type: "integer", description: "Character offset to start at (default 0)" },
+      maxChars: { type: "integer", description: `Characters to return, at most ${READ_FILE_MAX_CHARS} (the default)` },
+    },
+    required: ["fileId"],
+  },
+  async handler(args, ctx) {
+    const file = await ctx.readAttachment(String(args.fileId));
+    if (!file) throw new Error("File not found in this session");
+    const offset = Math.max(0, (args.offset as number | undefined) ?? 0);
+    const requested = (args.maxChars as number | undefined) ?? READ_FILE_MAX_CHARS;
+    const maxChars = Math.min(Math.max(1, requested), READ_FILE_MAX_CHARS);
+    const content = file.content.slice(offset, offset + maxChars);
+    return {
+      fileId: file.attachment.fileId,
+      filename: file.attachment.name,
+      offset,
+      content,
+      totalChars: file.content.length,
+      hasMore: offset + content.length < file.content.length,
+    };
+  },
+};
+
+const searchHistoryTool: ToolDefinition = {
+  name: "search_history",
+  description: "Search earlier user and assistant messages in this session for a word or phrase.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Text to look for (case-insensitive)" },
+      limit: { type: "integer", description: "Maximum matches, 1..20 (default 5)" },
+    },
+    required: ["query"],
+  },
+  async handler(args, ctx) {
+    const query = String(args.query).trim();
+    if (!query) throw new Error("query must not be empty");
+    const limit = Math.min(Math.max(1, (args.limit as number | undefined) ?? 5), 20);
+    const found = await ctx.searchMessages(query, limit);
+    return {
+      matches: found.map((m) => ({ id: m.id, role: m.role, ts: m.ts, excerpt: excerpt(m.content, query) })),
+    };
+  },
+};
+
+/** Up to SEARCH_EXCERPT_CHARS of `text` around the first match of `query`. */
+function excerpt(text: string, query: string): string {
+  if (text.length <= SEARCH_EXCERPT_CHARS) return text;
+  const at = Math.max(0, text.toLowerCase().indexOf(query.toLowerCase()));
+  const start = Math.max(0, Math.min(at - SEARCH_EXCERPT_CHARS / 3, text.length - SEARCH_EXCERPT_CHARS));
+  const end = start + SEARCH_EXCERPT_CHARS;
+  return `${start > 0 ? "..." : ""}${text.slice(start, end)}${end < text.length ? "..." : ""}`;
+}
+
+const calculateTool: ToolDefinition = {
+  name: "calculate",
+  description:
+    "Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, min, max, pow, log, log10, log2, exp, sin, cos, tan.",
+  parameters: {
+    type: "object",
+    properties: { expression: { type: "string", description: "For example (3 + 4) * 2 ^ 3" } },
+    required: ["expression"],
+  },
+  async handler(args) {
+    const expression = String(args.expression);
+    return { expression, result: evaluateExpression(expression) };
+  },
+};
+
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+  log: Math.log,
+  log10: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+};
+
+/** Recursive-descent evaluator; `^` is right-associative and binds tighter than unary minus. */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|\S/gi) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (t: string) => {
+    if (tokens[pos++] !== t) throw new Error(`Expected "${t}"`);
+  };
+
+  const parseSum = (): number => {
+    let v = parseProduct();
+    while (peek() === "+" || peek() === "-") {
+      const op = tokens[pos++];
+      const rhs = parseProduct();
+      v = op === "+" ? v + rhs : v - rhs;
+    }
+    return v;
+  };
+  const parseProduct = (): number => {
+    let v = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = tokens[pos++];
+      const rhs = parseUnary();
+      v = op === "*" ? v * rhs : op === "/" ? v / rhs : v % rhs;
+    }
+    return v;
+  };
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      pos++;
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === "^" || peek() === "**") {
+      pos++;
+      return base ** parseUnary();
+    }
+    return base;
+  };
+  const parseAtom = (): number => {
+    const t = tokens[pos++];
+    if (t === undefined) throw new Error("Unexpected end of expression");
+    if (t === "(") {
+      const v = parseSum();
+      expect(")");
+      return v;
+    }
+    if (/^[\d.]/.test(t)) return Number(t);
+    const name = t.toLowerCase();
+    if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+    const fn = MATH_FUNCTIONS[name];
+    if (!fn) throw new Error(`Unexpected "${t}"`);
+    expect("(");
+    const args = [parseSum()];
+    while (peek() === ",") {
+      pos++;
+      args.push(parseSum());
+    }
+    expect(")");
+    return fn(...args);
+  };
+
+  const value = parseSum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  if (!Number.isFinite(value)) throw new Error("Result is not a finite number");
+  return value;
+}
+
+const DURATION_UNITS = ["years", "months", "weeks", "days", "hours", "minutes", "seconds"] as const;
+
+const dateMathTool: ToolDefinition = {
+  name: "date_math",
+  description:
+    "Date arithmetic in UTC. Starts from `date` (ISO 8601, default now), adds the `add` offsets (negative to subtract), and with `compareTo` also returns the difference compareTo - date.",
+  parameters: {
+    type: "object",
+    properties: {
+      date: { type: "string", description: "ISO 8601 date or date-time; defaults to now" },
+      add: {
+        type: "object",
+        description: "Offsets to add",
+        properties: Object.fromEntries(DURATION_UNITS.map((u) => [u, { type: "integer" as const }])),
+      },
+      compareTo: { type: "string", description: "ISO 8601 date or date-time to measure the difference to" },
+    },
+  },
+  async handler(args, ctx) {
+    const date = args.date === undefined ? new Date(ctx.now) : parseDate(String(args.date));
+    const add = (args.add ?? {}) as Partial<Record<(typeof DURATION_UNITS)[number], number>>;
+    // Month arithmetic clamps to the end of the month (Jan 31 + 1 month = Feb 28/29).
+    const dayOfMonth = date.getUTCDate();
+    date.setUTCFullYear(date.getUTCFullYear() + (add.years ?? 0), date.getUTCMonth() + (add.months ?? 0), 1);
+    const monthDays = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(dayOfMonth, monthDays));
+    date.setUTCDate(date.getUTCDate() + (add.weeks ?? 0) * 7 + (add.days ?? 0));
+    date.setUTCHours(
+      date.getUTCHours() + (add.hours ?? 0),
+      date.getUTCMinutes() + (add.minutes ?? 0),
+      date.getUTCSeconds() + (add.seconds ?? 0)
+    );
+    if (Number.isNaN(date.getTime())) throw new Error("Resulting date is out of range");
+    const result: Record<string, unknown> = {
+      date: date.toISOString(),
+      weekday: date.toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" }),
+    };
+    if (args.compareTo !== undefined) {
+      const other = parseDate(String(args.compareTo));
+      const ms = other.getTime() - date.getTime();
+      result.compareTo = other.toISOString();
+      result.difference = {
+        milliseconds: ms,
+        minutes: ms / 60_000,
+        hours: ms / 3_600_000,
+        days: ms / 86_400_000,
+        weeks: ms / 604_800_000,
+      };
+    }
+    return result;
+  },
+};
+
+function parseDate(s: string): Date {
+  const d = new Date(s);
+  if (Number.isNaN(d.getTime())) throw new Error(`Not a valid date: ${s}`);
+  return d;
+}
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  listFilesTool,
+  readFileTool,
+  searchHistoryTool,
+  calculateTool,
+  dateMathTool,
+];
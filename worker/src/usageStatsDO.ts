@@ -0,0 +1,191 @@
+/**
+ * Durable Object: deployment-wide usage counters per UTC day, route and model, fed by the Worker after every
+ * request and read by /api/admin/stats. The counters are sharded over USAGE_STATS_SHARDS instances so no single
+ * instance takes every write; reads merge the shards.
+ */
+
+import { usageRecordSchema, type UsageRecord } from "./observability";
+import { serveRpc, type RpcHandlers, type RpcSchemas } from "./protocol";
+import { integer, number, object } from "./schema";
+
+export interface UsageTotals {
+  requests: number;
+  errors: number;
+  rejected: number;
+  promptTokens: number;
+  completionTokens: number;
+  aiMs: number;
+  doMs: number;
+  durationMs: number;
+}
+
+export interface UsageStats {
+  /** First and last UTC day covered, `YYYY-MM-DD`. */
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  /** Requests that called a chat model, per model. */
+  byModel: (UsageTotals & { model: string })[];
+  byRoute: (UsageTotals & { route: string })[];
+}
+
+/** Requests UsageStatsDO serves: fields and response data per request type. */
+export type UsageStatsApi = {
+  record: { request: { usage: UsageRecord; now: number }; response: { done: true } };
+  getStats: { request: { days: number; now: number }; response: UsageStats };
+};
+
+/** Instances the counters are spread over; each request is added to one picked at random. */
+export const USAGE_STATS_SHARDS = 16;
+
+const DAY_MS = 86_400_000;
+/** Days of counters kept; older rows are dropped as new days start. */
+const KEEP_DAYS = 90;
+
+export const usageStatsSchemas: RpcSchemas<UsageStatsApi> = {
+  record: object({ usage: usageRecordSchema, now: number({ min: 0 }) }),
+  getStats: object({ days: integer({ min: 1, max: KEEP_DAYS }), now: number({ min: 0 }) }),
+};
+
+// SUM over no rows is NULL, hence the COALESCE.
+const TOTAL_COLUMNS = `COALESCE(SUM(requests), 0) AS requests, COALESCE(SUM(errors), 0) AS errors,
+  COALESCE(SUM(rejected), 0) AS rejected, COALESCE(SUM(prompt_tokens), 0) AS promptTokens,
+  COALESCE(SUM(completion_tokens), 0) AS completionTokens, COALESCE(SUM(ai_ms), 0) AS aiMs,
+  COALESCE(SUM(do_ms), 0) AS doMs, COALESCE(SUM(duration_ms), 0) AS durationMs`;
+
+/** A row of TOTAL_COLUMNS. */
+type TotalsSqlRow = { [K in keyof UsageTotals]: number };
+
+/** Name of shard `i`; shard 0 keeps the name of the former single instance, so its counters still count. */
+export function usageStatsShard(i: number): string {
+  return i === 0 ? "global" : `global-${i}`;
+}
+
+/** Combines the stats of the shards, ordered like each shard's. */
+export function mergeUsageStats(parts: UsageStats[]): UsageStats {
+  const totals = emptyTotals();
+  const byModel = new Map<string, UsageTotals & { model: string }>();
+  const byRoute = new Map<string, UsageTotals & { route: string }>();
+  for (const part of parts) {
+    addTotals(totals, part.totals);
+    for (const m of part.byModel) {
+      const row = byModel.get(m.model) ?? { model: m.model, ...emptyTotals() };
+      byModel.set(m.model, addTotals(row, m));
+    }
+    for (const r of part.byRoute) {
+      const row = byRoute.get(r.route) ?? { route: r.route, ...emptyTotals() };
+      byRoute.set(r.route, addTotals(row, r));
+    }
+  }
+  return {
+    from: parts[0]?.from ?? "",
+    to: parts[0]?.to ?? "",
+    totals,
+    byModel: [...byModel.values()].sort((a, b) => b.requests - a.requests || (a.model < b.model ? -1 : 1)),
+    byRoute: [...byRoute.values()].sort((a, b) => b.requests - a.requests || (a.route < b.route ? -1 : 1)),
+  };
+}
+
+export class UsageStatsDO implements DurableObject {
+  private state: DurableObjectState;
+  private sql: SqlStorage | null = null;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    this.ensureInit();
+    return serveRpc(request, usageStatsSchemas, this.handlers);
+  }
+
+  private readonly handlers: RpcHandlers<UsageStatsApi> = {
+    record: ({ usage, now }) => {
+      this.record(usage, now);
+      return { done: true };
+    },
+    getStats: ({ days, now }) => this.getStats(days, now),
+  };
+
+  private ensureInit(): void {
+    if (this.sql) return;
+    this.sql = this.state.storage.sql;
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS usage (
+        day TEXT NOT NULL,
+        route TEXT NOT NULL,
+        model TEXT NOT NULL,
+        requests INTEGER NOT NULL DEFAULT 0,
+        errors INTEGER NOT NULL DEFAULT 0,
+        rejected INTEGER NOT NULL DEFAULT 0,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        ai_ms INTEGER NOT NULL DEFAULT 0,
+        do_ms INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (day, route, model)
+      );
+    `);
+  }
+
+  record(u: UsageRecord, now: number): void {
+    const s = this.sql!;
+    const day = utcDay(now);
+    const isNewDay = s.exec("SELECT 1 FROM usage WHERE day = ? LIMIT 1", day).toArray().length === 0;
+    s.exec(
+      `INSERT INTO usage (day, route, model, requests, errors, rejected, prompt_tokens, completion_tokens, ai_ms,
+         do_ms, duration_ms)
+       VALUES (?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(day, route, model) DO UPDATE SET requests = requests + 1, errors = errors + excluded.errors,
+         rejected = rejected + excluded.rejected, prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+         completion_tokens = completion_tokens + excluded.completion_tokens, ai_ms = ai_ms + excluded.ai_ms,
+         do_ms = do_ms + excluded.do_ms, duration_ms = duration_ms + excluded.duration_ms`,
+      day,
+      u.route,
+      u.model,
+      u.error ? 1 : 0,
+      u.rejected ? 1 : 0,
+      u.promptTokens,
+      u.completionTokens,
+      u.aiMs,
+      u.doMs,
+      u.durationMs
+    );
+    if (isNewDay) s.exec("DELETE FROM usage WHERE day < ?", utcDay(now - KEEP_DAYS * DAY_MS));
+  }
+
+  /** Counters for the last `days` UTC days, today included. */
+  getStats(days: number, now: number): UsageStats {
+    const s = this.sql!;
+    const from = utcDay(now - (days - 1) * DAY_MS);
+    const totals = s.exec(`SELECT ${TOTAL_COLUMNS} FROM usage WHERE day >= ?`, from).one() as TotalsSqlRow;
+    const byModel = s
+      .exec(
+        `SELECT model, ${TOTAL_COLUMNS} FROM usage WHERE day >= ? AND model != '' GROUP BY model
+         ORDER BY requests DESC, model`,
+        from
+      )
+      .toArray() as (TotalsSqlRow & { model: string })[];
+    const byRoute = s
+      .exec(
+        `SELECT route, ${TOTAL_COLUMNS} FROM usage WHERE day >= ? GROUP BY route ORDER BY requests DESC, route`,
+        from
+      )
+      .toArray() as (TotalsSqlRow & { route: string })[];
+    return { from, to: utcDay(now), totals, byModel, byRoute };
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, errors: 0, rejected: 0, promptTokens: 0, completionTokens: 0, aiMs: 0, doMs: 0, durationMs: 0 };
+}
+
+/** Adds `b`'s counters to `a` and returns `a`. */
+function addTotals<T extends UsageTotals>(a: T, b: UsageTotals): T {
+  for (const key of Object.keys(emptyTotals()) as (keyof UsageTotals)[]) a[key] += b[key];
+  return a;
+}
+
+function utcDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
@@ -0,0 +1,265 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import type { MessageRow } from "../src/chatSessionDO";
+import type { SessionExport } from "../src/exportFormats";
+import type { UserProfile } from "../src/profile";
+import { ADMIN_TOKEN, json, startWorker, type ChatReply, type TestWorker } from "./harness";
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker();
+});
+beforeEach(async () => {
+  worker.ai.reset();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+/** The `data:` payload of every SSE event named `event`. */
+function events<T>(text: string, event: string): T[] {
+  return text
+    .split("\n\n")
+    .filter((block) => block.startsWith(`event: ${event}\n`))
+    .map((block) => JSON.parse(block.slice(block.indexOf("data: ") + 6)) as T);
+}
+
+async function history(): Promise<MessageRow[]> {
+  const res = await worker.get(`/api/messages?sessionId=${sessionId}`, token);
+  return (await json<{ messages: MessageRow[] }>(res)).data.messages;
+}
+
+test("a reply is returned and both messages are stored", async () => {
+  worker.ai.script({ text: "Hello there." });
+  const res = await worker.post("/api/chat", { sessionId, message: "Hi!" }, token);
+  const body = await json<ChatReply>(res);
+  assert.equal(res.status, 200);
+  assert.equal(body.data.reply, "Hello there.");
+
+  const [call] = worker.ai.textCalls();
+  assert.equal(call.model, "@cf/meta/llama-3.1-8b-instruct-fp8");
+  const messages = call.inputs.messages as { role: string; content: string }[];
+  assert.equal(messages[0].role, "system");
+  assert.deepEqual(messages.at(-1), { role: "user", content: "Hi!" });
+
+  assert.deepEqual(
+    (await history()).map((m) => [m.role, m.content]),
+    [
+      ["user", "Hi!"],
+      ["assistant", "Hello there."],
+    ]
+  );
+});
+
+test("history is sent with the next turn", async () => {
+  worker.ai.script({ text: "First answer." }, { text: "Second answer." });
+  await worker.post("/api/chat", { sessionId, message: "First question" }, token);
+  await worker.post("/api/chat", { sessionId, message: "Second question" }, token);
+  const messages = worker.ai.textCalls()[1].inputs.messages as { role: string; content: string }[];
+  assert.deepEqual(
+    messages.slice(1).map((m) => m.content),
+    ["First question", "First answer.", "Second question"]
+  );
+});
+
+test("a model failure is a 502 ai_error and no reply is stored", async () => {
+  worker.ai.script({ error: "3040: Capacity temporarily exceeded" });
+  const res = await worker.post("/api/chat", { sessionId, message: "Hi!" }, token);
+  const body = await json(res);
+  assert.equal(res.status, 502);
+  assert.equal(body.error.code, "ai_error");
+  assert.match(body.error.message, /Capacity temporarily exceeded/);
+
+  assert.equal((await history()).filter((m) => m.role === "assistant").length, 0);
+});
+
+test("a streamed reply arrives as token events and is stored", async () => {
+  worker.ai.script({ text: "One two three.", delayMs: 5 });
+  const res = await worker.post("/api/chat", { sessionId, message: "Count", stream: true }, token);
+  assert.equal(res.status, 200);
+  assert.match(res.headers.get("Content-Type") ?? "", /text\/event-stream/);
+  const text = await res.text();
+  assert.deepEqual(
+    events<{ token: string }>(text, "token").map((e) => e.token),
+    ["One ", "two ", "three."]
+  );
+  const [done] = events<ChatReply>(text, "done");
+  assert.equal(done.reply, "One two three.");
+  assert.equal((await history()).at(-1)?.content, "One two three.");
+});
+
+test("streamed tokens are redacted before they are sent", async () => {
+  worker.ai.script({ text: "Mail jane@example.com or call +1 555 123 4567 today." });
+  const res = await worker.post("/api/chat", { sessionId, message: "Contact?", stream: true }, token);
+  const text = await res.text();
+  const redacted = "Mail [REDACTED_EMAIL] or call [REDACTED_PHONE] today.";
+  assert.doesNotMatch(text, /jane@|555/);
+  assert.equal(events<{ token: string }>(text, "token").map((e) => e.token).join(""), redacted);
+  const [done] = events<ChatReply>(text, "done");
+  assert.equal(done.reply, redacted);
+  assert.equal(done.moderation.reply, "redact");
+  assert.equal((await history()).at(-1)?.content, redacted);
+});
+
+test("the OpenAI-compatible stream is redacted before it is sent", async () => {
+  worker.ai.script({ text: "Write to jane@example.com please." });
+  const res = await worker.post(
+    "/v1/chat/completions",
+    { messages: [{ role: "user", content: "Contact?" }], stream: true },
+    token
+  );
+  const text = await res.text();
+  assert.doesNotMatch(text, /jane@/);
+  const content = text
+    .split("\n\n")
+    .filter((block) => block.startsWith("data: {"))
+    .map((block) => JSON.parse(block.slice(6)).choices[0]?.delta?.content ?? "")
+    .join("");
+  assert.equal(content, "Write to [REDACTED_EMAIL] please.");
+});
+
+test("a stream that fails to start is a 502 ai_error before any event", async () => {
+  worker.ai.script({ error: "model unavailable" });
+  const res = await worker.post("/api/chat", { sessionId, message: "Hi", stream: true }, token);
+  assert.equal(res.status, 502);
+  assert.equal((await json(res)).error.code, "ai_error");
+});
+
+test("slow replies are waited for", async () => {
+  worker.ai.script({ text: "Eventually.", delayMs: 300 });
+  const started = Date.now();
+  const res = await worker.post("/api/chat", { sessionId, message: "Take your time" }, token);
+  assert.equal((await json<ChatReply>(res)).data.reply, "Eventually.");
+  assert.ok(Date.now() - started >= 300);
+});
+
+test("a structured reply is validated, repaired and returned parsed", async () => {
+  const responseSchema = {
+    type: "object",
+    properties: { city: { type: "string" }, population: { type: "integer" } },
+    required: ["city", "population"],
+  };
+  worker.ai.script(
+    { text: '{"city": "Lyon", "population": "large"}' },
+    { text: '{"city": "Lyon", "population": 522000}' }
+  );
+  const res = await worker.post("/api/chat", { sessionId, message: "Lyon facts", responseSchema }, token);
+  const body = await json<ChatReply>(res);
+  assert.equal(res.status, 200, JSON.stringify(body));
+  assert.deepEqual(body.data.structured, { city: "Lyon", population: 522000 });
+  assert.equal(worker.ai.textCalls().length, 2);
+
+  const repair = worker.ai.textCalls()[1].inputs.messages as { role: string; content: string }[];
+  assert.match(repair.at(-1)!.content, /\$\.population: expected integer/);
+});
+
+test("a structured reply that never validates is a 422 with the violations", async () => {
+  const responseSchema = { type: "object", properties: { n: { type: "number" } }, required: ["n"] };
+  worker.ai.script({ text: "no" }, { text: "{}" }, { text: '{"n": "1"}' });
+  const res = await worker.post("/api/chat", { sessionId, message: "A number", responseSchema }, token);
+  const body = await json(res);
+  assert.equal(res.status, 422);
+  assert.equal(body.error.code, "schema_validation_failed");
+  assert.ok((body.error.violations?.length ?? 0) > 0);
+  assert.equal(worker.ai.textCalls().length, 3);
+});
+
+test("a structured reply that redaction takes out of the schema is a 422", async () => {
+  const responseSchema = {
+    type: "object",
+    properties: { email: { type: "string", pattern: "^[^@ ]+@[^@ ]+$" } },
+    required: ["email"],
+  };
+  worker.ai.script({ text: '{"email": "ada@example.com"}' });
+  const res = await worker.post("/api/chat", { sessionId, message: "Ada's email", responseSchema }, token);
+  const body = await json(res);
+  assert.equal(res.status, 422);
+  assert.equal(body.error.code, "schema_validation_failed");
+  assert.match(body.error.violations?.[0] ?? "", /\$\.email: does not match pattern/);
+});
+
+test("structured replies and their repair rounds stay within the model's context", async () => {
+  const model = "@cf/test/small";
+  const registry = [{ id: model, label: "Small", contextTokens: 1000, defaults: { temperature: 0.5, maxTokens: 200 } }];
+  const small = await startWorker({ MODEL_REGISTRY: JSON.stringify(registry), DEFAULT_MODEL: model });
+  try {
+    const session = await small.session();
+    for (let i = 0; i < 4; i++) {
+      small.ai.script({ text: `Answer ${i} `.repeat(60) });
+      const message = `Question ${i} `.repeat(50);
+      await small.post("/api/chat", { sessionId: session.sessionId, message }, session.token);
+    }
+    const calls = small.ai.textCalls().length;
+    small.ai.script(...Array.from({ length: 3 }, () => ({ text: "not JSON ".repeat(85) })));
+    const responseSchema = { type: "object", properties: { n: { type: "number" } }, required: ["n"] };
+    const body = { sessionId: session.sessionId, message: "A number", responseSchema };
+    assert.equal((await small.post("/api/chat", body, session.token)).status, 422);
+
+    const prompts = small.ai.textCalls().slice(calls);
+    assert.equal(prompts.length, 3);
+    for (const call of prompts) {
+      const messages = call.inputs.messages as { content: string }[];
+      const tokens = messages.reduce((n, m) => n + Math.ceil(m.content.length / 4), 0);
+      assert.ok(tokens <= 1000 - 200, `prompt of ~${tokens} tokens`);
+    }
+  } finally {
+    await small.dispose();
+  }
+});
+
+test("the OpenAI-compatible endpoint answers with a chat.completion", async () => {
+  worker.ai.script({ text: "Compatible." });
+  const res = await worker.post("/v1/chat/completions", { messages: [{ role: "user", content: "Hi" }] }, token);
+  const body = (await res.json()) as { object: string; choices: { message: { content: string } }[] };
+  assert.equal(res.status, 200);
+  assert.equal(body.object, "chat.completion");
+  assert.equal(body.choices[0].message.content, "Compatible.");
+});
+
+test("the classifier's verdict is recorded for flagged messages", async () => {
+  worker.ai.classifierVerdict = "unsafe\nS1";
+  const res = await worker.post("/api/chat", { sessionId, message: "Something unsafe" }, token);
+  assert.equal(res.status, 200);
+  assert.equal((await json<ChatReply>(res)).data.moderation.message, "flag");
+  const events = await json<{ events: { findings: { categories?: string[] }[] }[] }>(
+    await worker.get(`/api/moderation/events?sessionId=${sessionId}`, token)
+  );
+  const findings = events.data.events.flatMap((e) => e.findings);
+  assert.ok(findings.some((f) => f.categories?.includes("S1")), JSON.stringify(events));
+});
+
+test("usage stats count every request across the shards", async () => {
+  const chatRequests = async (): Promise<number> => {
+    const res = await worker.get("/api/admin/stats?days=1", ADMIN_TOKEN);
+    const stats = await json<{ byRoute: { route: string; requests: number }[] }>(res);
+    return stats.data.byRoute.find((r) => r.route === "POST /api/chat")?.requests ?? 0;
+  };
+  const before = await chatRequests();
+  for (let i = 0; i < 5; i++) await worker.post("/api/chat", { sessionId, message: `Hi ${i}` }, token);
+  // Usage is recorded once each response has finished.
+  for (let tries = 0; (await chatRequests()) < before + 5 && tries < 50; tries++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  assert.equal(await chatRequests(), before + 5);
+});
+
+test("concurrent profile updates to different fields are all kept", async () => {
+  await Promise.all([
+    worker.post("/api/profile", { displayName: "Ada" }, token),
+    worker.post("/api/profile", { language: "French" }, token),
+    worker.post("/api/profile", { responseStyle: "concise" }, token),
+  ]);
+  const profile = (await json<{ profile: UserProfile }>(await worker.get("/api/profile", token))).data.profile;
+  assert.deepEqual(profile, { displayName: "Ada", language: "French", responseStyle: "concise" });
+});
+
+test("the export reports the profile the latest reply used, not the owner's current one", async () => {
+  await worker.post("/api/profile", { language: "French" }, token);
+  worker.ai.script({ text: "Bonjour." });
+  await worker.post("/api/chat", { sessionId, message: "Hi" }, token);
+  await worker.post("/api/profile", { language: "German" }, token);
+  const exported = (await json<SessionExport>(await worker.get(`/api/export?sessionId=${sessionId}`, token))).data;
+  assert.deepEqual(exported.activeProfile, { language: "French" });
+});
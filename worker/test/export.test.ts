@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import type { MessageRow } from "../src/chatSessionDO";
+import type { SessionExport } from "../src/exportFormats";
+import { json, startWorker, type TestWorker } from "./harness";
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker();
+});
+beforeEach(async () => {
+  worker.ai.reset();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+/** A session's messages as `/api/export` returns them. */
+async function exported(session: { sessionId: string; token: string }): Promise<MessageRow[]> {
+  const res = await worker.get(`/api/export?sessionId=${session.sessionId}`, session.token);
+  return (await json<SessionExport>(res)).data.messages;
+}
+
+/** A user message answered twice: the first reply is left on another branch. */
+async function branchedSession(): Promise<MessageRow[]> {
+  worker.ai.script({ text: "First reply." }, { text: "Second reply." });
+  await worker.post("/api/chat", { sessionId, message: "Hi" }, token);
+  const [user] = await exported({ sessionId, token });
+  await worker.post("/api/messages/regenerate", { sessionId, messageId: user.id }, token);
+  return exported({ sessionId, token });
+}
+
+const shape = (messages: MessageRow[]) => messages.map((m) => [m.id, m.parentId, m.role, m.content]);
+
+test("the export holds every branch, and a JSONL export imports back with them", async () => {
+  const messages = await branchedSession();
+  assert.deepEqual(shape(messages), [
+    [1, null, "user", "Hi"],
+    [2, 1, "assistant", "First reply."],
+    [3, 1, "assistant", "Second reply."],
+  ]);
+
+  const jsonl = await (await worker.get(`/api/export?sessionId=${sessionId}&format=jsonl`, token)).text();
+  const imported = (await json<{ sessionId: string; token: string }>(await worker.post("/api/import", jsonl))).data;
+  assert.deepEqual(shape(await exported(imported)), shape(messages));
+});
+
+test("the OpenAI export is the active branch", async () => {
+  await branchedSession();
+  const res = await worker.get(`/api/export?sessionId=${sessionId}&format=openai`, token);
+  const { messages } = (await res.json()) as { messages: { role: string; content: string }[] };
+  assert.deepEqual(
+    messages.slice(1).map((m) => m.content),
+    ["Hi", "Second reply."]
+  );
+});
+
+test("a single-line JSONL export is detected as JSONL", async () => {
+  const line = JSON.stringify({ id: 1, parentId: null, role: "user", content: "Hello" });
+  const res = await worker.post("/api/import", `${line}\n`);
+  assert.equal(res.status, 200);
+  const imported = (await json<{ sessionId: string; token: string }>(res)).data;
+  assert.deepEqual(shape(await exported(imported)), [[1, null, "user", "Hello"]]);
+});
@@ -0,0 +1,112 @@
+/**
+ * Deterministic stand-in for the Workers AI binding. The Worker under test reaches it through a wrapped
+ * binding that forwards every `AI.run(model, inputs)` to `handle`; text models answer from a script queue,
+ * the moderation classifier and the embedding model answer on their own.
+ */
+
+import { Response, type Request } from "miniflare";
+
+export const CLASSIFIER_MODEL = "@cf/meta/llama-guard-3-8b";
+export const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+const EMBEDDING_DIMENSIONS = 768;
+
+/** One scripted text-model reply. */
+export interface ScriptedReply {
+  /** The reply text; streamed word by word when the call asks for a stream. */
+  text?: string;
+  /** Returned as-is instead of `{ response: text }`, e.g. `{ response: "", tool_calls: [...] }`. */
+  result?: unknown;
+  /** Makes `AI.run` throw an error with this message. */
+  error?: string;
+  /** Milliseconds to wait before answering (before each streamed word when streaming). */
+  delayMs?: number;
+}
+
+export interface AiCall {
+  model: string;
+  inputs: Record<string, unknown>;
+}
+
+/** Script for the worker the wrapped `AI` binding points at; CONTROL is a Node service binding to `handle`. */
+export const FAKE_AI_SCRIPT = `
+export default function (env) {
+  return {
+    async run(model, inputs) {
+      const res = await env.CONTROL.fetch("http://fake-ai/run", {
+        method: "POST",
+        body: JSON.stringify({ model, inputs }),
+      });
+      if ((res.headers.get("Content-Type") ?? "").startsWith("text/event-stream")) return res.body;
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error);
+      return body.result;
+    },
+  };
+}
+`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class FakeAi {
+  /** Every call received, in order, including classifier and embedding calls. */
+  readonly calls: AiCall[] = [];
+  /** Llama Guard's answer for every classified text. */
+  classifierVerdict = "safe";
+  /** The reply text models give when the script queue is empty. */
+  defaultReply = "Fake reply.";
+  private readonly queue: ScriptedReply[] = [];
+
+  /** Queues replies for the next text-model calls, in order. */
+  script(...replies: ScriptedReply[]): void {
+    this.queue.push(...replies);
+  }
+
+  /** Calls made to text models (not the classifier or the embedding model). */
+  textCalls(): AiCall[] {
+    return this.calls.filter((c) => c.model !== CLASSIFIER_MODEL && c.model !== EMBEDDING_MODEL);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.queue.length = 0;
+    this.classifierVerdict = "safe";
+    this.defaultReply = "Fake reply.";
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const call = (await request.json()) as AiCall;
+    this.calls.push(call);
+    if (call.model === CLASSIFIER_MODEL) return Response.json({ result: { response: this.classifierVerdict } });
+    if (call.model === EMBEDDING_MODEL) {
+      const texts = (call.inputs.text as string[]) ?? [];
+      return Response.json({ result: { shape: [texts.length, EMBEDDING_DIMENSIONS], data: texts.map(embed) } });
+    }
+
+    const reply = this.queue.shift() ?? { text: this.defaultReply };
+    if (reply.delayMs && !call.inputs.stream) await sleep(reply.delayMs);
+    if (reply.error !== undefined) return Response.json({ error: reply.error }, { status: 500 });
+    if (!call.inputs.stream) return Response.json({ result: reply.result ?? { response: reply.text ?? "" } });
+
+    const encoder = new TextEncoder();
+    const words = (reply.text ?? "").split(/(?<= )/);
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (const word of words) {
+          if (reply.delayMs) await sleep(reply.delayMs);
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: word })}\n\n`));
+        }
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+  }
+}
+
+/** A unit vector derived from the text's character codes, so equal texts embed equally. */
+function embed(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (let i = 0; i < text.length; i++) vector[(text.charCodeAt(i) * 31 + i) % EMBEDDING_DIMENSIONS] += 1;
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((v) => v / norm);
+}
@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import { chunkText, type Citation } from "../src/retrieval";
+import { json, startWorker, type TestWorker } from "./harness";
+
+/** /api/file returns at most this many bytes of a file's text (FILE_RESPONSE_CAP_BYTES). */
+const FILE_RESPONSE_CAP_BYTES = 100_000;
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker();
+});
+beforeEach(async () => {
+  worker.ai.reset();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+interface Upload {
+  fileId: string;
+  filename: string;
+  contentType: string;
+  kind: string;
+  moderation: string;
+}
+
+async function uploadOk(filename: string, content: string | Uint8Array): Promise<Upload> {
+  const res = await worker.upload(filename, content, token);
+  const body = await json<Upload>(res);
+  assert.equal(res.status, 200, JSON.stringify(body));
+  return body.data;
+}
+
+/** The session's attachment library. */
+async function attachments(): Promise<{ fileId: string; contentType: string }[]> {
+  const res = await worker.get(`/api/attachments?sessionId=${sessionId}`, token);
+  return (await json<{ attachments: { fileId: string; contentType: string }[] }>(res)).data.attachments;
+}
+
+test("an uploaded text file is listed and readable", async () => {
+  const upload = await uploadOk("notes.txt", "Meeting at noon.\nBring the slides.\n");
+  assert.equal(upload.kind, "text");
+  assert.equal(upload.filename, "notes.txt");
+
+  assert.deepEqual(
+    (await attachments()).map((a) => a.fileId),
+    [upload.fileId]
+  );
+  const file = await json<{ content: string }>(await worker.get(`/api/file?fileId=${upload.fileId}`, token));
+  assert.equal(file.data.content, "Meeting at noon.\nBring the slides.\n");
+});
+
+test("file content is truncated at the response cap", async () => {
+  const line = "The quick brown fox jumps over the lazy dog.\n";
+  const content = line.repeat(Math.ceil((FILE_RESPONSE_CAP_BYTES * 1.5) / line.length));
+  const upload = await uploadOk("long.txt", content);
+  const file = await json<{ content: string }>(await worker.get(`/api/file?fileId=${upload.fileId}`, token));
+  assert.equal(file.data.content.length, FILE_RESPONSE_CAP_BYTES);
+  assert.equal(file.data.content, content.slice(0, FILE_RESPONSE_CAP_BYTES));
+});
+
+test("a CSV upload is converted to a Markdown table", async () => {
+  const upload = await uploadOk("prices.csv", "item,price\napple,1.20\npear,0.90\n");
+  assert.equal(upload.kind, "csv");
+  const file = await json<{ content: string }>(await worker.get(`/api/file?fileId=${upload.fileId}`, token));
+  assert.match(file.data.content, /\| item \| price \|/);
+  assert.match(file.data.content, /\| pear \| 0\.90 \|/);
+});
+
+test("a file whose bytes do not match its extension is rejected", async () => {
+  const res = await worker.upload("report.pdf", "just text, not a PDF", token);
+  assert.equal(res.status, 400);
+  assert.equal((await json(res)).error.code, "validation_error");
+});
+
+test("binary and unsupported files are rejected", async () => {
+  for (const [name, content] of [
+    ["data.txt", new Uint8Array([0x00, 0x01, 0x02, 0xff])],
+    ["tool.exe", "MZ"],
+  ] as const) {
+    const res = await worker.upload(name, content, token);
+    assert.equal(res.status, 400, name);
+    assert.equal((await json(res)).error.code, "validation_error", name);
+  }
+});
+
+test("an attached file's text is part of the prompt", async () => {
+  const upload = await uploadOk("recipe.txt", "Preheat the oven to 200 degrees.");
+  const res = await worker.post(
+    "/api/chat",
+    { sessionId, message: "How hot should the oven be?", fileIds: [upload.fileId] },
+    token
+  );
+  assert.equal(res.status, 200);
+  const [call] = worker.ai.textCalls();
+  assert.match(JSON.stringify(call.inputs.messages), /Preheat the oven to 200 degrees/);
+});
+
+test("a long file contributes its retrieved chunks, which are cited", async () => {
+  const content = Array.from({ length: 400 }, (_, i) => `Paragraph ${i} covers topic ${i % 7}.`).join("\n");
+  const chunks = chunkText(content);
+  const upload = await uploadOk("handbook.txt", content);
+  const res = await worker.post(
+    "/api/chat",
+    { sessionId, message: "What does topic 3 cover?", fileIds: [upload.fileId] },
+    token
+  );
+  const { citations } = (await json<{ citations: Citation[] }>(res)).data;
+  assert.equal(citations.length, 6);
+  const starts = citations.map((c) => c.start);
+  assert.deepEqual(starts, [...starts].sort((a, b) => a - b));
+  const prompt = JSON.stringify(worker.ai.textCalls()[0].inputs.messages);
+  for (const c of citations) {
+    assert.equal(c.fileId, upload.fileId);
+    assert.equal(c.filename, "handbook.txt");
+    assert.deepEqual([c.start, c.end], [chunks[c.chunk].start, chunks[c.chunk].end]);
+    assert.ok(prompt.includes(`[chars ${c.start}-${c.end}]`), `chunk ${c.chunk} is in the prompt`);
+  }
+  assert.ok(prompt.length < content.length, "the rest of the file is left out");
+});
+
+test("another session's file cannot be attached", async () => {
+  const other = await worker.session();
+  const upload = await json<Upload>(await worker.upload("theirs.txt", "Not yours.", other.token));
+  const res = await worker.post("/api/chat", { sessionId, message: "Read it", fileIds: [upload.data.fileId] }, token);
+  assert.equal(res.status, 404);
+  assert.equal((await json(res)).error.code, "not_found");
+  assert.equal(worker.ai.textCalls().length, 0);
+});
+
+test("a file belongs to its session", async () => {
+  const upload = await uploadOk("private.txt", "Only for this session.");
+  const other = await worker.session();
+  const res = await worker.get(`/api/file?fileId=${upload.fileId}`, other.token);
+  assert.equal(res.status, 404);
+});
+
+test("a deleted file can no longer be read", async () => {
+  const upload = await uploadOk("temp.txt", "Short-lived.");
+  const res = await worker.post("/api/attachments/delete", { sessionId, fileId: upload.fileId }, token);
+  assert.equal(res.status, 200);
+  assert.equal((await worker.get(`/api/file?fileId=${upload.fileId}`, token)).status, 404);
+});
+
+/** A one-page PDF showing `shown` (hex codes) in a two-byte CID font whose ToUnicode CMap is `cmap`. */
+function cidFontPdf(shown: string, cmap: string): string {
+  const content = `BT /F1 12 Tf 72 720 Td <${shown}> Tj ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type0 /BaseFont /Sans /Encoding /Identity-H /ToUnicode 6 0 R >>",
+    `<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`,
+  ];
+  return `%PDF-1.7\n${objects.map((o, i) => `${i + 1} 0 obj\n${o}\nendobj\n`).join("")}%%EOF\n`;
+}
+
+test("PDF text in a CID font is mapped through its ToUnicode CMap", async () => {
+  const cmap = [
+    "/CIDInit /ProcSet findresource begin 12 dict begin begincmap",
+    "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+    "1 beginbfchar <0003> <0020> endbfchar",
+    "2 beginbfrange <0001> <0002> <0048> <0010> <0011> [<00E9> <0074>] endbfrange",
+    "endcmap CMapName currentdict /CMap defineresource pop end end",
+  ].join("\n");
+  const upload = await uploadOk("cid.pdf", cidFontPdf("00010002000300100011", cmap));
+  assert.equal(upload.kind, "pdf");
+  const file = await json<{ content: string }>(await worker.get(`/api/file?fileId=${upload.fileId}`, token));
+  assert.equal(file.data.content.trim(), "HI ét");
+});
+
+test("a redacted document's content type is that of the text kept in its place", async () => {
+  const upload = await uploadOk("contacts.csv", "name,email\nAda,ada@example.com\n");
+  assert.equal(upload.moderation, "redact");
+  assert.equal(upload.contentType, "text/plain; charset=utf-8");
+  assert.equal((await attachments())[0].contentType, "text/plain; charset=utf-8");
+});
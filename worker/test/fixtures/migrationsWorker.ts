@@ -0,0 +1,34 @@
+/**
+ * Test-only Durable Object that runs ChatSessionDO's migrations on demand, so a database can be created at an
+ * old schema version, filled and then upgraded.
+ */
+
+import { migrate, schemaVersion } from "../../src/migrations";
+
+type Command = { type: "migrate"; target?: number } | { type: "exec"; query: string; params?: unknown[] };
+
+export class MigrationsDO {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const command = (await request.json()) as Command;
+    const storage = this.state.storage;
+    try {
+      if (command.type === "migrate") {
+        const version = migrate(storage, command.target);
+        return Response.json({ version, recorded: schemaVersion(storage.sql) });
+      }
+      const rows = storage.sql.exec(command.query, ...(command.params ?? [])).toArray();
+      return Response.json({ rows });
+    } catch (e) {
+      return Response.json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+    }
+  }
+}
+
+export default {
+  async fetch(request: Request, env: { MIGRATIONS: DurableObjectNamespace }): Promise<Response> {
+    const name = new URL(request.url).searchParams.get("db") ?? "default";
+    return env.MIGRATIONS.get(env.MIGRATIONS.idFromName(name)).fetch(request);
+  },
+};
@@ -0,0 +1,168 @@
+/**
+ * Runs the bundled Worker in Miniflare (local workerd) with SQLite Durable Objects, an in-memory R2 bucket and
+ * FakeAi behind the AI binding, so route tests run offline. `npm test` bundles the Worker first (test/run.mjs).
+ */
+
+import { readFileSync } from "node:fs";
+import type { Readable } from "node:stream";
+import { Headers, Miniflare, type RequestInit, type Response } from "miniflare";
+import { FAKE_AI_SCRIPT, FakeAi } from "./fakeAi";
+
+export const SESSION_SECRET = "test-session-secret";
+export const ADMIN_TOKEN = "test-admin-token";
+
+/**
+ * Vars for every test Worker; rate limits and quotas are high so only the tests that want them hit them, and
+ * failed model calls are not retried, so a scripted error fails the turn.
+ */
+const DEFAULT_VARS: Record<string, string> = {
+  SESSION_SECRET,
+  ADMIN_TOKEN,
+  MESSAGE_MAX_LENGTH: "2000",
+  MESSAGE_HISTORY_LIMIT: "10",
+  SUMMARIZE_MESSAGE_LIMIT: "50",
+  SUMMARY_TRIGGER_MESSAGES: "20",
+  RATE_LIMIT_REQUESTS: "1000",
+  RATE_LIMIT_WINDOW_MS: "60000",
+  DAILY_MESSAGE_QUOTA: "1000",
+  DAILY_TOKEN_QUOTA: "10000000",
+  TOOL_MAX_STEPS: "0",
+  STRUCTURED_MAX_ATTEMPTS: "3",
+  AI_TIMEOUT_MS: "10000",
+  AI_MAX_RETRIES: "0",
+  AI_RETRY_BASE_MS: "1",
+};
+
+export interface TestWorker {
+  ai: FakeAi;
+  /** Lines the Worker wrote to stdout and stderr (request logs, errors); echoed when TEST_LOGS=1. */
+  logs: string[];
+  /** Sent as CF-Connecting-IP unless a request sets it; requests from one IP share its rate limit. */
+  clientIp: string;
+  /** Sends a request to the Worker; relative URLs resolve against http://localhost. */
+  fetch(path: string, init?: RequestInit): Promise<Response>;
+  /** Sends a JSON body with the session token, if given. */
+  post(path: string, body: unknown, token?: string): Promise<Response>;
+  get(path: string, token?: string): Promise<Response>;
+  /** Uploads `content` as the multipart field "file" named `filename`. */
+  upload(filename: string, content: string | Uint8Array, token?: string): Promise<Response>;
+  /** Creates a session and returns its ID and token. */
+  session(): Promise<{ sessionId: string; token: string }>;
+  dispose(): Promise<void>;
+}
+
+export interface WorkerOptions {
+  /** Directory for Durable Object and R2 data; a Worker started on the same directory sees it. Default: memory. */
+  persistDir?: string;
+}
+
+/** Starts the Worker with `vars` over the defaults. Call `dispose` when done (the test's `after` hook). */
+export async function startWorker(vars: Record<string, string> = {}, options: WorkerOptions = {}): Promise<TestWorker> {
+  const ai = new FakeAi();
+  const logs: string[] = [];
+  const collect = (stream: Readable) => {
+    stream.setEncoding("utf8");
+    stream.on("data", (chunk: string) => {
+      logs.push(...chunk.split("\n").filter(Boolean));
+      if (process.env.TEST_LOGS === "1") process.stderr.write(chunk);
+    });
+  };
+  const mf = new Miniflare({
+    handleRuntimeStdio(stdout, stderr) {
+      collect(stdout);
+      collect(stderr);
+    },
+    durableObjectsPersist: options.persistDir ? `${options.persistDir}/do` : false,
+    r2Persist: options.persistDir ? `${options.persistDir}/r2` : false,
+    workers: [
+      {
+        name: "chat",
+        modules: true,
+        script: readFileSync(new URL("./worker.js", import.meta.url), "utf8"),
+        compatibilityDate: "2024-01-01",
+        bindings: { ...DEFAULT_VARS, ...vars },
+        durableObjects: {
+          CHAT_SESSION: { className: "ChatSessionDO", useSQLite: true },
+          RATE_LIMITER: { className: "RateLimiterDO", useSQLite: true },
+          SESSION_DIRECTORY: { className: "SessionDirectoryDO", useSQLite: true },
+          USAGE_STATS: { className: "UsageStatsDO", useSQLite: true },
+        },
+        r2Buckets: ["BUCKET"],
+        wrappedBindings: { AI: { scriptName: "fake-ai" } },
+      },
+      {
+        name: "fake-ai",
+        modules: true,
+        script: FAKE_AI_SCRIPT,
+        serviceBindings: { CONTROL: (request) => ai.handle(request) },
+      },
+    ],
+  });
+  await mf.ready;
+
+  const fetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    if (!headers.has("CF-Connecting-IP")) headers.set("CF-Connecting-IP", worker.clientIp);
+    return mf.dispatchFetch(new URL(path, "http://localhost").href, { ...init, headers });
+  };
+  const headers = (token?: string): Record<string, string> =>
+    token ? { Authorization: `Bearer ${token}` } : {};
+  const post = (path: string, body: unknown, token?: string) =>
+    fetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers(token) },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  const get = (path: string, token?: string) => fetch(path, { headers: headers(token) });
+  const upload = async (filename: string, content: string | Uint8Array, token?: string) => {
+    // Node's FormData is serialized here: Miniflare's fetch does not recognize instances from another undici.
+    const form = new FormData();
+    form.append("file", new Blob([typeof content === "string" ? content : content.slice()]), filename);
+    const encoded = new globalThis.Response(form);
+    return fetch("/api/upload", {
+      method: "POST",
+      headers: { "Content-Type": encoded.headers.get("Content-Type")!, ...headers(token) },
+      body: new Uint8Array(await encoded.arrayBuffer()),
+    });
+  };
+
+  const worker: TestWorker = {
+    ai,
+    logs,
+    clientIp: "192.0.2.1",
+    fetch,
+    post,
+    get,
+    upload,
+    async session() {
+      const res = await post("/api/session", {});
+      const body = (await res.json()) as { ok: boolean; data: { sessionId: string; token: string } };
+      if (!body.ok) throw new Error(`session creation failed: ${JSON.stringify(body)}`);
+      return body.data;
+    },
+    dispose: () => mf.dispose(),
+  };
+  return worker;
+}
+
+/** The error of a failed response. */
+export interface ApiError {
+  code: string;
+  message: string;
+  /** Schema violations of a structured reply (`schema_validation_failed`). */
+  violations?: string[];
+}
+
+/** The fields of a `/api/chat` reply (and of a streamed `done` event) that tests read. */
+export interface ChatReply {
+  reply: string;
+  model: string;
+  structured?: unknown;
+  omittedMessages: number;
+  moderation: { message: string | null; reply: string | null };
+}
+
+/** The parsed JSON envelope of a response, with `data` typed as `T`. */
+export async function json<T = unknown>(res: Response): Promise<{ ok: boolean; data: T; error: ApiError }> {
+  return (await res.json()) as { ok: boolean; data: T; error: ApiError };
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import type { WebSocket } from "miniflare";
+import { signLiveTicket, type SessionClaims } from "../src/auth";
+import type { LiveEvent } from "../src/live";
+import { SESSION_SECRET, json, startWorker, type TestWorker } from "./harness";
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker();
+});
+beforeEach(async () => {
+  worker.ai.reset();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+interface LiveSocket {
+  ws: WebSocket;
+  /** Every event received so far, in order. */
+  events: LiveEvent[];
+  /** Resolves with the first event (received so far or later) that matches. */
+  next(match: (e: LiveEvent) => boolean): Promise<LiveEvent>;
+}
+
+async function ticketFor(bearer: string): Promise<{ sessionId: string; ticket: string; expiresAt: number }> {
+  const res = await worker.post("/api/live/ticket", {}, bearer);
+  assert.equal(res.status, 200);
+  return (await json<{ sessionId: string; ticket: string; expiresAt: number }>(res)).data;
+}
+
+async function connect(ticket: string, name = "Ada"): Promise<LiveSocket> {
+  const res = await worker.fetch(`/api/live?sessionId=${sessionId}&ticket=${ticket}&name=${name}`, {
+    headers: { Upgrade: "websocket" },
+  });
+  assert.equal(res.status, 101);
+  const ws = res.webSocket!;
+  const events: LiveEvent[] = [];
+  const waiting: { match: (e: LiveEvent) => boolean; resolve: (e: LiveEvent) => void }[] = [];
+  ws.addEventListener("message", (e) => {
+    const event = JSON.parse(String(e.data)) as LiveEvent;
+    events.push(event);
+    for (const w of waiting.filter((w) => w.match(event))) {
+      waiting.splice(waiting.indexOf(w), 1);
+      w.resolve(event);
+    }
+  });
+  ws.accept();
+  return {
+    ws,
+    events,
+    next: (match) =>
+      new Promise((resolve) => {
+        const seen = events.find(match);
+        if (seen) resolve(seen);
+        else waiting.push({ match, resolve });
+      }),
+  };
+}
+
+test("a ticket is issued for the token's session and expires within a minute", async () => {
+  const start = Date.now();
+  const issued = await ticketFor(token);
+  assert.equal(issued.sessionId, sessionId);
+  assert.notEqual(issued.ticket, token);
+  assert.ok(issued.expiresAt > start && issued.expiresAt <= Date.now() + 60_000);
+});
+
+test("connected clients are welcomed and receive each new message", async () => {
+  const first = await connect((await ticketFor(token)).ticket, "Ada");
+  const welcome = await first.next((e) => e.type === "welcome");
+  assert.equal(welcome.type === "welcome" && welcome.clients[0].name, "Ada");
+
+  const second = await connect((await ticketFor(token)).ticket, "Grace");
+  const presence = await first.next((e) => e.type === "presence" && e.clients.length === 2);
+  assert.deepEqual(presence.type === "presence" && presence.clients.map((c) => c.name), ["Ada", "Grace"]);
+
+  worker.ai.script({ text: "Hello, both of you." });
+  await worker.post("/api/chat", { sessionId, message: "Hi all" }, token);
+  for (const socket of [first, second]) {
+    const reply = await socket.next((e) => e.type === "message" && e.message.role === "assistant");
+    assert.equal(reply.type === "message" && reply.message.content, "Hello, both of you.");
+    assert.ok(socket.events.some((e) => e.type === "message" && e.message.content === "Hi all"));
+  }
+  first.ws.close();
+  second.ws.close();
+});
+
+test("a ticket opens only its own session and only before it expires", async () => {
+  const upgrade = (id: string, ticket: string) =>
+    worker.fetch(`/api/live?sessionId=${id}&ticket=${ticket}`, { headers: { Upgrade: "websocket" } });
+  const other = await worker.session();
+  const { ticket } = await ticketFor(other.token);
+  const res = await upgrade(sessionId, ticket);
+  assert.equal(res.status, 401);
+  assert.match((await json(res)).error.message, /not issued for this sessionId/);
+
+  const claims = JSON.parse(Buffer.from(token.split(".")[0], "base64url").toString()) as SessionClaims;
+  const expired = await signLiveTicket({ ...claims, iat: Date.now() - 61_000 }, SESSION_SECRET);
+  assert.equal((await upgrade(sessionId, expired)).status, 401);
+  assert.equal((await upgrade(sessionId, "")).status, 401);
+
+  const missing = await worker.fetch(`/api/live?ticket=${ticket}`, { headers: { Upgrade: "websocket" } });
+  assert.equal(missing.status, 400);
+  assert.equal((await json(missing)).error.code, "validation_error");
+});
@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { after, before, test } from "node:test";
+import { Miniflare } from "miniflare";
+import { SCHEMA_VERSION } from "../src/migrations";
+
+// Runs test/fixtures/migrationsWorker.ts: one SQLite Durable Object per `db`, driven by migrate/exec commands.
+let mf: Miniflare;
+
+before(async () => {
+  mf = new Miniflare({
+    modules: true,
+    script: readFileSync(new URL("./migrationsWorker.js", import.meta.url), "utf8"),
+    compatibilityDate: "2024-01-01",
+    durableObjects: { MIGRATIONS: { className: "MigrationsDO", useSQLite: true } },
+  });
+  await mf.ready;
+});
+after(() => mf.dispose());
+
+/** Sends a command to the fixture; a failed one throws the error it reported. */
+async function command<T>(db: string, body: object): Promise<T> {
+  const res = await mf.dispatchFetch(`http://localhost/?db=${db}`, { method: "POST", body: JSON.stringify(body) });
+  const result = (await res.json()) as T & { error?: string };
+  if (!res.ok) throw new Error(result.error);
+  return result;
+}
+
+const migrate = (db: string, target?: number) =>
+  command<{ version: number; recorded: number }>(db, { type: "migrate", target });
+const query = async (db: string, sql: string, ...params: unknown[]) =>
+  (await command<{ rows: Record<string, unknown>[] }>(db, { type: "exec", query: sql, params })).rows;
+
+test("a v1 database keeps its messages and IDs through every migration", async () => {
+  assert.equal((await migrate("v1", 1)).version, 1);
+  const insert = "INSERT INTO messages (id, role, content, ts) VALUES (?, ?, ?, ?)";
+  await query("v1", insert, 1, "user", "What is 2 + 2?", 1000);
+  await query("v1", insert, 2, "assistant", "4", 2000);
+  await query("v1", insert, 5, "user", "Thanks!", 3000);
+
+  assert.deepEqual(await migrate("v1"), { version: SCHEMA_VERSION, recorded: SCHEMA_VERSION });
+  assert.deepEqual(await query("v1", "SELECT id, role, content, ts, parent_id FROM messages ORDER BY id"), [
+    { id: 1, role: "user", content: "What is 2 + 2?", ts: 1000, parent_id: null },
+    { id: 2, role: "assistant", content: "4", ts: 2000, parent_id: 1 },
+    { id: 5, role: "user", content: "Thanks!", ts: 3000, parent_id: 2 },
+  ]);
+  const [leaf] = await query("v1", "SELECT value FROM meta WHERE key = 'activeLeafId'");
+  assert.equal(Number(leaf.value), 5);
+  // New messages continue after the highest old ID.
+  await query("v1", "INSERT INTO messages (role, content, ts, parent_id) VALUES ('assistant', 'Welcome', 4000, 5)");
+  assert.deepEqual(await query("v1", "SELECT MAX(id) AS id FROM messages"), [{ id: 6 }]);
+});
+
+// Tables as sessions created them before versioning: with uploads (user-004), then with tools and branching.
+const LEGACY_META = "CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)";
+const LEGACY_ATTACHMENTS = `CREATE TABLE attachments (
+  file_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  content_type TEXT NOT NULL,
+  uploaded_at INTEGER NOT NULL,
+  r2_key TEXT NOT NULL
+)`;
+const LEGACY_UPLOAD = `INSERT INTO attachments (file_id, name, size, content_type, uploaded_at, r2_key)
+  VALUES ('f1', 'notes.txt', 5, 'text/plain', 1, 'uploads/f1-notes.txt')`;
+
+async function assertLegacyUpgrade(db: string): Promise<void> {
+  assert.equal((await migrate(db)).version, SCHEMA_VERSION);
+  assert.deepEqual(await query(db, "SELECT id, content, tool_calls, error FROM messages"), [
+    { id: 1, content: "Hello", tool_calls: null, error: null },
+  ]);
+  assert.deepEqual(
+    await query(db, "SELECT file_id, name, size, content_type, uploaded_at, r2_key, text_key, chunks FROM attachments"),
+    [
+      {
+        file_id: "f1",
+        name: "notes.txt",
+        size: 5,
+        content_type: "text/plain",
+        uploaded_at: 1,
+        r2_key: "uploads/f1-notes.txt",
+        text_key: "uploads/f1-notes.txt",
+        chunks: 0,
+      },
+    ]
+  );
+}
+
+test("a database from before tool messages is upgraded, including its attachments", async () => {
+  await query(
+    "legacy-v1",
+    `CREATE TABLE messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      role TEXT NOT NULL CHECK(role IN ('user','assistant','system')),
+      content TEXT NOT NULL,
+      ts INTEGER NOT NULL
+    )`
+  );
+  await query("legacy-v1", LEGACY_META);
+  await query("legacy-v1", LEGACY_ATTACHMENTS);
+  await query("legacy-v1", "INSERT INTO messages (role, content, ts) VALUES ('user', 'Hello', 1)");
+  await query("legacy-v1", LEGACY_UPLOAD);
+  assert.equal((await migrate("legacy-v1", 0)).recorded, 1);
+
+  await assertLegacyUpgrade("legacy-v1");
+});
+
+test("a database with branching but no versioning is upgraded from v3", async () => {
+  await query(
+    "legacy-v3",
+    `CREATE TABLE messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      role TEXT NOT NULL CHECK(role IN ('user','assistant','system','tool')),
+      content TEXT NOT NULL,
+      ts INTEGER NOT NULL,
+      tool_calls TEXT,
+      tool_name TEXT,
+      parent_id INTEGER
+    )`
+  );
+  await query("legacy-v3", LEGACY_META);
+  await query("legacy-v3", LEGACY_ATTACHMENTS);
+  await query("legacy-v3", "INSERT INTO messages (role, content, ts) VALUES ('user', 'Hello', 1)");
+  await query("legacy-v3", "INSERT INTO meta (key, value) VALUES ('activeLeafId', '1')");
+  await query("legacy-v3", LEGACY_UPLOAD);
+  assert.equal((await migrate("legacy-v3", 0)).recorded, 3);
+
+  await assertLegacyUpgrade("legacy-v3");
+});
+
+test("existing attachments get their upload as text key", async () => {
+  await migrate("v6", 6);
+  await query(
+    "v6",
+    `INSERT INTO attachments (file_id, name, size, content_type, uploaded_at, r2_key)
+     VALUES ('f1', 'notes.txt', 5, 'text/plain', 1, 'uploads/f1-notes.txt')`
+  );
+  await migrate("v6");
+  assert.deepEqual(await query("v6", "SELECT r2_key, text_key FROM attachments"), [
+    { r2_key: "uploads/f1-notes.txt", text_key: "uploads/f1-notes.txt" },
+  ]);
+});
+
+test("existing messages are not marked failed and idempotency keys start empty", async () => {
+  await migrate("v7", 7);
+  await query("v7", "INSERT INTO messages (role, content, ts) VALUES ('user', 'Hello', 1)");
+  await migrate("v7");
+  assert.deepEqual(await query("v7", "SELECT content, error FROM messages"), [{ content: "Hello", error: null }]);
+  assert.deepEqual(await query("v7", "SELECT COUNT(*) AS n FROM request_keys"), [{ n: 0 }]);
+});
+
+test("migrating an up-to-date database changes nothing", async () => {
+  await migrate("current");
+  await query("current", "INSERT INTO messages (role, content, ts) VALUES ('user', 'Hi', 1)");
+  assert.equal((await migrate("current")).version, SCHEMA_VERSION);
+  assert.equal((await query("current", "SELECT COUNT(*) AS n FROM messages"))[0].n, 1);
+});
+
+test("a database newer than the code is refused", async () => {
+  await migrate("future");
+  await query("future", "UPDATE meta SET value = ? WHERE key = 'schemaVersion'", String(SCHEMA_VERSION + 1));
+  await assert.rejects(migrate("future"), /newer than this code/);
+});
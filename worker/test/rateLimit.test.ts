@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { json, startWorker, type TestWorker } from "./harness";
+
+describe("request rate", () => {
+  let worker: TestWorker;
+  before(async () => {
+    worker = await startWorker({ RATE_LIMIT_REQUESTS: "3", RATE_LIMIT_WINDOW_MS: "60000" });
+  });
+  // Every test is a new client, so only its own requests count against the per-IP limit.
+  let client = 0;
+  beforeEach(() => {
+    worker.clientIp = `198.51.100.${++client}`;
+  });
+  after(() => worker.dispose());
+
+  test("requests over the limit are a 429 with Retry-After, and reach no model", async () => {
+    const { sessionId, token } = await worker.session();
+    worker.clientIp = "198.51.100.200";
+    for (let i = 0; i < 3; i++) {
+      const res = await worker.post("/api/chat", { sessionId, message: `Message ${i}` }, token);
+      assert.equal(res.status, 200);
+    }
+    const calls = worker.ai.textCalls().length;
+    const res = await worker.post("/api/chat", { sessionId, message: "One too many" }, token);
+    assert.equal(res.status, 429);
+    assert.equal((await json(res)).error.code, "rate_limit");
+    const retryAfter = Number(res.headers.get("Retry-After"));
+    assert.ok(retryAfter >= 1 && retryAfter <= 60, `Retry-After: ${retryAfter}`);
+    assert.equal(res.headers.get("RateLimit-Limit"), "3");
+    assert.equal(res.headers.get("RateLimit-Remaining"), "0");
+    assert.equal(res.headers.get("RateLimit-Policy"), "3;w=60");
+    assert.equal(worker.ai.textCalls().length, calls);
+  });
+
+  test("limits are kept per session", async () => {
+    const { sessionId, token } = await worker.session();
+    const res = await worker.post("/api/chat", { sessionId, message: "Fresh session" }, token);
+    assert.equal(res.status, 200);
+  });
+
+  test("a request refused for its IP does not use up its session's limit", async () => {
+    // Creating the session is the IP's first request.
+    const { sessionId, token } = await worker.session();
+    for (let i = 0; i < 2; i++) {
+      assert.equal((await worker.post("/api/chat", { sessionId, message: `Message ${i}` }, token)).status, 200);
+    }
+    assert.equal((await worker.post("/api/chat", { sessionId, message: "IP exhausted" }, token)).status, 429);
+    worker.clientIp = "198.51.100.201";
+    assert.equal((await worker.post("/api/chat", { sessionId, message: "Another network" }, token)).status, 200);
+  });
+
+  test("session creation is limited per client IP", async () => {
+    const create = (ip: string) =>
+      worker.fetch("/api/session", { method: "POST", headers: { "CF-Connecting-IP": ip } });
+    for (let i = 0; i < 3; i++) assert.equal((await create("203.0.113.7")).status, 200);
+    assert.equal((await create("203.0.113.7")).status, 429);
+    assert.equal((await create("203.0.113.8")).status, 200);
+  });
+});
+
+describe("daily quota", () => {
+  let worker: TestWorker;
+  before(async () => {
+    worker = await startWorker({ DAILY_MESSAGE_QUOTA: "2" });
+  });
+  let client = 0;
+  beforeEach(() => {
+    worker.clientIp = `198.51.100.${++client}`;
+  });
+  after(() => worker.dispose());
+
+  test("messages over the daily quota are a 429", async () => {
+    const { sessionId, token } = await worker.session();
+    for (let i = 0; i < 2; i++) {
+      assert.equal((await worker.post("/api/chat", { sessionId, message: `Message ${i}` }, token)).status, 200);
+    }
+    const res = await worker.post("/api/chat", { sessionId, message: "Over quota" }, token);
+    assert.equal(res.status, 429);
+    assert.equal((await json(res)).error.message, "Daily message quota exceeded");
+    assert.equal(res.headers.get("RateLimit-Limit"), "2");
+    assert.equal(res.headers.get("RateLimit-Policy"), "2;w=86400");
+  });
+
+  test("reading a session does not use up the quota", async () => {
+    const { sessionId, token } = await worker.session();
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await worker.get(`/api/messages?sessionId=${sessionId}`, token)).status, 200);
+    }
+    assert.equal((await worker.post("/api/chat", { sessionId, message: "Still allowed" }, token)).status, 200);
+  });
+});
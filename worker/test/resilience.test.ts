@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import type { Response } from "miniflare";
+import type { MessageRow } from "../src/chatSessionDO";
+import { json, startWorker, type ChatReply, type TestWorker } from "./harness";
+
+const PRIMARY = "@cf/test/primary";
+const FALLBACK = "@cf/test/fallback";
+const registry = [PRIMARY, FALLBACK].map((id) => ({
+  id,
+  label: id,
+  contextTokens: 8000,
+  defaults: { temperature: 0.5, maxTokens: 256 },
+}));
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker({
+    MODEL_REGISTRY: JSON.stringify(registry),
+    DEFAULT_MODEL: PRIMARY,
+    FALLBACK_MODEL: FALLBACK,
+    AI_MAX_RETRIES: "2",
+    AI_TIMEOUT_MS: "1000",
+  });
+});
+beforeEach(async () => {
+  worker.ai.reset();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+const capacity = { error: "3040: Capacity temporarily exceeded" };
+/** Fails the primary model and the fallback, each with all its retries. */
+const failEverything = () => worker.ai.script(...Array.from({ length: 6 }, () => capacity));
+
+function chat(body: object, key?: string): Promise<Response> {
+  return worker.fetch("/api/chat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+      ...(key ? { "Idempotency-Key": key } : {}),
+    },
+    body: JSON.stringify({ sessionId, ...body }),
+  });
+}
+
+async function history(): Promise<MessageRow[]> {
+  const res = await worker.get(`/api/messages?sessionId=${sessionId}`, token);
+  return (await json<{ messages: MessageRow[] }>(res)).data.messages;
+}
+
+test("a transient failure is retried", async () => {
+  worker.ai.script(capacity, { text: "Second time lucky." });
+  const res = await chat({ message: "Hi" });
+  assert.equal(res.status, 200);
+  assert.equal((await json<ChatReply>(res)).data.reply, "Second time lucky.");
+  assert.deepEqual(
+    worker.ai.textCalls().map((c) => c.model),
+    [PRIMARY, PRIMARY]
+  );
+});
+
+test("the fallback model answers once the requested one has used up its retries", async () => {
+  worker.ai.script(capacity, capacity, capacity, { text: "From the fallback." });
+  const body = await json<ChatReply>(await chat({ message: "Hi" }));
+  assert.equal(body.data.reply, "From the fallback.");
+  assert.equal(body.data.model, FALLBACK);
+  assert.deepEqual(
+    worker.ai.textCalls().map((c) => c.model),
+    [PRIMARY, PRIMARY, PRIMARY, FALLBACK]
+  );
+});
+
+test("invalid input is not retried", async () => {
+  worker.ai.script({ error: "5006: Invalid input" }, { error: "5006: Invalid input" });
+  const res = await chat({ message: "Hi" });
+  assert.equal(res.status, 502);
+  assert.deepEqual(
+    worker.ai.textCalls().map((c) => c.model),
+    [PRIMARY, FALLBACK]
+  );
+});
+
+test("an attempt that takes too long is abandoned and retried", async () => {
+  worker.ai.script({ text: "Too late.", delayMs: 1500 }, { text: "Just in time." });
+  const body = await json<ChatReply>(await chat({ message: "Hi" }));
+  assert.equal(body.data.reply, "Just in time.");
+});
+
+test("a failed turn is marked, left out of later prompts, and cleared by a regeneration", async () => {
+  failEverything();
+  const failed = await chat({ message: "Lost question" });
+  assert.equal(failed.status, 502);
+  const [user] = await history();
+  assert.equal(user.content, "Lost question");
+  assert.match(user.error ?? "", /Capacity temporarily exceeded/);
+
+  await chat({ message: "Next question" });
+  const prompt = worker.ai.textCalls().at(-1)!.inputs.messages as { content: string }[];
+  assert.ok(!prompt.some((m) => m.content === "Lost question"));
+
+  const res = await worker.post("/api/messages/regenerate", { sessionId, messageId: user.id }, token);
+  assert.equal(res.status, 200);
+  assert.equal((await history()).find((m) => m.id === user.id)!.error, undefined);
+});
+
+test("a repeated Idempotency-Key gets the stored reply without another model call", async () => {
+  worker.ai.script({ text: "Only once." });
+  const first = await json<ChatReply>(await chat({ message: "Hi" }, "key-1"));
+  const res = await chat({ message: "Hi" }, "key-1");
+  assert.equal(res.headers.get("Idempotent-Replayed"), "true");
+  assert.deepEqual((await json<ChatReply>(res)).data, first.data);
+  assert.equal(worker.ai.textCalls().length, 1);
+  assert.deepEqual(
+    (await history()).map((m) => m.role),
+    ["user", "assistant"]
+  );
+});
+
+test("a stored reply is replayed as a stream when the retry asks for one", async () => {
+  worker.ai.script({ text: "Streamed once." });
+  await (await chat({ message: "Hi", stream: true }, "key-2")).text();
+  const text = await (await chat({ message: "Hi", stream: true }, "key-2")).text();
+  assert.match(text, /event: token\ndata: \{"token":"Streamed once\."\}/);
+  assert.match(text, /event: done\ndata: \{"reply":"Streamed once\."/);
+  assert.equal(worker.ai.textCalls().length, 1);
+});
+
+test("retrying a failed request answers the message it stored instead of storing it again", async () => {
+  failEverything();
+  assert.equal((await chat({ message: "Retry me" }, "key-3")).status, 502);
+  worker.ai.script({ text: "Answered." });
+  const res = await chat({ message: "Retry me" }, "key-3");
+  assert.equal(res.status, 200);
+  assert.equal((await json<ChatReply>(res)).data.reply, "Answered.");
+  const messages = await history();
+  assert.deepEqual(
+    messages.map((m) => [m.role, m.content]),
+    [
+      ["user", "Retry me"],
+      ["assistant", "Answered."],
+    ]
+  );
+  assert.equal(messages[0].error, undefined);
+});
+
+test("a key reused for a different request is a conflict", async () => {
+  await chat({ message: "One" }, "key-4");
+  const res = await chat({ message: "Two" }, "key-4");
+  assert.equal(res.status, 409);
+  assert.equal((await json(res)).error.code, "conflict");
+});
+
+test("a retry while the first attempt is running is a conflict", async () => {
+  worker.ai.script({ text: "Slow.", delayMs: 800 });
+  const first = chat({ message: "Hi" }, "key-5");
+  while (worker.ai.textCalls().length === 0) await new Promise((resolve) => setTimeout(resolve, 10));
+  const res = await chat({ message: "Hi" }, "key-5");
+  assert.equal(res.status, 409);
+  assert.equal((await first).status, 200);
+});
+
+test("an Idempotency-Key over 255 characters is rejected", async () => {
+  const res = await chat({ message: "Hi" }, "k".repeat(256));
+  assert.equal(res.status, 400);
+  assert.equal((await json(res)).error.code, "validation_error");
+});
+
+test("an OpenAI-compatible turn stored in a session is marked when its reply fails or is empty", async () => {
+  const complete = (content: string, stream = false) => {
+    const body = { session_id: sessionId, messages: [{ role: "user", content }], stream };
+    return worker.post("/v1/chat/completions", body, token);
+  };
+  failEverything();
+  assert.equal((await complete("Lost")).status, 502);
+  worker.ai.script({ text: "" });
+  assert.equal((await complete("Unanswered")).status, 200);
+  failEverything();
+  await (await complete("Cut off", true)).text();
+
+  const messages = await history();
+  assert.deepEqual(
+    messages.map((m) => [m.content, m.error !== undefined]),
+    [
+      ["Lost", true],
+      ["Unanswered", true],
+      ["Cut off", true],
+    ]
+  );
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { after, test } from "node:test";
+import { json, startWorker, type TestWorker } from "./harness";
+
+/** TTLs in days short enough for the alarm to fire during a test: about 0.9 s. */
+const SHORT_TTL_DAYS = "0.00001";
+
+const workers: TestWorker[] = [];
+after(() => Promise.all(workers.map((w) => w.dispose())));
+
+async function start(vars: Record<string, string>): Promise<TestWorker> {
+  const worker = await startWorker(vars);
+  workers.push(worker);
+  return worker;
+}
+
+/** Polls `check` until it holds, for up to 5 s; returns whether it did. */
+async function eventually(check: () => Promise<boolean>): Promise<boolean> {
+  for (let tries = 0; tries < 100; tries++) {
+    if (await check()) return true;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return false;
+}
+
+test("a session expires once SESSION_TTL_DAYS have passed since its last update", async () => {
+  const worker = await start({ SESSION_TTL_DAYS: SHORT_TTL_DAYS });
+  const { sessionId, token } = await worker.session();
+  const upload = await json<{ fileId: string }>(await worker.upload("notes.txt", "Short-lived.", token));
+  const messages = () => worker.get(`/api/messages?sessionId=${sessionId}`, token);
+  assert.equal((await messages()).status, 200);
+
+  assert.ok(await eventually(async () => (await messages()).status === 401), "the session expires");
+  assert.equal((await worker.get(`/api/file?fileId=${upload.data.fileId}`, token)).status, 401);
+});
+
+test("attachments are removed once UPLOAD_TTL_DAYS have passed, and the session is kept", async () => {
+  const worker = await start({ UPLOAD_TTL_DAYS: SHORT_TTL_DAYS });
+  const { sessionId, token } = await worker.session();
+  await worker.upload("notes.txt", "Short-lived.", token);
+  const attachments = async () => {
+    const res = await worker.get(`/api/attachments?sessionId=${sessionId}`, token);
+    return (await json<{ attachments: unknown[] }>(res)).data.attachments;
+  };
+  assert.equal((await attachments()).length, 1);
+
+  assert.ok(await eventually(async () => (await attachments()).length === 0), "the attachment expires");
+  assert.equal((await worker.get(`/api/messages?sessionId=${sessionId}`, token)).status, 200);
+});
+
+test("invalid or negative TTLs keep sessions and files", async () => {
+  const worker = await start({ SESSION_TTL_DAYS: `-${SHORT_TTL_DAYS}`, UPLOAD_TTL_DAYS: `${SHORT_TTL_DAYS}x` });
+  const { sessionId, token } = await worker.session();
+  const upload = await json<{ fileId: string }>(await worker.upload("notes.txt", "Kept.", token));
+  await new Promise((resolve) => setTimeout(resolve, 1500));
+  assert.equal((await worker.get(`/api/messages?sessionId=${sessionId}`, token)).status, 200);
+  assert.equal((await worker.get(`/api/file?fileId=${upload.data.fileId}`, token)).status, 200);
+});
@@ -0,0 +1,355 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import type { Response } from "miniflare";
+import { signSessionToken, type SessionClaims } from "../src/auth";
+import { ADMIN_TOKEN, SESSION_SECRET, json, startWorker, type TestWorker } from "./harness";
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+interface Case {
+  method: "GET" | "POST";
+  /** `SID` is replaced by the test session's ID. */
+  path: string;
+  /** Sent as JSON with `SID` replaced; a string is sent as-is (e.g. invalid JSON). */
+  body?: unknown;
+  /** Bearer token to send: the session's (default) or the admin token. */
+  auth?: "session" | "admin";
+  status: number;
+  code: string;
+  message?: RegExp;
+}
+
+const BAD_JSON = "{";
+
+/** Requests each route rejects before doing any work, with the error each one returns. */
+const CASES: Case[] = [
+  {
+    method: "POST",
+    path: "/api/import?format=xml",
+    body: "",
+    status: 400,
+    code: "validation_error",
+    message: /format/,
+  },
+  { method: "POST", path: "/api/import", body: "not an export", status: 400, code: "validation_error" },
+  { method: "GET", path: "/api/sessions?limit=0", status: 400, code: "validation_error", message: /limit/ },
+  { method: "GET", path: "/api/sessions?offset=-1", status: 400, code: "validation_error", message: /offset/ },
+  { method: "GET", path: "/api/sessions/search", status: 400, code: "validation_error", message: /q query param/ },
+  { method: "GET", path: "/api/sessions/search?q=x&limit=0", status: 400, code: "validation_error", message: /limit/ },
+  { method: "POST", path: "/api/sessions/open", body: BAD_JSON, status: 400, code: "bad_request" },
+  { method: "POST", path: "/api/sessions/open", body: {}, status: 400, code: "validation_error", message: /sessionId/ },
+  {
+    method: "POST",
+    path: "/api/sessions/rename",
+    body: { sessionId: "SID", title: " " },
+    status: 400,
+    code: "validation_error",
+    message: /title/,
+  },
+  { method: "POST", path: "/api/upload", body: {}, status: 400, code: "bad_request", message: /multipart/ },
+  { method: "GET", path: "/api/file", status: 400, code: "validation_error", message: /fileId/ },
+  { method: "GET", path: "/api/file?fileId=missing", status: 404, code: "not_found" },
+  { method: "GET", path: "/api/attachments", status: 400, code: "validation_error", message: /sessionId/ },
+  {
+    method: "POST",
+    path: "/api/attachments/rename",
+    body: { sessionId: "SID" },
+    status: 400,
+    code: "validation_error",
+    message: /fileId/,
+  },
+  {
+    method: "POST",
+    path: "/api/attachments/rename",
+    body: { sessionId: "SID", fileId: "missing", name: "" },
+    status: 400,
+    code: "validation_error",
+    message: /name/,
+  },
+  {
+    method: "POST",
+    path: "/api/attachments/delete",
+    body: { sessionId: "SID", fileId: "missing" },
+    status: 404,
+    code: "not_found",
+  },
+  { method: "GET", path: "/api/moderation/events", status: 400, code: "validation_error", message: /sessionId/ },
+  {
+    method: "GET",
+    path: "/api/moderation/events?sessionId=SID&limit=0",
+    status: 400,
+    code: "validation_error",
+    message: /limit/,
+  },
+  { method: "GET", path: "/api/admin/stats", status: 401, code: "unauthorized", message: /Admin token/ },
+  { method: "GET", path: "/api/admin/stats?days=0", auth: "admin", status: 400, code: "validation_error" },
+  { method: "GET", path: "/api/settings", status: 400, code: "validation_error", message: /sessionId/ },
+  { method: "POST", path: "/api/settings", body: BAD_JSON, status: 400, code: "bad_request" },
+  {
+    method: "POST",
+    path: "/api/settings",
+    body: { sessionId: "SID", temperature: 9 },
+    status: 400,
+    code: "validation_error",
+    message: /temperature/,
+  },
+  {
+    method: "POST",
+    path: "/api/settings",
+    body: { sessionId: "SID", model: "@cf/unknown" },
+    status: 400,
+    code: "validation_error",
+  },
+  {
+    method: "POST",
+    path: "/api/settings",
+    body: { sessionId: "SID", maxTokens: 32_000 },
+    status: 400,
+    code: "validation_error",
+    message: /1\.\.30976/,
+  },
+  { method: "POST", path: "/api/profile", body: [], status: 400, code: "bad_request", message: /JSON object/ },
+  {
+    method: "POST",
+    path: "/api/profile",
+    body: { responseStyle: "loud" },
+    status: 400,
+    code: "validation_error",
+    message: /responseStyle/,
+  },
+  { method: "GET", path: "/api/live?sessionId=SID", status: 426, code: "bad_request", message: /WebSocket/ },
+  { method: "GET", path: "/api/messages", status: 400, code: "validation_error", message: /sessionId/ },
+  {
+    method: "GET",
+    path: "/api/messages?sessionId=SID&limit=0",
+    status: 400,
+    code: "validation_error",
+    message: /limit/,
+  },
+  {
+    method: "POST",
+    path: "/api/branches/switch",
+    body: { sessionId: "SID" },
+    status: 400,
+    code: "validation_error",
+    message: /messageId/,
+  },
+  {
+    method: "POST",
+    path: "/api/branches/switch",
+    body: { sessionId: "SID", messageId: 99 },
+    status: 404,
+    code: "not_found",
+  },
+  { method: "POST", path: "/api/chat", body: BAD_JSON, status: 400, code: "bad_request" },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "SID" },
+    status: 400,
+    code: "validation_error",
+    message: /message/,
+  },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "short", message: "hi" },
+    status: 400,
+    code: "validation_error",
+    message: /sessionId/,
+  },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "SID", message: "x".repeat(2001) },
+    status: 400,
+    code: "validation_error",
+    message: /1\.\.2000/,
+  },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "SID", message: "hi", fileIds: "a" },
+    status: 400,
+    code: "validation_error",
+    message: /fileIds/,
+  },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "SID", message: "hi", fileIds: ["a", "b", "c", "d", "e", "f"] },
+    status: 400,
+    code: "validation_error",
+    message: /attachments per message/,
+  },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "SID", message: "hi", fileIds: ["missing"] },
+    status: 404,
+    code: "not_found",
+  },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "SID", message: "hi", stream: true, responseSchema: { type: "object" } },
+    status: 400,
+    code: "validation_error",
+    message: /streaming/,
+  },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "SID", message: "hi", responseSchema: { $ref: "#/defs/x" } },
+    status: 400,
+    code: "validation_error",
+  },
+  {
+    method: "POST",
+    path: "/api/chat",
+    body: { sessionId: "SID", message: "hi", responseSchema: { type: "string", pattern: "^(a+)+$" } },
+    status: 400,
+    code: "validation_error",
+    message: /pattern is not supported/,
+  },
+  {
+    method: "POST",
+    path: "/api/messages/edit",
+    body: { sessionId: "SID", message: "hi" },
+    status: 400,
+    code: "validation_error",
+    message: /messageId/,
+  },
+  {
+    method: "POST",
+    path: "/api/messages/regenerate",
+    body: { sessionId: "SID", messageId: 42 },
+    status: 404,
+    code: "not_found",
+  },
+  { method: "POST", path: "/api/summarize", body: BAD_JSON, status: 400, code: "bad_request" },
+  { method: "POST", path: "/api/summarize", body: {}, status: 400, code: "validation_error", message: /sessionId/ },
+  { method: "POST", path: "/v1/chat/completions", body: BAD_JSON, status: 400, code: "bad_request" },
+  { method: "POST", path: "/v1/chat/completions", body: { messages: "hi" }, status: 400, code: "validation_error" },
+  {
+    method: "POST",
+    path: "/v1/chat/completions",
+    body: { messages: [{ role: "user", content: "hi" }], n: 2 },
+    status: 400,
+    code: "validation_error",
+  },
+  {
+    method: "POST",
+    path: "/v1/chat/completions",
+    body: { messages: [{ role: "user", content: "hi" }], max_tokens: 32_000 },
+    status: 400,
+    code: "validation_error",
+  },
+  { method: "GET", path: "/api/export", status: 400, code: "validation_error", message: /sessionId/ },
+  {
+    method: "GET",
+    path: "/api/export?sessionId=SID&format=xml",
+    status: 400,
+    code: "validation_error",
+    message: /format/,
+  },
+  { method: "GET", path: "/api/nope", status: 404, code: "not_found" },
+];
+
+/** Routes that need a session token, with a request that would otherwise succeed. */
+const AUTHENTICATED: Pick<Case, "method" | "path" | "body">[] = [
+  { method: "GET", path: "/api/sessions" },
+  { method: "GET", path: "/api/sessions/search?q=hello" },
+  { method: "POST", path: "/api/sessions/open", body: { sessionId: "SID" } },
+  { method: "GET", path: "/api/file?fileId=x" },
+  { method: "GET", path: "/api/attachments?sessionId=SID" },
+  { method: "GET", path: "/api/moderation/events?sessionId=SID" },
+  { method: "GET", path: "/api/models" },
+  { method: "GET", path: "/api/settings?sessionId=SID" },
+  { method: "GET", path: "/api/profile" },
+  { method: "GET", path: "/api/messages?sessionId=SID" },
+  { method: "POST", path: "/api/chat", body: { sessionId: "SID", message: "hi" } },
+  { method: "POST", path: "/api/summarize", body: { sessionId: "SID" } },
+  { method: "GET", path: "/v1/models" },
+  { method: "GET", path: "/api/export?sessionId=SID" },
+  { method: "POST", path: "/api/live/ticket" },
+];
+
+function request(c: Pick<Case, "method" | "path" | "body">, bearer: string | null): Promise<Response> {
+  const fill = (s: string) => s.replaceAll("SID", sessionId);
+  const headers: Record<string, string> = bearer ? { Authorization: `Bearer ${bearer}` } : {};
+  if (c.method === "GET") return worker.fetch(fill(c.path), { headers });
+  const body = typeof c.body === "string" ? c.body : fill(JSON.stringify(c.body ?? {}));
+  return worker.fetch(fill(c.path), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+  });
+}
+
+describe("validation errors", () => {
+  for (const c of CASES) {
+    const body = c.body === undefined ? "" : ` ${JSON.stringify(c.body).slice(0, 80)}`;
+    test(`${c.method} ${c.path}${body} -> ${c.status} ${c.code}`, async () => {
+      const bearer = c.auth === "admin" ? ADMIN_TOKEN : token;
+      const calls = worker.ai.textCalls().length;
+      const res = await request(c, bearer);
+      const body = await json(res);
+      assert.equal(res.status, c.status, JSON.stringify(body));
+      assert.equal(body.error.code, c.code);
+      if (c.message) assert.match(body.error.message, c.message);
+      assert.equal(worker.ai.textCalls().length, calls, "a rejected request makes no model call");
+    });
+  }
+});
+
+describe("authentication", () => {
+  for (const c of AUTHENTICATED) {
+    test(`${c.method} ${c.path} requires a session token`, async () => {
+      const res = await request(c, null);
+      assert.equal(res.status, 401);
+      assert.equal((await json(res)).error?.code ?? "", "unauthorized");
+    });
+  }
+
+  test("a token for another session is rejected", async () => {
+    const other = await worker.session();
+    const res = await worker.get(`/api/messages?sessionId=${sessionId}`, other.token);
+    assert.equal(res.status, 401);
+    assert.match((await json(res)).error.message, /not issued for this sessionId/);
+  });
+
+  test("a tampered token is rejected", async () => {
+    const res = await worker.get(`/api/messages?sessionId=${sessionId}`, `${token.slice(0, -2)}xx`);
+    assert.equal(res.status, 401);
+  });
+
+  test("the live socket accepts a ticket but not the session token", async () => {
+    const upgrade = (query: string) =>
+      worker.fetch(`/api/live?sessionId=${sessionId}&${query}`, { headers: { Upgrade: "websocket" } });
+    assert.equal((await upgrade(`token=${token}`)).status, 401);
+    assert.equal((await upgrade(`ticket=${token}`)).status, 401);
+    const { ticket } = (await json<{ ticket: string }>(await worker.post("/api/live/ticket", {}, token))).data;
+    const res = await upgrade(`ticket=${ticket}`);
+    assert.equal(res.status, 101);
+    assert.ok(res.webSocket);
+    res.webSocket.accept();
+    res.webSocket.close();
+  });
+
+  test("an expired token is rejected", async () => {
+    const claims = JSON.parse(Buffer.from(token.split(".")[0], "base64url").toString()) as SessionClaims;
+    const expired = await signSessionToken({ ...claims, iat: Date.now() - 31 * 86_400_000 }, SESSION_SECRET);
+    const res = await worker.get(`/api/messages?sessionId=${sessionId}`, expired);
+    assert.equal(res.status, 401);
+    assert.match((await json(res)).error.message, /expired/);
+  });
+});
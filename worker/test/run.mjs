@@ -0,0 +1,38 @@
+// Bundles the Worker and the tests into .test-build/, then runs the tests with node:test.
+// Usage: npm test [-- <name filter>]   e.g. `npm test -- files` runs test/files.test.ts only.
+
+import { spawnSync } from "node:child_process";
+import { readdirSync, rmSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { build } from "esbuild";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const outdir = `${root}.test-build`;
+const filter = process.argv[2] ?? "";
+
+rmSync(outdir, { recursive: true, force: true });
+
+const workerOptions = { bundle: true, format: "esm", platform: "neutral", target: "es2022", logLevel: "warning" };
+await build({ ...workerOptions, entryPoints: [`${root}src/index.ts`], outfile: `${outdir}/worker.js` });
+await build({
+  ...workerOptions,
+  entryPoints: [`${root}test/fixtures/migrationsWorker.ts`],
+  outfile: `${outdir}/migrationsWorker.js`,
+});
+
+const tests = readdirSync(`${root}test`).filter((f) => f.endsWith(".test.ts") && f.includes(filter));
+await build({
+  entryPoints: tests.map((f) => `${root}test/${f}`),
+  outdir,
+  outExtension: { ".js": ".mjs" },
+  bundle: true,
+  format: "esm",
+  platform: "node",
+  target: "node20",
+  packages: "external",
+  logLevel: "warning",
+});
+
+const files = tests.map((f) => `${outdir}/${f.replace(/\.ts$/, ".mjs")}`);
+const run = spawnSync(process.execPath, ["--test", "--test-concurrency=1", ...files], { stdio: "inherit" });
+process.exit(run.status ?? 1);
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import type { SearchHit, SessionEntry } from "../src/sessionDirectoryDO";
+import { json, startWorker, type TestWorker } from "./harness";
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker();
+});
+beforeEach(async () => {
+  worker.ai.reset();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+/** A second session for the same owner, created with the first session's token. */
+async function sibling(): Promise<{ sessionId: string; token: string }> {
+  const res = await worker.post("/api/session", {}, token);
+  return (await json<{ sessionId: string; token: string }>(res)).data;
+}
+
+async function listed(): Promise<{ sessions: SessionEntry[]; total: number }> {
+  return (await json<{ sessions: SessionEntry[]; total: number }>(await worker.get("/api/sessions", token))).data;
+}
+
+async function search(q: string): Promise<SearchHit[]> {
+  const res = await worker.get(`/api/sessions/search?q=${encodeURIComponent(q)}`, token);
+  return (await json<{ results: SearchHit[] }>(res)).data.results;
+}
+
+test("an owner's sessions are listed, and only theirs", async () => {
+  const second = await sibling();
+  await worker.session();
+  const { sessions, total } = await listed();
+  assert.equal(total, 2);
+  assert.deepEqual(sessions.map((s) => s.sessionId).sort(), [second.sessionId, sessionId].sort());
+});
+
+test("a session's messages are searchable once the turn is indexed", async () => {
+  worker.ai.script({ text: "Lisbon is lovely in May." });
+  await worker.post("/api/chat", { sessionId, message: "Plan a trip to Lisbon" }, token);
+  // The directory is updated in the background after each turn.
+  for (let tries = 0; (await search("Lisbon")).length < 2 && tries < 50; tries++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  const hits = await search("Lisbon");
+  assert.deepEqual(
+    hits.map((h) => [h.sessionId, h.role]).sort(),
+    [
+      [sessionId, "assistant"],
+      [sessionId, "user"],
+    ]
+  );
+  assert.ok(hits.every((h) => h.snippet.includes("[Lisbon]")), JSON.stringify(hits));
+  assert.equal((await listed()).sessions[0].title, "Plan a trip to Lisbon");
+  assert.deepEqual(await search("Madrid"), []);
+});
+
+test("a renamed session keeps its title", async () => {
+  const res = await worker.post("/api/sessions/rename", { sessionId, title: "  Holiday plans " }, token);
+  assert.equal(res.status, 200);
+  assert.equal((await json<{ session: SessionEntry }>(res)).data.session.title, "Holiday plans");
+  assert.equal((await listed()).sessions.find((s) => s.sessionId === sessionId)?.title, "Holiday plans");
+});
+
+test("opening a sibling session returns a token for it", async () => {
+  const second = await sibling();
+  const res = await worker.post("/api/sessions/open", { sessionId: second.sessionId }, token);
+  const opened = (await json<{ sessionId: string; token: string }>(res)).data;
+  assert.equal(opened.sessionId, second.sessionId);
+  assert.equal((await worker.get(`/api/messages?sessionId=${second.sessionId}`, opened.token)).status, 200);
+});
+
+test("a deleted session is removed with its data", async () => {
+  const second = await sibling();
+  await worker.post("/api/chat", { sessionId: second.sessionId, message: "Hello" }, second.token);
+  const res = await worker.post("/api/sessions/delete", { sessionId: second.sessionId }, token);
+  assert.deepEqual((await json(res)).data, { deleted: true, attachments: 0 });
+  assert.deepEqual((await listed()).sessions.map((s) => s.sessionId), [sessionId]);
+  assert.equal((await worker.get(`/api/messages?sessionId=${second.sessionId}`, second.token)).status, 401);
+});
+
+test("another owner's session cannot be opened, renamed or deleted", async () => {
+  const stranger = await worker.session();
+  for (const path of ["/api/sessions/open", "/api/sessions/rename", "/api/sessions/delete"]) {
+    const res = await worker.post(path, { sessionId: stranger.sessionId, title: "Mine now" }, token);
+    assert.equal(res.status, 404, path);
+    assert.equal((await json(res)).error.code, "not_found", path);
+  }
+  const messages = await worker.get(`/api/messages?sessionId=${stranger.sessionId}`, stranger.token);
+  assert.equal(messages.status, 200);
+});
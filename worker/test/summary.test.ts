@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, test } from "node:test";
+import type { SessionExport } from "../src/exportFormats";
+import { json, startWorker, type ChatReply, type TestWorker } from "./harness";
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker();
+});
+beforeEach(async () => {
+  worker.ai.reset();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+async function chat(message: string, reply: string): Promise<void> {
+  worker.ai.script({ text: reply });
+  const res = await worker.post("/api/chat", { sessionId, message }, token);
+  assert.equal(res.status, 200);
+}
+
+async function summarize(): Promise<{ status: number; summary: string }> {
+  const res = await worker.post("/api/summarize", { sessionId }, token);
+  return { status: res.status, summary: (await json<{ summary: string }>(res)).data?.summary };
+}
+
+test("a summary is stored and exported", async () => {
+  await chat("Plan a trip to Oslo", "Sure, when?");
+  worker.ai.script({ text: "The user is planning a trip to Oslo." });
+  assert.deepEqual(await summarize(), { status: 200, summary: "The user is planning a trip to Oslo." });
+
+  const exported = await json<SessionExport>(await worker.get(`/api/export?sessionId=${sessionId}`, token));
+  assert.equal(exported.data.summary, "The user is planning a trip to Oslo.");
+  assert.equal(exported.data.summarizedThroughId, 2);
+});
+
+test("summarizing again without new messages reuses the stored summary", async () => {
+  await chat("Hello", "Hi!");
+  worker.ai.script({ text: "Greetings were exchanged." });
+  await summarize();
+  const calls = worker.ai.textCalls().length;
+  assert.deepEqual(await summarize(), { status: 200, summary: "Greetings were exchanged." });
+  assert.equal(worker.ai.textCalls().length, calls);
+});
+
+test("new messages are folded into the existing summary", async () => {
+  await chat("I like tea", "Noted.");
+  worker.ai.script({ text: "The user likes tea." });
+  await summarize();
+  await chat("And biscuits", "Noted too.");
+  worker.ai.script({ text: "The user likes tea and biscuits." });
+  assert.equal((await summarize()).summary, "The user likes tea and biscuits.");
+
+  const prompt = JSON.stringify(worker.ai.textCalls().at(-1)!.inputs.messages);
+  assert.match(prompt, /Existing summary:\\nThe user likes tea\./);
+  assert.match(prompt, /user: And biscuits/);
+  assert.doesNotMatch(prompt, /user: I like tea/);
+});
+
+test("the summary is part of later chat prompts", async () => {
+  await chat("My name is Ada", "Hello Ada.");
+  worker.ai.script({ text: "The user is called Ada." });
+  await summarize();
+  await chat("What is my name?", "Ada.");
+  const messages = worker.ai.textCalls().at(-1)!.inputs.messages as { role: string; content: string }[];
+  assert.ok(messages.some((m) => m.role === "system" && m.content === "Session summary: The user is called Ada."));
+});
+
+test("a failed summary is a 502 and keeps the previous one", async () => {
+  await chat("Remember the number 7", "Got it.");
+  worker.ai.script({ text: "The number is 7." });
+  await summarize();
+  await chat("Now also 8", "Got it.");
+  worker.ai.script({ error: "model unavailable" });
+  assert.equal((await summarize()).status, 502);
+
+  const exported = await json<SessionExport>(await worker.get(`/api/export?sessionId=${sessionId}`, token));
+  assert.equal(exported.data.summary, "The number is 7.");
+  assert.equal(exported.data.summarizedThroughId, 2);
+});
+
+test("a summary written over a newer one is a conflict", async () => {
+  await chat("Remember the number 7", "Got it.");
+  worker.ai.script({ text: "Slow summary.", delayMs: 500 }, { text: "Fast summary." });
+  const slow = summarize();
+  while (worker.ai.textCalls().length < 2) await new Promise((resolve) => setTimeout(resolve, 10));
+  assert.deepEqual(await summarize(), { status: 200, summary: "Fast summary." });
+  assert.equal((await slow).status, 409);
+
+  const exported = await json<SessionExport>(await worker.get(`/api/export?sessionId=${sessionId}`, token));
+  assert.equal(exported.data.summary, "Fast summary.");
+});
+
+/** A new session holding `turns` question and answer pairs, none of them summarized. */
+async function importTurns(turns: number): Promise<{ sessionId: string; token: string }> {
+  const messages = Array.from({ length: turns }, (_, i) => [
+    { role: "user", content: `Question ${i + 1}` },
+    { role: "assistant", content: `Answer ${i + 1}` },
+  ]).flat();
+  const res = await worker.post("/api/import?format=openai", { messages }, token);
+  return (await json<{ sessionId: string; token: string }>(res)).data;
+}
+
+test("messages that no longer fit the context are folded into the summary before the reply", async () => {
+  const imported = await importTurns(20);
+  worker.ai.script({ text: "Twenty questions were answered." }, { text: "Next answer." });
+  const res = await worker.post("/api/chat", { sessionId: imported.sessionId, message: "Next" }, imported.token);
+  assert.equal((await json<ChatReply>(res)).data.omittedMessages, 0);
+
+  const prompt = worker.ai.textCalls()[1].inputs.messages as { role: string; content: string }[];
+  assert.ok(prompt.some((m) => m.content === "Session summary: Twenty questions were answered."));
+  assert.ok(prompt.some((m) => m.content === "Question 16"));
+  assert.ok(!prompt.some((m) => m.content === "Question 1"));
+});
+
+test("messages left out because the fold failed are reported", async () => {
+  const imported = await importTurns(20);
+  worker.ai.script({ error: "model unavailable" }, { text: "Next answer." });
+  const res = await worker.post("/api/chat", { sessionId: imported.sessionId, message: "Next" }, imported.token);
+  assert.equal((await json<ChatReply>(res)).data.omittedMessages, 10);
+});
+
+test("the summary survives a restart of the Worker", async () => {
+  const persistDir = mkdtempSync(join(tmpdir(), "chat-worker-"));
+  try {
+    const first = await startWorker({}, { persistDir });
+    const session = await first.session();
+    first.ai.script({ text: "Kept." }, { text: "Something was kept." });
+    await first.post("/api/chat", { sessionId: session.sessionId, message: "Keep this" }, session.token);
+    await first.post("/api/summarize", { sessionId: session.sessionId }, session.token);
+    await first.dispose();
+
+    const second = await startWorker({}, { persistDir });
+    try {
+      const res = await second.get(`/api/export?sessionId=${session.sessionId}`, session.token);
+      const exported = await json<SessionExport>(res);
+      assert.equal(exported.data.summary, "Something was kept.");
+      assert.equal(exported.data.messages.length, 2);
+    } finally {
+      await second.dispose();
+    }
+  } finally {
+    rmSync(persistDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import type { MessageRow } from "../src/chatSessionDO";
+import type { ToolStep } from "../src/tools";
+import { json, startWorker, type ChatReply, type TestWorker } from "./harness";
+
+const MODEL = "@cf/test/tools";
+const REGISTRY = [
+  { id: MODEL, label: "Tools", contextTokens: 8000, tools: true, defaults: { temperature: 0.5, maxTokens: 256 } },
+];
+
+let worker: TestWorker;
+let sessionId: string;
+let token: string;
+
+before(async () => {
+  worker = await startWorker({ MODEL_REGISTRY: JSON.stringify(REGISTRY), DEFAULT_MODEL: MODEL, TOOL_MAX_STEPS: "3" });
+});
+beforeEach(async () => {
+  worker.ai.reset();
+  ({ sessionId, token } = await worker.session());
+});
+after(() => worker.dispose());
+
+/** A model reply that asks for one tool call. */
+function toolCall(name: string, args: Record<string, unknown>) {
+  return { result: { response: "", tool_calls: [{ name, arguments: args }] } };
+}
+
+async function chat(message: string): Promise<ChatReply & { steps: ToolStep[] }> {
+  const res = await worker.post("/api/chat", { sessionId, message }, token);
+  const body = await json<ChatReply & { steps: ToolStep[] }>(res);
+  assert.equal(res.status, 200, JSON.stringify(body));
+  return body.data;
+}
+
+async function history(): Promise<MessageRow[]> {
+  const res = await worker.get(`/api/messages?sessionId=${sessionId}`, token);
+  return (await json<{ messages: MessageRow[] }>(res)).data.messages;
+}
+
+test("a tool the model asks for is run and its result sent back", async () => {
+  const upload = await json<{ fileId: string }>(await worker.upload("notes.txt", "Buy milk.", token));
+  worker.ai.script(toolCall("list_files", {}), { text: "You have one file." });
+  const reply = await chat("Which files do I have?");
+  assert.equal(reply.reply, "You have one file.");
+  assert.deepEqual(
+    reply.steps.map(({ durationMs: _, ...step }) => step),
+    [
+      {
+        step: 1,
+        name: "list_files",
+        arguments: {},
+        result: {
+          files: [{ fileId: upload.data.fileId, filename: "notes.txt", size: 9, contentType: "text/plain" }],
+        },
+      },
+    ]
+  );
+
+  const [first, second] = worker.ai.textCalls();
+  assert.ok(Array.isArray(first.inputs.tools));
+  const fed = (second.inputs.messages as { role: string; content: string }[]).at(-1);
+  assert.equal(fed?.role, "tool");
+  assert.match(fed?.content ?? "", new RegExp(upload.data.fileId));
+  assert.deepEqual(
+    (await history()).map((m) => [m.role, m.toolName ?? m.toolCalls?.[0].name ?? m.content]),
+    [
+      ["user", "Which files do I have?"],
+      ["assistant", "list_files"],
+      ["tool", "list_files"],
+      ["assistant", "You have one file."],
+    ]
+  );
+});
+
+test("invalid arguments and unknown tools go back to the model as errors", async () => {
+  worker.ai.script(
+    { result: { response: "", tool_calls: [{ name: "read_file", arguments: {} }, { name: "launch", arguments: {} }] } },
+    { text: "I could not read it." }
+  );
+  const reply = await chat("Read my file");
+  assert.equal(reply.reply, "I could not read it.");
+  assert.deepEqual(
+    reply.steps.map((s) => [s.name, s.result]),
+    [
+      ["read_file", undefined],
+      ["launch", undefined],
+    ]
+  );
+  assert.match(reply.steps[0].error ?? "", /fileId/);
+  assert.match(reply.steps[1].error ?? "", /launch/);
+  const fed = (worker.ai.textCalls()[1].inputs.messages as { role: string; content: string }[]).slice(-2);
+  assert.ok(fed.every((m) => m.role === "tool" && JSON.parse(m.content).error), JSON.stringify(fed));
+});
+
+test("tools are offered for TOOL_MAX_STEPS rounds, then the model must answer", async () => {
+  worker.ai.script(...Array.from({ length: 4 }, () => toolCall("calculate", { expression: "1 + 1" })));
+  const reply = await chat("Keep calculating");
+  assert.equal(reply.steps.length, 3);
+  assert.equal(reply.reply, "No response.");
+  const offered = worker.ai.textCalls().map((c) => Array.isArray(c.inputs.tools));
+  assert.deepEqual(offered, [true, true, true, false]);
+});
+
+test("a streamed turn sends each tool step before the reply", async () => {
+  worker.ai.script(toolCall("calculate", { expression: "6 * 7" }), { text: "It is 42." });
+  const res = await worker.post("/api/chat", { sessionId, message: "6 times 7?", stream: true }, token);
+  const blocks = (await res.text()).split("\n\n").filter(Boolean);
+  const names = blocks.map((b) => b.slice("event: ".length, b.indexOf("\n")));
+  assert.deepEqual(names.slice(0, 1), ["tool"]);
+  assert.equal(names.at(-1), "done");
+  const step = JSON.parse(blocks[0].slice(blocks[0].indexOf("data: ") + 6)) as ToolStep;
+  assert.deepEqual([step.name, step.result], ["calculate", { expression: "6 * 7", result: 42 }]);
+});
+
+test("tool-call arguments are redacted before they are stored", async () => {
+  worker.ai.script(toolCall("search_history", { query: "jane@example.com" }), { text: "Nothing found." });
+  const res = await worker.post("/api/chat", { sessionId, message: "Did I mention my address?" }, token);
+  assert.equal((await json<ChatReply>(res)).data.reply, "Nothing found.");
+
+  const stored = JSON.stringify(await history());
+  assert.doesNotMatch(stored, /jane@/);
+  const call = (await history()).find((m) => m.toolCalls);
+  assert.deepEqual(call?.toolCalls, [{ name: "search_history", arguments: { query: "[REDACTED_EMAIL]" } }]);
+
+  const events = await json<{ events: { source: string; findings: { check: string }[] }[] }>(
+    await worker.get(`/api/moderation/events?sessionId=${sessionId}`, token)
+  );
+  const reply = events.data.events.filter((e) => e.source === "reply");
+  assert.ok(reply.some((e) => e.findings.some((f) => f.check === "email")), JSON.stringify(events));
+});